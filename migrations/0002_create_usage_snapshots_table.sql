@@ -0,0 +1,15 @@
+-- 创建用量快照表（每次定时刷新写入一行/Key）
+CREATE TABLE IF NOT EXISTS usage_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    key_id TEXT NOT NULL,
+    start_date TEXT NOT NULL,
+    end_date TEXT NOT NULL,
+    org_total_tokens_used INTEGER NOT NULL,
+    total_allowance INTEGER NOT NULL,
+    used_ratio REAL NOT NULL,
+    captured_at INTEGER NOT NULL -- 毫秒时间戳
+);
+
+-- 按 Key + 时间查询历史序列
+CREATE INDEX IF NOT EXISTS idx_usage_snapshots_key_captured ON usage_snapshots(key_id, captured_at);
+CREATE INDEX IF NOT EXISTS idx_usage_snapshots_captured ON usage_snapshots(captured_at);
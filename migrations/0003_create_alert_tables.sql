@@ -0,0 +1,26 @@
+-- 创建告警规则表
+CREATE TABLE IF NOT EXISTS alert_rules (
+    id TEXT PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL, -- key_used_ratio | pool_remaining | key_error
+    threshold REAL, -- key_used_ratio: 使用率 (0~1)；pool_remaining: 剩余 Token 数
+    match TEXT, -- key_error: 错误信息需包含的文本，为空表示任意错误
+    enabled INTEGER NOT NULL DEFAULT 1,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+-- 创建告警 Webhook 表
+CREATE TABLE IF NOT EXISTS alert_webhooks (
+    id TEXT PRIMARY KEY NOT NULL,
+    url TEXT NOT NULL,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+-- 告警去重状态：同一规则 + 目标在条件持续成立期间只触发一次
+CREATE TABLE IF NOT EXISTS alert_state (
+    rule_id TEXT NOT NULL,
+    target TEXT NOT NULL, -- Key ID 或 pool
+    fired_at INTEGER NOT NULL, -- 毫秒时间戳
+    PRIMARY KEY (rule_id, target)
+);
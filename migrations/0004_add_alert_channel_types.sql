@@ -0,0 +1,4 @@
+-- 告警 Webhook 支持 Slack / 飞书 / 钉钉 / Telegram 原生消息格式
+ALTER TABLE alert_webhooks ADD COLUMN type TEXT NOT NULL DEFAULT 'generic'; -- generic | slack | feishu | dingtalk | telegram
+ALTER TABLE alert_webhooks ADD COLUMN secret TEXT; -- 钉钉 / 飞书加签密钥，或 Telegram Bot Token
+ALTER TABLE alert_webhooks ADD COLUMN chat_id TEXT; -- Telegram chat_id
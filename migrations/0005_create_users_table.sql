@@ -0,0 +1,10 @@
+-- 创建用户表（替代单一 EXPORT_PASSWORD 登录）
+CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY NOT NULL,
+    username TEXT NOT NULL UNIQUE,
+    password_hash TEXT NOT NULL, -- PBKDF2-SHA256 派生结果，base64
+    salt TEXT NOT NULL, -- 随机盐，base64
+    iterations INTEGER NOT NULL,
+    role TEXT NOT NULL DEFAULT 'viewer', -- viewer | operator | admin
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
@@ -0,0 +1,14 @@
+-- 创建 API Token 表（供脚本 / CI 通过 Authorization: Bearer 调用接口）
+CREATE TABLE IF NOT EXISTS api_tokens (
+    id TEXT PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE, -- Token 的 SHA-256（hex），明文只在创建时返回一次
+    token_prefix TEXT NOT NULL, -- 展示用前缀
+    scopes TEXT NOT NULL, -- 空格分隔：usage:read keys:write keys:export
+    user_id TEXT NOT NULL, -- 创建者，Token 权限不超过创建者当前角色
+    expires_at INTEGER, -- 毫秒时间戳，NULL 表示永不过期
+    last_used_at INTEGER,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_tokens_user_id ON api_tokens(user_id);
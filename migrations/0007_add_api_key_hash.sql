@@ -0,0 +1,10 @@
+-- API Key 改为加密存储：key 列保存信封加密后的密文（enc:v1:...），
+-- 重复检测改用 key_hash（基于主密钥派生的 HMAC-SHA256），无需解密
+ALTER TABLE api_keys ADD COLUMN key_hash TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_api_keys_key_hash ON api_keys(key_hash);
+
+-- 密文每次加密都不同，按明文建立的索引已无意义
+DROP INDEX IF EXISTS idx_api_keys_key;
+
+-- 已有的明文行需在部署后执行 POST /api/admin/reencrypt-keys（或等待下一次定时任务）完成加密
@@ -0,0 +1,23 @@
+-- 创建审计日志表（仅追加：导出 / 查看完整 Key / 删除 / 用户与 Token 变更等敏感操作）
+CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    created_at INTEGER NOT NULL, -- 毫秒时间戳
+    actor_id TEXT, -- 操作者用户 ID，登录失败时为 NULL
+    actor_name TEXT,
+    token_id TEXT, -- 通过 API Token 操作时记录 Token ID
+    action TEXT NOT NULL,
+    targets TEXT NOT NULL DEFAULT '[]', -- JSON：[{ "id": "...", "key": "掩码后的 Key" }]
+    details TEXT, -- JSON，可选
+    ip TEXT, -- CF-Connecting-IP
+    user_agent TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_action_created_at ON audit_log(action, created_at);
+
+-- 审计记录不可修改；删除仅由定时任务按保留期清理
+CREATE TRIGGER IF NOT EXISTS audit_log_no_update
+BEFORE UPDATE ON audit_log
+BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
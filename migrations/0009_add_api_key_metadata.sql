@@ -0,0 +1,5 @@
+-- 为 API Key 添加元数据：名称、负责人、备注与标签
+ALTER TABLE api_keys ADD COLUMN label TEXT;
+ALTER TABLE api_keys ADD COLUMN owner TEXT;
+ALTER TABLE api_keys ADD COLUMN notes TEXT;
+ALTER TABLE api_keys ADD COLUMN tags TEXT NOT NULL DEFAULT '[]'; -- JSON 字符串数组
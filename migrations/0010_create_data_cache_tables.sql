@@ -0,0 +1,13 @@
+-- /api/data 的持久化缓存：定时任务或强制刷新时写入聚合结果，页面加载直接读取
+CREATE TABLE IF NOT EXISTS data_cache (
+    name TEXT PRIMARY KEY NOT NULL,
+    payload TEXT NOT NULL, -- AggregatedResponse JSON（Key 已掩码）
+    refreshed_at INTEGER NOT NULL -- 毫秒时间戳
+);
+
+-- 跨 isolate 的互斥锁，避免多个标签页 / 定时任务同时向 Factory 发起全量刷新
+CREATE TABLE IF NOT EXISTS locks (
+    name TEXT PRIMARY KEY NOT NULL,
+    holder TEXT NOT NULL,
+    expires_at INTEGER NOT NULL -- 毫秒时间戳，过期后可被其他请求抢占
+);
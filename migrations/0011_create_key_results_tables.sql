@@ -0,0 +1,27 @@
+-- 每个 Key 最近一次的查询结果：定时任务分批刷新时逐批写入，再汇总为 data_cache
+CREATE TABLE IF NOT EXISTS key_results (
+    key_id TEXT PRIMARY KEY NOT NULL,
+    result TEXT NOT NULL, -- ApiKeyResult JSON（Key 已掩码，不含名称 / 标签等元数据）
+    refreshed_at INTEGER NOT NULL -- 毫秒时间戳
+);
+
+-- 分批刷新的游标：记录上一批处理到的 Key ID，下一批从其后继续，到末尾后回到开头
+CREATE TABLE IF NOT EXISTS refresh_state (
+    name TEXT PRIMARY KEY NOT NULL,
+    cursor TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+);
+
+-- 每次刷新的统计，用于观察刷新是否跟得上 Key 的数量
+CREATE TABLE IF NOT EXISTS refresh_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    source TEXT NOT NULL, -- scheduled / manual
+    started_at INTEGER NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    keys_processed INTEGER NOT NULL,
+    errors INTEGER NOT NULL, -- 查询失败的 Key 数
+    pending INTEGER NOT NULL, -- 本批结束后仍到期待刷新的 Key 数
+    error TEXT -- 整批失败时的错误信息
+);
+
+CREATE INDEX IF NOT EXISTS idx_refresh_runs_started_at ON refresh_runs(started_at);
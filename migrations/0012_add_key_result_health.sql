@@ -0,0 +1,5 @@
+-- Key 健康状态：最近一次成功时间、连续失败次数，以及当前错误类别及其开始时间
+ALTER TABLE key_results ADD COLUMN last_success_at INTEGER; -- 毫秒时间戳，从未成功时为空
+ALTER TABLE key_results ADD COLUMN consecutive_failures INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE key_results ADD COLUMN error_class TEXT; -- revoked / rate_limited / upstream_down / malformed / timeout，正常时为空
+ALTER TABLE key_results ADD COLUMN error_since INTEGER; -- 当前错误类别首次出现的时间，类别变化时重新计时
@@ -0,0 +1,9 @@
+-- Key 生命周期：active（正常）→ suspect（可疑）→ quarantined（已隔离）→ archived（已归档）→ 到期后彻底删除
+-- 由定时任务根据连续失败次数与余额为 0 的持续时间推进，已隔离 / 已归档的 Key 可手动恢复
+ALTER TABLE api_keys ADD COLUMN lifecycle_state TEXT NOT NULL DEFAULT 'active';
+ALTER TABLE api_keys ADD COLUMN lifecycle_changed_at INTEGER; -- 毫秒时间戳，为空表示自创建以来未变化
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_lifecycle_state ON api_keys(lifecycle_state);
+
+-- 余额为 0 的开始时间，余额恢复或查询失败时清空
+ALTER TABLE key_results ADD COLUMN exhausted_since INTEGER;
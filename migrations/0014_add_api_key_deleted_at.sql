@@ -0,0 +1,4 @@
+-- 软删除：删除的 Key 先进入回收站，可撤销 / 恢复，超过保留期后由定时任务彻底删除
+ALTER TABLE api_keys ADD COLUMN deleted_at INTEGER; -- 毫秒时间戳，为空表示未删除
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_deleted_at ON api_keys(deleted_at);
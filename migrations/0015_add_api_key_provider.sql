@@ -0,0 +1,24 @@
+-- 多服务商：记录每个 Key 所属的服务商，已有的 Key 均为 Factory
+ALTER TABLE api_keys ADD COLUMN provider TEXT NOT NULL DEFAULT 'factory'; -- factory | openai | anthropic | openrouter | deepseek
+
+-- 其他服务商的用量为金额（可为小数），与 Postgres 一致改为 REAL；OpenAI、Anthropic 只报告消费、没有额度上限，
+-- 快照的 total_allowance 与 used_ratio 需允许为空。SQLite 无法修改列类型与约束，重建表
+CREATE TABLE usage_snapshots_new (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    key_id TEXT NOT NULL,
+    start_date TEXT NOT NULL,
+    end_date TEXT NOT NULL,
+    org_total_tokens_used REAL NOT NULL, -- Factory 为 Token 数，其他服务商为金额（可为小数）
+    total_allowance REAL, -- 为空表示没有额度上限
+    used_ratio REAL, -- 没有额度上限时为空
+    captured_at INTEGER NOT NULL -- 毫秒时间戳
+);
+
+INSERT INTO usage_snapshots_new (id, key_id, start_date, end_date, org_total_tokens_used, total_allowance, used_ratio, captured_at)
+SELECT id, key_id, start_date, end_date, org_total_tokens_used, total_allowance, used_ratio, captured_at FROM usage_snapshots;
+
+DROP TABLE usage_snapshots;
+ALTER TABLE usage_snapshots_new RENAME TO usage_snapshots;
+
+CREATE INDEX IF NOT EXISTS idx_usage_snapshots_key_captured ON usage_snapshots(key_id, captured_at);
+CREATE INDEX IF NOT EXISTS idx_usage_snapshots_captured ON usage_snapshots(captured_at);
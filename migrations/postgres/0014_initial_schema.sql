@@ -0,0 +1,153 @@
+-- Postgres 版完整表结构，等同于 migrations/ 中 0001 ~ 0014 全部应用后的 D1 表结构
+-- 之后每新增一个 D1 迁移，都需在此目录添加同编号的 Postgres 迁移
+CREATE TABLE IF NOT EXISTS api_keys (
+    id TEXT PRIMARY KEY NOT NULL,
+    key TEXT NOT NULL UNIQUE,
+    key_hash TEXT UNIQUE, -- 基于主密钥派生的 HMAC-SHA256，用于重复检测
+    label TEXT,
+    owner TEXT,
+    notes TEXT,
+    tags TEXT NOT NULL DEFAULT '[]', -- JSON 字符串数组
+    lifecycle_state TEXT NOT NULL DEFAULT 'active',
+    lifecycle_changed_at BIGINT, -- 毫秒时间戳
+    deleted_at BIGINT, -- 毫秒时间戳，为空表示未删除
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_created_at ON api_keys(created_at);
+CREATE INDEX IF NOT EXISTS idx_api_keys_lifecycle_state ON api_keys(lifecycle_state);
+CREATE INDEX IF NOT EXISTS idx_api_keys_deleted_at ON api_keys(deleted_at);
+
+CREATE TABLE IF NOT EXISTS usage_snapshots (
+    id BIGSERIAL PRIMARY KEY,
+    key_id TEXT NOT NULL,
+    start_date TEXT NOT NULL,
+    end_date TEXT NOT NULL,
+    org_total_tokens_used BIGINT NOT NULL,
+    total_allowance BIGINT NOT NULL,
+    used_ratio DOUBLE PRECISION NOT NULL,
+    captured_at BIGINT NOT NULL -- 毫秒时间戳
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_snapshots_key_captured ON usage_snapshots(key_id, captured_at);
+CREATE INDEX IF NOT EXISTS idx_usage_snapshots_captured ON usage_snapshots(captured_at);
+
+CREATE TABLE IF NOT EXISTS alert_rules (
+    id TEXT PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL, -- key_used_ratio | pool_remaining | key_error
+    threshold DOUBLE PRECISION,
+    match TEXT,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS alert_webhooks (
+    id TEXT PRIMARY KEY NOT NULL,
+    type TEXT NOT NULL DEFAULT 'generic', -- generic | slack | feishu | dingtalk | telegram
+    url TEXT NOT NULL,
+    secret TEXT,
+    chat_id TEXT,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS alert_state (
+    rule_id TEXT NOT NULL,
+    target TEXT NOT NULL, -- Key ID 或 pool
+    fired_at BIGINT NOT NULL, -- 毫秒时间戳
+    PRIMARY KEY (rule_id, target)
+);
+
+CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY NOT NULL,
+    username TEXT NOT NULL UNIQUE,
+    password_hash TEXT NOT NULL,
+    salt TEXT NOT NULL,
+    iterations INTEGER NOT NULL,
+    role TEXT NOT NULL DEFAULT 'viewer', -- viewer | operator | admin
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS api_tokens (
+    id TEXT PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    token_prefix TEXT NOT NULL,
+    scopes TEXT NOT NULL, -- 空格分隔
+    user_id TEXT NOT NULL,
+    expires_at BIGINT,
+    last_used_at BIGINT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_tokens_user_id ON api_tokens(user_id);
+
+CREATE TABLE IF NOT EXISTS audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    created_at BIGINT NOT NULL, -- 毫秒时间戳
+    actor_id TEXT,
+    actor_name TEXT,
+    token_id TEXT,
+    action TEXT NOT NULL,
+    targets TEXT NOT NULL DEFAULT '[]', -- JSON
+    details TEXT, -- JSON，可选
+    ip TEXT,
+    user_agent TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_action_created_at ON audit_log(action, created_at);
+
+-- 审计记录不可修改；删除仅由定时任务按保留期清理
+CREATE OR REPLACE FUNCTION audit_log_no_update() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_no_update ON audit_log;
+CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log
+    FOR EACH ROW EXECUTE FUNCTION audit_log_no_update();
+
+CREATE TABLE IF NOT EXISTS data_cache (
+    name TEXT PRIMARY KEY NOT NULL,
+    payload TEXT NOT NULL, -- AggregatedResponse JSON（Key 已掩码）
+    refreshed_at BIGINT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS locks (
+    name TEXT PRIMARY KEY NOT NULL,
+    holder TEXT NOT NULL,
+    expires_at BIGINT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS key_results (
+    key_id TEXT PRIMARY KEY NOT NULL,
+    result TEXT NOT NULL, -- ApiKeyResult JSON
+    refreshed_at BIGINT NOT NULL,
+    last_success_at BIGINT,
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    error_class TEXT,
+    error_since BIGINT,
+    exhausted_since BIGINT
+);
+
+CREATE TABLE IF NOT EXISTS refresh_state (
+    name TEXT PRIMARY KEY NOT NULL,
+    cursor TEXT NOT NULL,
+    updated_at BIGINT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS refresh_runs (
+    id BIGSERIAL PRIMARY KEY,
+    source TEXT NOT NULL, -- scheduled / manual
+    started_at BIGINT NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    keys_processed INTEGER NOT NULL,
+    errors INTEGER NOT NULL,
+    pending INTEGER NOT NULL,
+    error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_refresh_runs_started_at ON refresh_runs(started_at);
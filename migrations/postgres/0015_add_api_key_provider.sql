@@ -0,0 +1,9 @@
+-- 多服务商：记录每个 Key 所属的服务商，已有的 Key 均为 Factory
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS provider TEXT NOT NULL DEFAULT 'factory'; -- factory | openai | anthropic | openrouter | deepseek
+
+-- 其他服务商的用量为金额（可为小数）；OpenAI、Anthropic 只报告消费、没有额度上限，total_allowance 与 used_ratio 允许为空
+ALTER TABLE usage_snapshots
+    ALTER COLUMN org_total_tokens_used TYPE DOUBLE PRECISION,
+    ALTER COLUMN total_allowance TYPE DOUBLE PRECISION,
+    ALTER COLUMN total_allowance DROP NOT NULL,
+    ALTER COLUMN used_ratio DROP NOT NULL;
@@ -0,0 +1,216 @@
+// server.ts - Node.js / Bun entry point for self-hosting: the shared core (src/core.ts) over a SQLite file or Postgres
+//
+//   node --import tsx server.ts   (npm start)
+//   bun server.ts
+
+import { existsSync, mkdirSync, readdirSync, readFileSync } from "node:fs";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { dirname, join } from "node:path";
+import { Readable } from "node:stream";
+import { fileURLToPath } from "node:url";
+
+import { handleRequest, runScheduled, type Env } from "./src/core.ts";
+import type { KeyStore } from "./src/store.ts";
+import { D1KeyStore } from "./src/stores/d1.ts";
+import { migratePostgres, PostgresKeyStore } from "./src/stores/postgres.ts";
+import { migrateSqlite, SqliteD1Database, type SqliteDriver } from "./src/stores/sqlite.ts";
+
+// ==================== Type Definitions ====================
+
+/** Env plus the settings only this entry point reads; every value is a string, as in wrangler.toml [vars]. */
+interface ServerConfig extends Omit<Env, "store"> {
+  PORT?: string;
+  HOST?: string;
+  STORAGE?: "sqlite" | "postgres";
+  DATABASE_PATH?: string; // SQLite file
+  DATABASE_URL?: string; // Postgres connection string
+  TRUST_PROXY?: string; // "true": take the client IP from X-Forwarded-For
+}
+
+// The parts of the Bun API used here, so this file also runs under Node
+interface BunRuntime {
+  serve(options: {
+    port: number;
+    hostname: string;
+    fetch(request: Request, server: { requestIP(request: Request): { address: string } | null }): Promise<Response>;
+  }): { stop(): void };
+}
+
+// ==================== Configuration ====================
+
+const ROOT = dirname(fileURLToPath(import.meta.url));
+const SCHEDULE_INTERVAL_MS = 60 * 1000; // Replaces the Workers cron trigger; keep it in step with CONFIG.CRON_INTERVAL_MINUTES
+const REQUIRED_SETTINGS = ["EXPORT_PASSWORD", "SESSION_SECRET", "KEY_ENCRYPTION_KEY"] as const;
+
+const bun = (globalThis as { Bun?: BunRuntime }).Bun;
+
+/**
+ * Reads the JSON config file named by --config or CONFIG_FILE (default: config.json, if present);
+ * environment variables override its values.
+ */
+function loadConfig(): ServerConfig {
+  const flag = process.argv.indexOf("--config");
+  const path = flag > -1 ? process.argv[flag + 1] : process.env.CONFIG_FILE || "config.json";
+  const explicit = flag > -1 || !!process.env.CONFIG_FILE;
+
+  let file: Record<string, unknown> = {};
+  if (explicit || existsSync(path)) {
+    file = JSON.parse(readFileSync(path, "utf8"));
+    console.log(`Loaded configuration from ${path}`);
+  }
+
+  const config = Object.fromEntries(
+    Object.entries({ ...file, ...process.env })
+      .filter(([, value]) => value !== undefined && value !== null)
+      // Objects such as PROVIDER_BASE_URLS reach the app as the JSON string an env var would hold
+      .map(([name, value]) => [name, typeof value === "object" ? JSON.stringify(value) : String(value)])
+  ) as unknown as ServerConfig;
+
+  const missing = REQUIRED_SETTINGS.filter(name => !config[name]);
+  if (missing.length > 0) throw new Error(`Missing required settings: ${missing.join(", ")}`);
+  return config;
+}
+
+const readMigrations = (dir: string) => readdirSync(dir)
+  .filter(name => name.endsWith(".sql"))
+  .map(name => ({ name, sql: readFileSync(join(dir, name), "utf8") }));
+
+// ==================== Storage ====================
+
+/**
+ * Opens a SQLite file with bun:sqlite under Bun and better-sqlite3 under Node.
+ */
+async function openSqlite(path: string): Promise<SqliteDriver & { close(): void }> {
+  if (bun) {
+    const sqlite = "bun:sqlite"; // Kept out of a static import so Node never resolves it
+    const { Database } = await import(sqlite);
+    return new Database(path, { create: true });
+  }
+  const { default: Database } = await import("better-sqlite3");
+  return new Database(path);
+}
+
+/**
+ * Opens the configured store and applies pending migrations.
+ */
+async function openStore(config: ServerConfig): Promise<{ store: KeyStore; close(): Promise<void> }> {
+  switch (config.STORAGE || "sqlite") {
+    case "sqlite": {
+      const path = config.DATABASE_PATH || join(ROOT, "data", "key.db");
+      mkdirSync(dirname(path), { recursive: true });
+      const driver = await openSqlite(path);
+      driver.exec("PRAGMA journal_mode = WAL");
+
+      const applied = migrateSqlite(driver, readMigrations(join(ROOT, "migrations")));
+      if (applied.length > 0) console.log(`Applied migrations: ${applied.join(", ")}`);
+      console.log(`Using SQLite database ${path}`);
+      return { store: new D1KeyStore(new SqliteD1Database(driver)), close: async () => driver.close() };
+    }
+    case "postgres": {
+      if (!config.DATABASE_URL) throw new Error('STORAGE is "postgres" but DATABASE_URL is not set');
+      const { default: pg } = await import("pg");
+      const pool = new pg.Pool({ connectionString: config.DATABASE_URL });
+
+      const applied = await migratePostgres(pool, readMigrations(join(ROOT, "migrations", "postgres")));
+      if (applied.length > 0) console.log(`Applied migrations: ${applied.join(", ")}`);
+      console.log("Using Postgres database");
+      return { store: new PostgresKeyStore(pool), close: () => pool.end() };
+    }
+    default:
+      throw new Error(`Unknown STORAGE "${config.STORAGE}", expected "sqlite" or "postgres"`);
+  }
+}
+
+// ==================== HTTP Adapter ====================
+
+/**
+ * Replaces any client-sent CF-Connecting-IP with the address the core should log: the socket's,
+ * or the first X-Forwarded-For entry when TRUST_PROXY is set.
+ */
+function setClientIp(headers: Headers, socketAddress: string | null, trustProxy: boolean): Headers {
+  const forwarded = trustProxy ? headers.get("X-Forwarded-For")?.split(",")[0].trim() : null;
+  const ip = forwarded || socketAddress;
+  headers.delete("CF-Connecting-IP");
+  if (ip) headers.set("CF-Connecting-IP", ip);
+  return headers;
+}
+
+function toRequest(req: IncomingMessage, trustProxy: boolean): Request {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) headers.append(name, item);
+  }
+  const hasBody = req.method !== "GET" && req.method !== "HEAD";
+  return new Request(`http://${req.headers.host || "localhost"}${req.url}`, {
+    method: req.method,
+    headers: setClientIp(headers, req.socket.remoteAddress ?? null, trustProxy),
+    body: hasBody ? (Readable.toWeb(req) as ReadableStream) : undefined,
+    duplex: "half",
+  } as RequestInit);
+}
+
+async function sendResponse(res: ServerResponse, response: Response): Promise<void> {
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => {
+    if (name !== "set-cookie") res.setHeader(name, value);
+  });
+  const cookies = response.headers.getSetCookie();
+  if (cookies.length > 0) res.setHeader("Set-Cookie", cookies);
+  res.end(Buffer.from(await response.arrayBuffer()));
+}
+
+// ==================== Server Initialization ====================
+
+const config = loadConfig();
+const { store, close } = await openStore(config);
+const env: Env = { ...config, store };
+const trustProxy = config.TRUST_PROXY === "true";
+const port = Number(config.PORT) || 8000;
+const hostname = config.HOST || "0.0.0.0";
+
+let stopServer: () => void;
+if (bun) {
+  const server = bun.serve({
+    port,
+    hostname,
+    fetch: (request, server) => {
+      const headers = setClientIp(new Headers(request.headers), server.requestIP(request)?.address ?? null, trustProxy);
+      return handleRequest(new Request(request, { headers }), env);
+    },
+  });
+  stopServer = () => server.stop();
+} else {
+  const server = createServer(async (req, res) => {
+    try {
+      await sendResponse(res, await handleRequest(toRequest(req, trustProxy), env));
+    } catch (error) {
+      console.error("[FATAL ERROR]", error);
+      if (!res.headersSent) res.statusCode = 500;
+      res.end();
+    }
+  });
+  server.listen(port, hostname);
+  stopServer = () => server.close();
+}
+console.log(`Listening on http://${hostname}:${port}`);
+
+// Runs one scheduled job at a time; a run still going when the next is due skips that tick
+let scheduledRun: Promise<void> | null = null;
+const scheduler = setInterval(() => {
+  if (scheduledRun) return;
+  scheduledRun = runScheduled(env)
+    .catch(error => console.error("Scheduled run failed:", error))
+    .finally(() => { scheduledRun = null; });
+}, SCHEDULE_INTERVAL_MS);
+
+async function shutdown(signal: string): Promise<void> {
+  console.log(`${signal} received, shutting down`);
+  clearInterval(scheduler);
+  stopServer();
+  await scheduledRun;
+  await close();
+  process.exit(0);
+}
+
+process.on("SIGINT", () => void shutdown("SIGINT"));
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
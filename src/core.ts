@@ -0,0 +1,5327 @@
+// core.ts - Runtime-agnostic dashboard: routing, sessions, provider refresh and aggregation over a KeyStore
+
+import { DEFAULT_PROVIDER, detectProvider, isProviderId, PROVIDER_IDS, PROVIDERS } from './provider.ts';
+import type { KeyResultRecord, KeyStore, StoredKey } from './store.ts';
+import {
+  AdaptiveConcurrency, fetchUsage, isUpstreamError, type UpstreamClientOptions, type UpstreamErrorCode,
+} from './upstream-client.ts';
+import type {
+  AggregatedResponse, AlertEvent, AlertRule, AlertWebhook, ApiErrorData, ApiKey, ApiKeyResult, ApiToken, ApiUsageData,
+  AuditAction, AuditContext, AuditTarget, BatchImportResult, DataQuery, DataSortField, DeletedKey, ExportFormat,
+  ImportEntry, ImportFormat, ImportLineResult, KeyActionResult, KeyActionStatus, KeyErrorClass, KeyHealth,
+  KeyLifecycleSignal, KeyLifecycleState, KeyListEntry, KeyMetadata, KeyStatus, LifecyclePolicy, ProviderId, RefreshQueueEntry,
+  RefreshRun, RefreshSource, Session, TokenScope, UsageForecast, UsageTier, UsageTierTotals, UsageTotals, UsageUnit, User,
+  UserRecord, UserRole,
+} from './types.ts';
+
+// ==================== Type Definitions ====================
+
+/** One exported key: metadata plus the latest usage, keyed by the CSV column names. */
+type ExportRow = Record<(typeof CONFIG.EXPORT_COLUMNS)[number], string | number | null>;
+
+/** Configuration and storage of one deployment; each entry point builds it from its own environment. */
+export interface Env {
+  store: KeyStore;
+  EXPORT_PASSWORD: string;
+  SESSION_SECRET: string;
+  KEY_ENCRYPTION_KEY: string; // Base64-encoded 32-byte master key for API keys at rest
+  KEY_ENCRYPTION_KEY_PREVIOUS?: string; // Old master key, only set while rotating
+  AUDIT_RETENTION_DAYS?: string;
+  LIFECYCLE_SUSPECT_FAILURES?: string;
+  LIFECYCLE_QUARANTINE_HOURS?: string;
+  LIFECYCLE_ARCHIVE_DAYS?: string;
+  LIFECYCLE_PURGE_DAYS?: string;
+  TRASH_RETENTION_DAYS?: string;
+  REFRESH_INTERVAL_MINUTES?: string;
+  REFRESH_CHUNK_SIZE?: string;
+  PROVIDER_BASE_URLS?: string; // JSON object of provider ID to base URL, e.g. a proxy in front of OpenAI
+}
+
+// ==================== Configuration ====================
+
+const CONFIG = {
+  TIMEZONE_OFFSET_HOURS: 8, // Beijing time
+  KEY_MASK_PREFIX_LENGTH: 4,
+  KEY_MASK_SUFFIX_LENGTH: 4,
+  AUTO_REFRESH_INTERVAL_SECONDS: 60, // Set auto-refresh interval to 60 seconds
+  SNAPSHOT_RETENTION_DAYS: 90, // Usage snapshots older than this are pruned
+  HISTORY_DEFAULT_DAYS: 7, // Default /api/keys/:id/history window
+  KEY_STATUSES: ['valid', 'error', 'exhausted'],
+  KEY_LIFECYCLE_STATES: ['active', 'suspect', 'quarantined', 'archived'],
+  LIFECYCLE_SUSPECT_FAILURES: 3, // Consecutive failed refreshes before an active key becomes suspect
+  LIFECYCLE_QUARANTINE_HOURS: 24, // How long a suspect key must stay failing or at zero balance
+  LIFECYCLE_ARCHIVE_DAYS: 7, // Quarantined keys the provider rejects are archived after this long
+  LIFECYCLE_PURGE_DAYS: 30, // Archived keys are hard-deleted after this long
+  LIFECYCLE_QUARANTINE_REFRESH_HOURS: 6, // Quarantined keys are still refreshed this often, so they can recover
+  TRASH_RETENTION_DAYS: 30, // Deleted keys stay restorable this long; override with TRASH_RETENTION_DAYS
+  KEY_HEALTH_STATES: ['healthy', 'exhausted', 'revoked', 'rate_limited', 'upstream_down', 'malformed', 'timeout'],
+  DATA_SORT_FIELDS: ['remaining', 'used', 'allowance', 'usedRatio', 'exhaustsAt', 'label'],
+  DATA_MAX_PAGE_SIZE: 500,
+  FORECAST_LOOKBACK_HOURS: 24, // Burn rate is measured against the oldest snapshot in this window
+  FORECAST_MIN_SPAN_MINUTES: 30, // Shorter spans are too noisy to extrapolate from
+  ALERT_REPEAT_HOURS: 24, // An alert whose condition still holds is re-sent after this long
+  ALERT_RULE_TYPES: ['key_used_ratio', 'pool_remaining', 'key_error'],
+  NOTIFIER_TYPES: ['generic', 'slack', 'feishu', 'dingtalk', 'telegram'],
+  TELEGRAM_API_BASE: 'https://api.telegram.org',
+  // EXPORT_PASSWORD 从 env 对象获取，仅在尚未创建任何用户时用于首次登录
+  PBKDF2_ITERATIONS: 100000, // Workers caps PBKDF2 at 100k iterations
+  MIN_PASSWORD_LENGTH: 8,
+  USER_ROLES: ['viewer', 'operator', 'admin'],
+  BOOTSTRAP_USER_ID: 'bootstrap',
+  TOKEN_SCOPES: ['usage:read', 'keys:write', 'keys:export'],
+  ENCRYPTED_KEY_PREFIX: 'enc:v1:',
+  KEY_METADATA_LIMITS: { label: 100, owner: 100, notes: 1000, tags: 20, tag: 50 },
+  KEY_FORMAT: /^[A-Za-z0-9_.-]{8,512}$/,
+  IMPORT_FORMATS: ['csv', 'json', 'env'],
+  IMPORT_MAX_ENTRIES: 1000,
+  IMPORT_CSV_COLUMNS: ['key', 'label', 'tags', 'owner', 'notes'], // Column order of a CSV without a header row
+  IMPORT_ENV_NAME: /(FACTORY|OPENAI|ANTHROPIC|OPENROUTER|DEEPSEEK)_API_KEY/i, // .env variables whose values are imported; the name also gives the provider
+  EXPORT_FORMATS: ['csv', 'json', 'txt'],
+  EXPORT_COLUMNS: [
+    'key', 'label', 'tags', 'owner', 'notes', // Same order as a headerless import, so exports can be re-imported
+    'id', 'provider', 'unit', 'lifecycle', 'status', 'health', 'used', 'allowance', 'remaining', 'used_ratio', 'start_date', 'end_date', 'error',
+  ],
+  EXPORT_FILTERS: ['tag', 'provider', 'status', 'health', 'lifecycle', 'min_remaining', 'q'], // Same meaning as the /api/data parameters
+  EXPORT_ARCHIVE_ITERATIONS: 100000, // PBKDF2 rounds; pass the same -iter to openssl when decrypting
+  AUDIT_RETENTION_DAYS: 180, // Override with the AUDIT_RETENTION_DAYS variable
+  AUDIT_PAGE_SIZE: 50,
+  AUDIT_MAX_PAGE_SIZE: 200,
+  TOKEN_PREFIX: 'dak_',
+  TOKEN_LAST_USED_GRANULARITY_MS: 60 * 1000, // Avoid a store write on every token request
+  DATA_CACHE_NAME: 'aggregated',
+  REFRESH_INTERVAL_MINUTES: 10, // Every key is refreshed at least this often; override with REFRESH_INTERVAL_MINUTES
+  REFRESH_CHUNK_SIZE: 15, // Keys per invocation: up to 3 requests each stays under the free plan's 50 subrequests
+  CRON_INTERVAL_MINUTES: 1, // Must match [triggers] crons in wrangler.toml, the Deno.cron schedule in main.ts and the timer in server.ts
+  REFRESH_CURSOR_NAME: 'scheduled',
+  REFRESH_RUN_RETENTION_DAYS: 30,
+  REFRESH_RUNS_PAGE_SIZE: 50,
+  REFRESH_LOCK_NAME: 'refresh',
+  REFRESH_LOCK_TTL_MS: 5 * 60 * 1000, // A crashed refresh releases the lock after this long
+  REFRESH_WAIT_MS: 25 * 1000, // How long a request waits for another request's refresh
+  REFRESH_POLL_MS: 1000,
+  SCHEMA_VERSION: 15, // Number of the newest file in migrations/; bump it with every new migration (and add its migrations/postgres/ twin)
+} as const;
+
+// ==================== Database Initialization ====================
+
+let schemaVerified = false;
+
+/**
+ * Compares the applied migrations with CONFIG.SCHEMA_VERSION and returns an error message while
+ * any are missing. A passing check is remembered for the life of the isolate; a failing one is
+ * retried on every call, so applying the migrations takes effect without a redeploy. Stores
+ * without migrations always pass.
+ */
+async function checkSchema(store: KeyStore): Promise<string | null> {
+  if (schemaVerified) return null;
+
+  const found = await store.getSchemaVersion();
+  if (found !== null && found < CONFIG.SCHEMA_VERSION) return `schema version ${CONFIG.SCHEMA_VERSION} required, found ${found}`;
+
+  schemaVerified = true;
+  return null;
+}
+
+// ==================== Key Storage ====================
+// Encryption, hashing and result merging stay here so every KeyStore behaves the same
+
+/**
+ * 解密存储的 Key，并转换为接口使用的结构
+ */
+async function decryptKeys(cipher: KeyCipher, keys: StoredKey[]): Promise<ApiKey[]> {
+  return Promise.all(keys.map(async ({ id, key, label, owner, notes, tags, provider }) => ({
+    id, key: await decryptApiKey(cipher, key), label, owner, notes, tags, provider,
+  })));
+}
+
+/**
+ * 获取所有 API Keys 并解密
+ */
+async function getAllKeys(store: KeyStore, cipher: KeyCipher): Promise<ApiKey[]> {
+  return decryptKeys(cipher, await store.listKeys());
+}
+
+/**
+ * 加密并批量添加 API Key，由存储决定能否全部成功或全部失败；未指定服务商时按 Key 前缀识别
+ */
+async function addKeys(store: KeyStore, cipher: KeyCipher, keys: { id: string; key: string; metadata?: Partial<KeyMetadata> }[]): Promise<void> {
+  if (keys.length === 0) return;
+
+  await store.addKeys(await Promise.all(keys.map(async ({ id, key, metadata }) => ({
+    id,
+    key: await encryptApiKey(cipher, key),
+    keyHash: await hashApiKey(cipher.current, key),
+    label: metadata?.label ?? null,
+    owner: metadata?.owner ?? null,
+    notes: metadata?.notes ?? null,
+    tags: metadata?.tags ?? [],
+    provider: metadata?.provider ?? detectProvider(key),
+  }))));
+}
+
+/**
+ * 获取回收站中的 Key，按删除时间倒序，Key 以掩码形式返回
+ */
+async function getDeletedKeys(store: KeyStore, cipher: KeyCipher): Promise<DeletedKey[]> {
+  const keys = (await store.listKeys('trash')).sort((a, b) => b.deletedAt - a.deletedAt);
+
+  return Promise.all(keys.map(async ({ id, key, label, owner, notes, tags, provider, deletedAt }) => ({
+    id, key: maskApiKey(await decryptApiKey(cipher, key)), label, owner, notes, tags, provider, deletedAt,
+  })));
+}
+
+/**
+ * 获取在回收站中超过保留期的 Key ID
+ */
+async function getExpiredDeletedKeyIds(store: KeyStore, before: number): Promise<string[]> {
+  return (await store.listKeys('trash')).filter(key => key.deletedAt < before).map(key => key.id);
+}
+
+/**
+ * 找出已存在的 API Key，返回其中已存在的明文 Key（通过带密钥哈希比对，无需解密）
+ * 轮换期间同时比对新旧主密钥的哈希，尚未加密的旧数据按明文比对；回收站中的 Key 也算已存在
+ */
+async function findExistingKeys(store: KeyStore, cipher: KeyCipher, keys: string[]): Promise<Set<string>> {
+  if (keys.length === 0) return new Set();
+
+  const keysByHash = new Map<string, string>();
+  for (const kek of getKeyEncryptionKeys(cipher)) {
+    for (const key of keys) keysByHash.set(await hashApiKey(kek, key), key);
+  }
+
+  const found = await store.findKeys([...keysByHash.keys()], keys);
+  const plaintext = new Set(keys);
+  return new Set(found.map(row => keysByHash.get(row.keyHash) ?? (plaintext.has(row.key) ? row.key : null)).filter(Boolean));
+}
+
+/**
+ * 根据 ID 获取并解密 API Key
+ */
+async function getKeyById(store: KeyStore, cipher: KeyCipher, id: string): Promise<string | null> {
+  const [stored] = await store.listKeys('active', [id]);
+  return stored ? await decryptApiKey(cipher, stored.key) : null;
+}
+
+/**
+ * 用当前主密钥重新加密所有明文或旧主密钥加密的 API Key（包括回收站中的 Key）
+ * 返回本次重新加密的条数
+ */
+async function reencryptKeys(store: KeyStore, cipher: KeyCipher): Promise<number> {
+  const stale = (await store.listKeys('all')).filter(row => !isEncryptedWith(cipher.current, row.key));
+  if (stale.length === 0) return 0;
+
+  await store.updateKeySecrets(await Promise.all(stale.map(async row => {
+    const key = await decryptApiKey(cipher, row.key);
+    return { id: row.id, key: await encryptApiKey(cipher, key), keyHash: await hashApiKey(cipher.current, key) };
+  })));
+  return stale.length;
+}
+
+/**
+ * 根据 ID 批量获取并解密 API Key
+ */
+async function getKeysByIds(store: KeyStore, cipher: KeyCipher, ids: string[]): Promise<ApiKey[]> {
+  return decryptKeys(cipher, await store.listKeys('active', ids));
+}
+
+/**
+ * 获取所有 Key 的 ID、元数据与生命周期状态，不解密 Key
+ */
+async function getKeyMetadataList(store: KeyStore): Promise<KeyListEntry[]> {
+  return (await store.listKeys()).map(({ id, label, owner, notes, tags, provider, lifecycle, lifecycleChangedAt }) => ({
+    id, label, owner, notes, tags, provider, lifecycle, lifecycleChangedAt,
+  }));
+}
+
+/**
+ * 获取所有 Key 的 ID、生命周期状态及最近一次刷新时间，按 ID 排序
+ */
+async function getRefreshQueue(store: KeyStore): Promise<RefreshQueueEntry[]> {
+  const [keys, records] = await Promise.all([store.listKeys(), store.getKeyResults()]);
+  const refreshedAt = new Map(records.map(record => [record.keyId, record.refreshedAt]));
+
+  return keys
+    .map(key => ({ id: key.id, lifecycle: key.lifecycle, refreshedAt: refreshedAt.get(key.id) ?? null }))
+    .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+}
+
+/**
+ * 获取所有 Key 最近一次的查询结果，并附上当前的元数据与健康状态，按 Key 创建时间倒序
+ */
+async function getKeyResults(store: KeyStore): Promise<{ result: ApiKeyResult; refreshedAt: number }[]> {
+  const [keys, records] = await Promise.all([store.listKeys(), store.getKeyResults()]);
+  const recordsById = new Map(records.map(record => [record.keyId, record]));
+
+  return keys.filter(key => recordsById.has(key.id)).map(({ id, label, owner, notes, tags, provider, lifecycle, lifecycleChangedAt }) => {
+    const record = recordsById.get(id);
+    return {
+      result: {
+        ...record.result,
+        label, owner, notes, tags, provider, lifecycle, lifecycleChangedAt,
+        health: getKeyHealth(record.result),
+        lastSuccessAt: record.lastSuccessAt,
+        consecutiveFailures: record.consecutiveFailures,
+        errorSince: record.errorSince,
+      },
+      refreshedAt: record.refreshedAt,
+    };
+  });
+}
+
+/**
+ * 批量写入 Key 最近一次的查询结果，并更新最近成功时间、连续失败次数、错误类别与余额为 0 的开始时间
+ * 错误类别不变时保留原来的 error_since，类别变化或恢复正常时重新计时
+ */
+async function saveKeyResults(store: KeyStore, results: ApiKeyResult[], refreshedAt: number): Promise<void> {
+  if (results.length === 0) return;
+
+  const previous = new Map((await store.getKeyResults(results.map(r => r.id))).map(record => [record.keyId, record]));
+  await store.saveKeyResults(results.map(({
+    label, owner, notes, tags, provider, health, lastSuccessAt, consecutiveFailures, errorSince, lifecycle, lifecycleChangedAt, ...result
+  }): KeyResultRecord => {
+    const prev = previous.get(result.id);
+    const errorClass = 'error' in result ? classifyKeyError(result) : null;
+    const exhausted = !errorClass && getKeyHealth(result) === 'exhausted';
+    return {
+      keyId: result.id,
+      result,
+      refreshedAt,
+      lastSuccessAt: errorClass ? prev?.lastSuccessAt ?? null : refreshedAt,
+      consecutiveFailures: errorClass ? (prev?.consecutiveFailures ?? 0) + 1 : 0,
+      errorClass,
+      errorSince: !errorClass ? null : prev?.errorClass === errorClass ? prev.errorSince : refreshedAt,
+      exhaustedSince: exhausted ? prev?.exhaustedSince ?? refreshedAt : null,
+    };
+  }));
+}
+
+/**
+ * 获取推进生命周期所需的信号：当前状态、连续失败次数、最近成功时间与余额为 0 的开始时间
+ */
+async function getKeyLifecycleSignals(store: KeyStore): Promise<KeyLifecycleSignal[]> {
+  const [keys, records] = await Promise.all([store.listKeys(), store.getKeyResults()]);
+  const recordsById = new Map(records.map(record => [record.keyId, record]));
+
+  return keys.map(({ id, lifecycle, lifecycleChangedAt, createdAt }) => {
+    const record = recordsById.get(id);
+    return {
+      id, lifecycle, lifecycleChangedAt, createdAt,
+      consecutiveFailures: record?.consecutiveFailures ?? null,
+      lastSuccessAt: record?.lastSuccessAt ?? null,
+      exhaustedSince: record?.exhaustedSince ?? null,
+      errorClass: record?.errorClass ?? null,
+    };
+  });
+}
+
+/**
+ * 批量写入用量快照
+ */
+async function saveUsageSnapshots(store: KeyStore, results: ApiUsageData[], capturedAt: number): Promise<void> {
+  if (results.length === 0) return;
+
+  await store.saveUsageSnapshots(results.map(r => ({
+    keyId: r.id,
+    capturedAt,
+    startDate: r.startDate,
+    endDate: r.endDate,
+    orgTotalTokensUsed: r.orgTotalTokensUsed,
+    totalAllowance: r.totalAllowance,
+    usedRatio: r.usedRatio,
+  })));
+}
+
+// ==================== Utility Functions ====================
+
+function maskApiKey(key: string): string {
+  if (key.length <= CONFIG.KEY_MASK_PREFIX_LENGTH + CONFIG.KEY_MASK_SUFFIX_LENGTH) {
+    return `${key.substring(0, CONFIG.KEY_MASK_PREFIX_LENGTH)}...`;
+  }
+  return `${key.substring(0, CONFIG.KEY_MASK_PREFIX_LENGTH)}...${key.substring(key.length - CONFIG.KEY_MASK_SUFFIX_LENGTH)}`;
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+function formatDate(timestamp: number | null | undefined): string {
+  if (!timestamp && timestamp !== 0) return 'N/A';
+
+  try {
+    return new Date(timestamp).toISOString().split('T')[0];
+  } catch {
+    return 'Invalid Date';
+  }
+}
+
+function getBeijingTime(timestamp = Date.now()): Date {
+  return new Date(timestamp + CONFIG.TIMEZONE_OFFSET_HOURS * 60 * 60 * 1000);
+}
+
+
+function formatBeijingTime(date: Date, formatStr: string): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  const seconds = String(date.getSeconds()).padStart(2, '0');
+  
+  if (formatStr === "yyyy-MM-dd HH:mm:ss") {
+    return `${year}-${month}-${day} ${hours}:${minutes}:${seconds}`;
+  } else if (formatStr === "HH:mm:ss") {
+    return `${hours}:${minutes}:${seconds}`;
+  }
+  return date.toISOString();
+}
+
+/**
+ * Parses a time query parameter given as epoch milliseconds or a date string.
+ * Returns undefined when absent and NaN when malformed.
+ */
+function parseTimeParam(value: string | null): number | undefined {
+  if (!value) return undefined;
+  return /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+}
+
+function createJsonResponse(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function createErrorResponse(message: string, status = 500): Response {
+  return createJsonResponse({ error: message }, status);
+}
+
+// HTML content is embedded as a template string
+// ==================== Session Management ====================
+
+const SESSION_DURATION = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+let cachedHmacKey: CryptoKey | null = null;
+let cachedHmacSecret: string | null = null;
+
+function toBase64(data: ArrayBuffer | Uint8Array): string {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function toBase64Url(data: ArrayBuffer | Uint8Array): string {
+  return toBase64(data).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function fromBase64Url(base64Url: string): Uint8Array<ArrayBuffer> {
+  return fromBase64(base64Url.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(base64Url.length / 4) * 4, '='));
+}
+
+async function getHmacKey(secret: string): Promise<CryptoKey> {
+  if (cachedHmacKey && cachedHmacSecret === secret) return cachedHmacKey;
+
+  cachedHmacKey = await crypto.subtle.importKey(
+    'raw',
+    textEncoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+  cachedHmacSecret = secret;
+  return cachedHmacKey;
+}
+
+function getSessionSecret(env: Env): string {
+  if (!env.SESSION_SECRET) throw new Error('SESSION_SECRET is not configured');
+  return env.SESSION_SECRET;
+}
+
+async function createSessionToken(session: Session, secret: string): Promise<string> {
+  const now = Date.now();
+  const payload = { ...session, exp: now + SESSION_DURATION, iat: now };
+  const body = toBase64Url(textEncoder.encode(JSON.stringify(payload)));
+  const key = await getHmacKey(secret);
+  const signature = await crypto.subtle.sign('HMAC', key, textEncoder.encode(body));
+  return `${body}.${toBase64Url(signature)}`;
+}
+
+async function verifySessionToken(token: string, secret: string): Promise<Session | null> {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  try {
+    const key = await getHmacKey(secret);
+    const validSignature = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      fromBase64Url(signature),
+      textEncoder.encode(body)
+    );
+    if (!validSignature) return null;
+
+    const payloadStr = textDecoder.decode(fromBase64Url(body));
+    const payload = JSON.parse(payloadStr) as Partial<Session> & { exp?: number };
+    if (!payload?.exp || Date.now() > payload.exp || !payload.uid || !payload.role) return null;
+
+    return { uid: payload.uid, username: payload.username || '', role: payload.role };
+  } catch {
+    return null;
+  }
+}
+
+function getCookie(request: Request, name: string): string | null {
+  const cookies = request.headers.get('Cookie');
+  if (!cookies) return null;
+  const match = cookies.match(new RegExp(`(?:^|; )${name}=([^;]*)`));
+  return match ? match[1] : null;
+}
+
+/**
+ * Resolves the session from the session_token cookie.
+ * The user must still exist with the same role, so deleting or re-roling a user ends their sessions.
+ */
+async function getSession(req: Request, env: Env): Promise<Session | null> {
+  const token = getCookie(req, 'session_token');
+  if (!token) return null;
+
+  const session = await verifySessionToken(token, getSessionSecret(env));
+  if (!session) return null;
+
+  if (session.uid === CONFIG.BOOTSTRAP_USER_ID) {
+    return (await env.store.countUsers()) === 0 ? session : null;
+  }
+  const user = await env.store.getUserById(session.uid);
+  return user && user.role === session.role ? session : null;
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', textEncoder.encode(value));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Resolves the caller from an `Authorization: Bearer` API token, falling back to the session cookie.
+ * Token callers act with their creator's current role, narrowed to the token's scopes.
+ */
+async function authenticate(req: Request, env: Env): Promise<Session | null> {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return await getSession(req, env);
+
+  const [scheme, token] = authorization.split(' ');
+  if (scheme !== 'Bearer' || !token?.startsWith(CONFIG.TOKEN_PREFIX)) return null;
+
+  const apiToken = await env.store.getApiTokenByHash(await sha256Hex(token));
+  const now = Date.now();
+  if (!apiToken || (apiToken.expiresAt !== null && now > apiToken.expiresAt)) return null;
+
+  if (!apiToken.lastUsedAt || now - apiToken.lastUsedAt > CONFIG.TOKEN_LAST_USED_GRANULARITY_MS) {
+    await env.store.touchApiToken(apiToken.id, now);
+  }
+  return { uid: apiToken.userId, username: apiToken.username || '', role: apiToken.role, scopes: apiToken.scopes, tokenId: apiToken.id };
+}
+
+const ROLE_LEVELS: Record<UserRole, number> = { viewer: 1, operator: 2, admin: 3 };
+
+/**
+ * Returns a 403 response when the caller's role is below the required one, or when an API token
+ * caller lacks the route's scope (routes without a scope are session-only). Null when allowed.
+ */
+function requireAccess(session: Session, role: UserRole, scope?: TokenScope): Response | null {
+  if (session.scopes && (!scope || !session.scopes.includes(scope))) {
+    return createErrorResponse("API Token 无权访问该接口", 403);
+  }
+  return ROLE_LEVELS[session.role] >= ROLE_LEVELS[role] ? null : createErrorResponse("权限不足", 403);
+}
+
+// ==================== Password Hashing ====================
+
+async function derivePasswordHash(password: string, salt: BufferSource, iterations: number): Promise<Uint8Array> {
+  const baseKey = await crypto.subtle.importKey('raw', textEncoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, baseKey, 256);
+  return new Uint8Array(bits);
+}
+
+/**
+ * Hashes a password with a fresh random salt using PBKDF2-SHA256.
+ */
+async function hashPassword(password: string): Promise<Pick<UserRecord, 'password_hash' | 'salt' | 'iterations'>> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derivePasswordHash(password, salt, CONFIG.PBKDF2_ITERATIONS);
+  return { password_hash: toBase64(hash), salt: toBase64(salt), iterations: CONFIG.PBKDF2_ITERATIONS };
+}
+
+function bytesEqual(actual: Uint8Array, expected: Uint8Array): boolean {
+  if (actual.length !== expected.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < actual.length; i++) diff |= actual[i] ^ expected[i];
+  return diff === 0;
+}
+
+/**
+ * Compares a submitted secret with the configured one in constant time. Both are hashed first, so
+ * neither the length nor the position of the first difference shows in the timing.
+ */
+async function secretsEqual(actual: unknown, expected: string): Promise<boolean> {
+  const [a, b] = await Promise.all([String(actual ?? ''), expected].map(value => crypto.subtle.digest('SHA-256', textEncoder.encode(value))));
+  return typeof actual === 'string' && bytesEqual(new Uint8Array(a), new Uint8Array(b));
+}
+
+/**
+ * Verifies a password against a stored PBKDF2 hash in constant time.
+ */
+async function verifyPassword(password: string, user: UserRecord): Promise<boolean> {
+  const expected = fromBase64(user.password_hash);
+  const actual = await derivePasswordHash(password, fromBase64(user.salt), user.iterations);
+  return bytesEqual(actual, expected);
+}
+
+// The bootstrap admin only exists while EXPORT_PASSWORD is configured; an unset one must never match
+const hasBootstrapPassword = (env: Env): boolean => typeof env.EXPORT_PASSWORD === 'string' && env.EXPORT_PASSWORD.length > 0;
+
+/**
+ * Checks a password against the session's own account (EXPORT_PASSWORD for the bootstrap admin).
+ */
+async function verifySessionPassword(session: Session, password: string, env: Env): Promise<boolean> {
+  if (session.uid === CONFIG.BOOTSTRAP_USER_ID) return hasBootstrapPassword(env) && await secretsEqual(password, env.EXPORT_PASSWORD);
+  const user = await env.store.getUserById(session.uid);
+  return !!user && await verifyPassword(password, user);
+}
+
+// ==================== API Key Encryption ====================
+
+/**
+ * A master key (KEK). Each stored API key is encrypted with its own random data key,
+ * which is wrapped with the KEK; rotating the master key only re-wraps data keys.
+ */
+interface KeyEncryptionKey {
+  id: string; // SHA-256 fingerprint prefix, stored alongside each ciphertext
+  aesKey: CryptoKey;
+  hmacKey: CryptoKey; // Keyed hash for duplicate detection without decrypting
+}
+
+interface KeyCipher {
+  current: KeyEncryptionKey;
+  previous: KeyEncryptionKey | null;
+}
+
+let cachedKeyCipher: KeyCipher | null = null;
+let cachedKeyCipherSecrets: string | null = null;
+
+async function importKeyEncryptionKey(secret: string): Promise<KeyEncryptionKey> {
+  const raw = fromBase64(secret.trim());
+  if (raw.length !== 32) throw new Error('Key encryption master key must be 32 bytes (base64)');
+
+  const fingerprint = new Uint8Array(await crypto.subtle.digest('SHA-256', raw));
+  const baseKey = await crypto.subtle.importKey('raw', raw, 'HKDF', false, ['deriveKey']);
+  const derive = (info: string, algorithm: AesKeyGenParams | HmacImportParams, usages: KeyUsage[]) => crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: textEncoder.encode(info) },
+    baseKey,
+    algorithm,
+    false,
+    usages
+  );
+
+  return {
+    id: [...fingerprint.slice(0, 4)].map(b => b.toString(16).padStart(2, '0')).join(''),
+    aesKey: await derive('droid-apikey/key-wrap', { name: 'AES-GCM', length: 256 }, ['encrypt', 'decrypt']),
+    hmacKey: await derive('droid-apikey/key-hash', { name: 'HMAC', hash: 'SHA-256', length: 256 }, ['sign']),
+  };
+}
+
+async function getKeyCipher(env: Env): Promise<KeyCipher> {
+  if (!env.KEY_ENCRYPTION_KEY) throw new Error('KEY_ENCRYPTION_KEY is not configured');
+
+  const secrets = `${env.KEY_ENCRYPTION_KEY}|${env.KEY_ENCRYPTION_KEY_PREVIOUS || ''}`;
+  if (cachedKeyCipher && cachedKeyCipherSecrets === secrets) return cachedKeyCipher;
+
+  cachedKeyCipher = {
+    current: await importKeyEncryptionKey(env.KEY_ENCRYPTION_KEY),
+    previous: env.KEY_ENCRYPTION_KEY_PREVIOUS ? await importKeyEncryptionKey(env.KEY_ENCRYPTION_KEY_PREVIOUS) : null,
+  };
+  cachedKeyCipherSecrets = secrets;
+  return cachedKeyCipher;
+}
+
+function getKeyEncryptionKeys(cipher: KeyCipher): KeyEncryptionKey[] {
+  return cipher.previous ? [cipher.current, cipher.previous] : [cipher.current];
+}
+
+async function aesGcmEncrypt(key: CryptoKey, data: BufferSource): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data));
+  const payload = new Uint8Array(iv.length + ciphertext.length);
+  payload.set(iv);
+  payload.set(ciphertext, iv.length);
+  return toBase64Url(payload);
+}
+
+async function aesGcmDecrypt(key: CryptoKey, encoded: string): Promise<ArrayBuffer> {
+  const payload = fromBase64Url(encoded);
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: payload.slice(0, 12) }, key, payload.slice(12));
+}
+
+/**
+ * Encrypts an API key as `enc:v1:<kek id>:<wrapped data key>:<ciphertext>`.
+ */
+async function encryptApiKey(cipher: KeyCipher, key: string): Promise<string> {
+  const dataKeyBytes = crypto.getRandomValues(new Uint8Array(32));
+  const dataKey = await crypto.subtle.importKey('raw', dataKeyBytes, 'AES-GCM', false, ['encrypt']);
+  const wrappedDataKey = await aesGcmEncrypt(cipher.current.aesKey, dataKeyBytes);
+  const ciphertext = await aesGcmEncrypt(dataKey, textEncoder.encode(key));
+  return `${CONFIG.ENCRYPTED_KEY_PREFIX}${cipher.current.id}:${wrappedDataKey}:${ciphertext}`;
+}
+
+/**
+ * Decrypts a stored API key. Rows written before encryption was enabled are returned as-is
+ * until `reencryptKeys` migrates them.
+ */
+async function decryptApiKey(cipher: KeyCipher, stored: string): Promise<string> {
+  if (!stored.startsWith(CONFIG.ENCRYPTED_KEY_PREFIX)) return stored;
+
+  const [kekId, wrappedDataKey, ciphertext] = stored.slice(CONFIG.ENCRYPTED_KEY_PREFIX.length).split(':');
+  const kek = getKeyEncryptionKeys(cipher).find(k => k.id === kekId);
+  if (!kek) throw new Error(`No master key available for encrypted API key (kek ${kekId})`);
+
+  const dataKeyBytes = await aesGcmDecrypt(kek.aesKey, wrappedDataKey);
+  const dataKey = await crypto.subtle.importKey('raw', dataKeyBytes, 'AES-GCM', false, ['decrypt']);
+  return textDecoder.decode(await aesGcmDecrypt(dataKey, ciphertext));
+}
+
+function isEncryptedWith(kek: KeyEncryptionKey, stored: string): boolean {
+  return stored.startsWith(`${CONFIG.ENCRYPTED_KEY_PREFIX}${kek.id}:`);
+}
+
+async function hashApiKey(kek: KeyEncryptionKey, key: string): Promise<string> {
+  return toBase64Url(await crypto.subtle.sign('HMAC', kek.hmacKey, textEncoder.encode(key)));
+}
+
+/**
+ * Encrypts an export file with a password in OpenSSL's `enc` format, so it can be decrypted without
+ * this app: `openssl enc -d -aes-256-cbc -pbkdf2 -iter 100000 -in <file> -out <plain file>`.
+ * Layout: "Salted__", an 8-byte salt, then AES-256-CBC ciphertext; key and IV come from
+ * PBKDF2-SHA256 over the password and salt.
+ */
+async function encryptExportArchive(data: BufferSource, password: string): Promise<ArrayBuffer> {
+  const salt = crypto.getRandomValues(new Uint8Array(8));
+  const baseKey = await crypto.subtle.importKey('raw', textEncoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = new Uint8Array(await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: CONFIG.EXPORT_ARCHIVE_ITERATIONS }, baseKey, 384
+  ));
+  const key = await crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-CBC', false, ['encrypt']);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-CBC', iv: bits.slice(32, 48) }, key, data));
+
+  const archive = new Uint8Array(16 + ciphertext.length);
+  archive.set(textEncoder.encode('Salted__'));
+  archive.set(salt, 8);
+  archive.set(ciphertext, 16);
+  return archive.buffer;
+}
+
+// ==================== Login Page HTML ====================
+
+const LOGIN_HTML = `
+<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>登录 - API 余额监控看板</title>
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Microsoft YaHei', sans-serif; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); min-height: 100vh; display: flex; align-items: center; justify-content: center; }
+        .login-container { background: white; border-radius: 16px; box-shadow: 0 20px 60px rgba(0, 0, 0, 0.3); padding: 40px; width: 90%; max-width: 400px; }
+        .login-header { text-align: center; margin-bottom: 30px; }
+        .login-header h1 { font-size: 28px; color: #667eea; margin-bottom: 10px; }
+        .login-header p { color: #6c757d; font-size: 14px; }
+        .form-group { margin-bottom: 20px; }
+        .form-group label { display: block; margin-bottom: 8px; font-weight: 600; color: #333; font-size: 14px; }
+        .form-group input { width: 100%; padding: 12px; border: 1px solid #ddd; border-radius: 8px; font-size: 14px; transition: border-color 0.3s; }
+        .form-group input:focus { outline: none; border-color: #667eea; }
+        .login-btn { width: 100%; padding: 12px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; border: none; border-radius: 8px; font-size: 16px; font-weight: 600; cursor: pointer; transition: transform 0.3s, box-shadow 0.3s; }
+        .login-btn:hover { transform: translateY(-2px); box-shadow: 0 4px 12px rgba(102, 126, 234, 0.4); }
+        .login-btn:active { transform: translateY(0); }
+        .error-msg { background: #f8d7da; color: #721c24; padding: 12px; border-radius: 8px; margin-bottom: 15px; border: 1px solid #f5c6cb; font-size: 14px; display: none; }
+    </style>
+</head>
+<body>
+    <div class="login-container">
+        <div class="login-header">
+            <h1>🔐 登录</h1>
+            <p>API 余额监控看板</p>
+        </div>
+        <div id="errorMsg" class="error-msg"></div>
+        <form id="loginForm">
+            <div class="form-group">
+                <label>账号</label>
+                <input type="text" id="username" name="username" required autocomplete="username">
+            </div>
+            <div class="form-group">
+                <label>密码</label>
+                <input type="password" id="password" name="password" required autocomplete="current-password">
+            </div>
+            <button type="submit" class="login-btn">登录</button>
+        </form>
+        <div style="margin-top: 14px; text-align: center; font-size: 14px; color: #6c757d;">
+            <a href="/public" style="color: #667eea; text-decoration: none;">无需登录？前往公共查询</a>
+        </div>
+    </div>
+    <script>
+        document.getElementById('loginForm').addEventListener('submit', async (e) => {
+            e.preventDefault();
+            const username = document.getElementById('username').value;
+            const password = document.getElementById('password').value;
+            const errorMsg = document.getElementById('errorMsg');
+            
+            try {
+                const response = await fetch('/api/login', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ username, password })
+                });
+                
+                const result = await response.json();
+                
+                if (response.ok) {
+                    window.location.href = '/';
+                } else {
+                    errorMsg.textContent = result.error || '登录失败';
+                    errorMsg.style.display = 'block';
+                }
+            } catch (error) {
+                errorMsg.textContent = '网络错误，请重试';
+                errorMsg.style.display = 'block';
+            }
+        });
+    </script>
+</body>
+</html>
+`;  
+
+// ==================== Public Query Page HTML ====================
+
+const PUBLIC_HTML = `
+<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>公共 API Key 查询</title>
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Microsoft YaHei', sans-serif; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); min-height: 100vh; padding: 20px; }
+        .container { max-width: 1400px; margin: 0 auto; background: white; border-radius: 16px; box-shadow: 0 20px 60px rgba(0, 0, 0, 0.3); overflow: hidden; }
+        .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; display: flex; align-items: center; justify-content: space-between; gap: 16px; flex-wrap: wrap; }
+        .header h1 { font-size: 32px; margin-bottom: 6px; }
+        .header .update-time { font-size: 14px; opacity: 0.9; }
+        .link-btn { color: white; text-decoration: none; font-weight: 600; border: 2px solid rgba(255,255,255,0.6); padding: 10px 16px; border-radius: 10px; transition: all 0.25s ease; background: rgba(255,255,255,0.15); }
+        .link-btn:hover { background: rgba(255,255,255,0.25); transform: translateY(-1px); }
+        .content { padding: 20px 30px 30px 30px; background: #f8f9fa; }
+        .card { background: white; border-radius: 14px; padding: 18px 20px; box-shadow: 0 2px 10px rgba(0,0,0,0.08); border: 1px solid #e9ecef; margin-bottom: 18px; }
+        .card-title { font-size: 18px; font-weight: 700; color: #333; margin-bottom: 12px; display: flex; align-items: center; gap: 10px; }
+        .badge { display: inline-block; padding: 6px 10px; border-radius: 999px; font-size: 12px; background: #f1f3f5; color: #495057; }
+        .form-row { display: flex; gap: 12px; flex-wrap: wrap; align-items: flex-end; }
+        .form-group { flex: 1; min-width: 320px; }
+        .form-group label { display: block; margin-bottom: 8px; font-weight: 600; color: #333; }
+        .form-group input { width: 100%; padding: 12px; border: 1px solid #ddd; border-radius: 10px; font-size: 14px; }
+        .btn-group { display: flex; gap: 10px; flex-wrap: wrap; }
+        .btn { padding: 12px 20px; border: none; border-radius: 10px; font-size: 14px; cursor: pointer; font-weight: 600; transition: all 0.2s ease; }
+        .btn-primary { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; }
+        .btn-primary:hover { transform: translateY(-2px); box-shadow: 0 8px 18px rgba(102, 126, 234, 0.35); }
+        .btn-secondary { background: #f1f3f5; color: #495057; border: 1px solid #e9ecef; }
+        .btn-secondary:hover { background: #e9ecef; }
+        .status { margin-top: 12px; font-size: 14px; color: #6c757d; }
+        .status.error { color: #d32f2f; }
+        .stats-cards { display: grid; grid-template-columns: repeat(auto-fit, minmax(220px, 1fr)); gap: 16px; background: #f8f9fa; }
+        .stat-card { background: white; border-radius: 12px; padding: 18px; text-align: center; box-shadow: 0 2px 8px rgba(0, 0, 0, 0.08); }
+        .stat-card .label { font-size: 13px; color: #6c757d; margin-bottom: 6px; font-weight: 500; }
+        .stat-card .value { font-size: 22px; font-weight: bold; color: #667eea; }
+        .table-container { margin-top: 14px; overflow-x: auto; }
+        table { width: 100%; border-collapse: collapse; background: white; border-radius: 10px; overflow: hidden; }
+        thead { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; }
+        th { padding: 14px; text-align: left; font-weight: 600; font-size: 14px; white-space: nowrap; }
+        th.number { text-align: right; }
+        td { padding: 12px 14px; border-bottom: 1px solid #e9ecef; font-size: 14px; }
+        td.number { text-align: right; font-weight: 500; }
+        tbody tr:hover { background-color: #f8f9fa; }
+        tbody tr:last-child td { border-bottom: none; }
+        td.error-row { color: #dc3545; }
+        .ops-btn { padding: 8px 14px; border: none; border-radius: 8px; color: white; cursor: pointer; font-weight: 600; }
+        .ops-btn.refresh { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); }
+        .ops-btn.delete { background: linear-gradient(135deg, #dc3545 0%, #c82333 100%); margin-left: 6px; }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <div>
+                <h1>公共 API Key 查询</h1>
+                <div class="update-time" id="updateTime">无需登录，Key 仅保存在当前浏览器的 localStorage，不会写入服务器</div>
+            </div>
+            <a class="link-btn" href="/">返回私有仪表盘</a>
+        </div>
+
+        <div class="content">
+            <div class="card">
+                <div class="card-title">
+                    公共 Key 查询
+                    <span class="badge">不入库 · 不登录</span>
+                </div>
+                <div class="form-row">
+                    <div class="form-group">
+                        <label for="publicKeyInput">公共 API Key</label>
+                        <input id="publicKeyInput" type="text" placeholder="fk-xxxxxxxx" autocomplete="off" />
+                    </div>
+                    <div class="btn-group">
+                        <button class="btn btn-primary" onclick="queryPublicUsage()">查询用量</button>
+                        <button class="btn btn-secondary" onclick="clearSavedKey()">清除保存</button>
+                    </div>
+                </div>
+                <div class="status" id="statusText">请输入公共 Key 并点击查询</div>
+            </div>
+
+            <div class="stats-cards" id="statsCards"></div>
+
+            <div class="table-container">
+                <table>
+                    <thead>
+                        <tr>
+                            <th>API Key</th>
+                            <th>开始时间</th>
+                            <th>结束时间</th>
+                            <th class="number">总计额度</th>
+                            <th class="number">已使用</th>
+                            <th class="number">剩余额度</th>
+                            <th class="number">使用百分比</th>
+                            <th style="text-align:center;">操作</th>
+                        </tr>
+                    </thead>
+                    <tbody id="tableBody">
+                        <tr><td colspan="8" style="text-align:center; padding: 20px;">暂无数据，请查询</td></tr>
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    </div>
+
+    <script>
+        const publicKeyInput = document.getElementById('publicKeyInput');
+        const statusText = document.getElementById('statusText');
+        const tableBody = document.getElementById('tableBody');
+        const statsCards = document.getElementById('statsCards');
+        const updateTime = document.getElementById('updateTime');
+
+        const STORAGE_KEY = 'public_api_keys';
+
+        const formatNumber = (num) => num ? new Intl.NumberFormat('en-US').format(num) : '0';
+        // Keys without a limit have no used ratio (null), which is not the same as 0%
+        const formatPercentage = (ratio) => ratio === null || ratio === undefined ? '-' : ((ratio || 0) * 100).toFixed(2) + '%';
+        const UNIT_SYMBOLS = { USD: '$', CNY: '¥' };
+        // Factory reports tokens, the other providers money; null is a limit the provider does not report
+        const formatAmount = (value, unit) => {
+            if (value === null || value === undefined) return '-';
+            const symbol = UNIT_SYMBOLS[unit];
+            return symbol ? symbol + new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value) : formatNumber(value);
+        };
+        const getRemaining = (item) => item.totalAllowance === null ? null : Math.max(0, (item.totalAllowance || 0) - (item.orgTotalTokensUsed || 0));
+        const PROVIDER_LABELS = { factory: 'Factory', openai: 'OpenAI', anthropic: 'Anthropic', openrouter: 'OpenRouter', deepseek: 'DeepSeek' };
+        const maskDisplay = (key) => {
+            if (!key) return 'N/A';
+            return key.length > 10 ? \`\${key.slice(0, 4)}...\${key.slice(-4)}\` : key;
+        };
+
+        function getStoredList() {
+            try {
+                const raw = localStorage.getItem(STORAGE_KEY);
+                return raw ? JSON.parse(raw) : [];
+            } catch {
+                return [];
+            }
+        }
+
+        function saveList(list) {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+        }
+
+        function setStatus(message, isError = false) {
+            statusText.textContent = message;
+            statusText.className = 'status' + (isError ? ' error' : '');
+        }
+
+        function clearSavedKey() {
+            saveList([]);
+            localStorage.removeItem('public_api_key');
+            publicKeyInput.value = '';
+            tableBody.innerHTML = '<tr><td colspan="8" style="text-align:center; padding: 20px;">已清除本地保存的 Key 列表</td></tr>';
+            statsCards.innerHTML = '';
+            setStatus('已清除本地保存的 Key 列表');
+        }
+
+        function renderStats(latestItem) {
+            if (!latestItem || latestItem.error) {
+                statsCards.innerHTML = '';
+                return;
+            }
+            const unit = latestItem.unit;
+            statsCards.innerHTML = \`
+                <div class="stat-card"><div class="label">总计额度 (Total Allowance)</div><div class="value">\${formatAmount(latestItem.totalAllowance, unit)}</div></div>
+                <div class="stat-card"><div class="label">已使用 (Total Used)</div><div class="value">\${formatAmount(latestItem.orgTotalTokensUsed || 0, unit)}</div></div>
+                <div class="stat-card"><div class="label">剩余额度 (Remaining)</div><div class="value">\${formatAmount(getRemaining(latestItem), unit)}</div></div>
+                <div class="stat-card"><div class="label">使用百分比 (Usage %)</div><div class="value">\${formatPercentage(latestItem.usedRatio)}</div></div>
+            \`;
+        }
+
+        function renderTable(list) {
+            if (!list.length) {
+                tableBody.innerHTML = '<tr><td colspan="8" style="text-align:center; padding: 20px;">暂无数据，请查询</td></tr>';
+                return;
+            }
+
+            tableBody.innerHTML = list.map((item, index) => {
+                const displayKey = maskDisplay(item.key || item.originalKey);
+
+                if (item.loading) {
+                    return \`
+                        <tr>
+                            <td title="\${item.originalKey || ''}"><span>\${displayKey}</span></td>
+                            <td colspan="6" style="text-align:center;">加载中...</td>
+                            <td style="text-align:center;">
+                                <button class="ops-btn delete" onclick="deleteRow(\${index})">删除</button>
+                            </td>
+                        </tr>
+                    \`;
+                }
+
+                if (item.error) {
+                    return \`
+                        <tr>
+                            <td title="\${item.originalKey || ''}"><span>\${displayKey}</span></td>
+                            <td colspan="5" class="error-row">查询失败：\${item.error}</td>
+                            <td class="number">-</td>
+                            <td style="text-align:center;">
+                                <button class="ops-btn refresh" onclick="refreshRow(\${index})">刷新</button>
+                                <button class="ops-btn delete" onclick="deleteRow(\${index})">删除</button>
+                            </td>
+                        </tr>
+                    \`;
+                }
+
+                return \`
+                    <tr>
+                        <td title="\${item.originalKey || ''}"><span>\${displayKey}</span> <small>\${PROVIDER_LABELS[item.provider] || ''}</small></td>
+                        <td>\${item.startDate || 'N/A'}</td>
+                        <td>\${item.endDate || 'N/A'}</td>
+                        <td class="number">\${formatAmount(item.totalAllowance, item.unit)}</td>
+                        <td class="number">\${formatAmount(item.orgTotalTokensUsed || 0, item.unit)}</td>
+                        <td class="number">\${formatAmount(getRemaining(item), item.unit)}</td>
+                        <td class="number">\${formatPercentage(item.usedRatio)}</td>
+                        <td style="text-align:center;">
+                            <button class="ops-btn refresh" onclick="refreshRow(\${index})">刷新</button>
+                            <button class="ops-btn delete" onclick="deleteRow(\${index})">删除</button>
+                        </td>
+                    </tr>
+                \`;
+            }).join('');
+        }
+
+        async function refreshRow(index) {
+            const list = getStoredList();
+            if (!list[index]) return;
+            const key = list[index].originalKey || list[index].key;
+            if (!key) return;
+            setStatus('刷新中...', false);
+            await queryPublicUsage(false, key, index);
+        }
+
+        function deleteRow(index) {
+            const list = getStoredList();
+            list.splice(index, 1);
+            saveList(list);
+            renderTable(list);
+            renderStats(list[list.length - 1]);
+            setStatus('已删除该条记录');
+        }
+
+        async function queryPublicUsage(isAuto = false, customKey = '', replaceIndex = -1) {
+            const keyToUse = (customKey || publicKeyInput.value || '').trim();
+            if (!keyToUse) {
+                setStatus('请输入公共 API Key', true);
+                return;
+            }
+
+            setStatus(isAuto ? '自动查询中，请稍候...' : '查询中，请稍候...');
+            let list = getStoredList();
+            const targetIndex = replaceIndex >= 0
+                ? replaceIndex
+                : list.findIndex(item => (item.originalKey || item.key) === keyToUse) >= 0
+                    ? list.findIndex(item => (item.originalKey || item.key) === keyToUse)
+                    : list.length;
+
+            list[targetIndex] = { key: keyToUse, loading: true, originalKey: keyToUse };
+            saveList(list);
+            renderTable(list);
+
+            try {
+                const response = await fetch('/api/public/usage', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ key: keyToUse })
+                });
+
+                const result = await response.json();
+
+                if (!response.ok || result.error) {
+                    throw new Error(result.error || '查询失败');
+                }
+
+                const data = result.data;
+                const entry = {
+                    ...data,
+                    originalKey: keyToUse,
+                    queriedAt: new Date().toISOString()
+                };
+                list = getStoredList();
+                list[targetIndex] = entry;
+                saveList(list);
+                renderTable(list);
+                renderStats(list[list.length - 1]);
+                if (data && data.error) {
+                    setStatus('查询失败：' + data.error, true);
+                } else {
+                    setStatus(isAuto ? '自动查询完成' : '查询成功');
+                }
+                updateTime.textContent = '最后更新: ' + (new Date().toISOString().replace('T', ' ').split('.')[0]) + ' | 公共查询';
+            } catch (error) {
+                setStatus('查询失败：' + (error instanceof Error ? error.message : String(error)), true);
+                list = getStoredList();
+                list[targetIndex] = { key: maskDisplay(keyToUse), error: error instanceof Error ? error.message : String(error), originalKey: keyToUse };
+                saveList(list);
+                renderTable(list);
+                renderStats(list[list.length - 1]);
+            }
+        }
+
+        (function init() {
+            const list = getStoredList();
+            renderTable(list);
+            if (list.length) {
+                renderStats(list[list.length - 1]);
+                refreshRow(list.length - 1);
+            }
+        })();
+    </script>
+</body>
+</html>
+`;
+
+const HTML_CONTENT = `
+<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+    <meta http-equiv="Content-Type" content="text/html; charset=UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>API 余额监控看板</title>  
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Microsoft YaHei', sans-serif; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); min-height: 100vh; padding: 20px; }
+        .container { max-width: 1400px; margin: 0 auto; background: white; border-radius: 16px; box-shadow: 0 20px 60px rgba(0, 0, 0, 0.3); overflow: hidden; }
+        .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; position: relative; }
+        .header h1 { font-size: 32px; margin-bottom: 10px; }
+        .header .update-time { font-size: 14px; opacity: 0.9; }
+        .manage-btn { position: absolute; top: 30px; right: 30px; background: rgba(255, 255, 255, 0.2); color: white; border: 2px solid white; border-radius: 8px; padding: 10px 20px; font-size: 14px; cursor: pointer; transition: all 0.3s ease; }
+        .manage-btn:hover { background: rgba(255, 255, 255, 0.3); transform: scale(1.05); }
+        .stats-cards { display: grid; grid-template-columns: repeat(auto-fit, minmax(220px, 1fr)); gap: 20px; padding: 30px; background: #f8f9fa; }
+        .filter-bar { display: flex; flex-wrap: wrap; gap: 10px; padding: 20px 30px 0; align-items: center; }
+        .filter-bar input, .filter-bar select { padding: 8px 10px; border: 1px solid #ddd; border-radius: 6px; font-size: 14px; }
+        .filter-bar input { width: 180px; }
+        .pager { display: flex; justify-content: flex-end; align-items: center; gap: 10px; padding: 0 30px 20px; font-size: 14px; color: #6c757d; }
+        .stat-card { background: white; border-radius: 12px; padding: 20px; text-align: center; box-shadow: 0 2px 8px rgba(0, 0, 0, 0.1); transition: transform 0.3s ease, box-shadow 0.3s ease; }
+        .stat-card:hover { transform: translateY(-5px); box-shadow: 0 4px 16px rgba(0, 0, 0, 0.15); }
+        .stat-card .label { font-size: 13px; color: #6c757d; margin-bottom: 8px; font-weight: 500; }
+        .stat-card .value { font-size: 24px; font-weight: bold; color: #667eea; }
+        .table-container { padding: 0 30px 30px 30px; overflow-x: auto; }
+        table { width: 100%; border-collapse: collapse; background: white; border-radius: 8px; overflow: hidden; }
+        thead { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; }
+        th { padding: 15px; text-align: left; font-weight: 600; font-size: 14px; white-space: nowrap; }
+        th.number { text-align: right; }
+        td { padding: 12px 15px; border-bottom: 1px solid #e9ecef; font-size: 14px; }
+        td.number { text-align: right; font-weight: 500; }
+        td.error-row { color: #dc3545; }
+        tbody tr:hover { background-color: #f8f9fa; }
+        tbody tr:last-child td { border-bottom: none; }
+        tfoot { background: #f8f9fa; font-weight: bold; }
+        tfoot td { padding: 15px; border-top: 2px solid #667eea; border-bottom: none; }
+        .key-cell { color: #495057; max-width: 200px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+        .meta-cell { min-width: 160px; max-width: 260px; }
+        .meta-wrap { display: flex; align-items: flex-start; }
+        .key-meta { flex: 1; overflow: hidden; }
+        .key-meta-label { font-weight: 600; color: #333; }
+        .key-meta-owner { font-size: 12px; color: #6c757d; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+        .health-badge { display: inline-block; border-radius: 10px; padding: 1px 8px; font-size: 12px; margin-left: 6px; white-space: nowrap; background: #f1f3f5; color: #495057; }
+        .health-badge.health-healthy { background: #d4edda; color: #155724; }
+        .health-badge.health-exhausted { background: #e2e3e5; color: #383d41; }
+        .health-badge.provider-badge { background: #e7f1ff; color: #0b5ed7; margin-left: 0; margin-right: 6px; }
+        .health-badge.health-revoked { background: #f8d7da; color: #721c24; }
+        .health-badge.health-rate_limited, .health-badge.health-timeout { background: #fff3cd; color: #856404; }
+        .health-badge.health-upstream_down, .health-badge.health-malformed { background: #ffe5d0; color: #8a3c00; }
+        .health-badge.lifecycle-suspect { background: #fff3cd; color: #856404; border: 1px dashed #d4a106; }
+        .health-badge.lifecycle-quarantined, .health-badge.lifecycle-archived { background: #343a40; color: #fff; }
+        .health-detail { font-size: 12px; color: #6c757d; margin-left: 6px; }
+        .tier-ratio { font-size: 12px; color: #6c757d; }
+        .tag-chip { display: inline-block; background: #eef0fb; color: #667eea; border-radius: 10px; padding: 1px 8px; font-size: 12px; margin: 2px 4px 0 0; }
+        .meta-edit { display: flex; flex-direction: column; gap: 4px; width: 100%; }
+        .meta-edit input, .meta-edit textarea, .meta-edit select { padding: 4px 6px; border: 1px solid #ddd; border-radius: 4px; font-size: 12px; min-height: 0; }
+        .fab-container { position: fixed; bottom: 24px; right: 24px; display: flex; flex-direction: column; align-items: flex-end; gap: 12px; z-index: 900; }
+        .fab-toggle { width: 56px; height: 56px; border-radius: 50%; border: none; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #fff; font-size: 22px; font-weight: 700; cursor: pointer; box-shadow: 0 6px 18px rgba(102, 126, 234, 0.35); display: flex; align-items: center; justify-content: center; transition: transform 0.25s ease, box-shadow 0.25s ease; }
+        .fab-toggle:hover { transform: translateY(-2px); box-shadow: 0 10px 26px rgba(102, 126, 234, 0.45); }
+        .fab-actions { display: flex; flex-direction: column; align-items: flex-end; gap: 12px; max-height: 0; opacity: 0; pointer-events: none; transform: translateY(8px); transition: all 0.25s ease; }
+        .fab-container.open .fab-actions { max-height: 500px; opacity: 1; pointer-events: auto; transform: translateY(0); }
+        .action-btn { width: 190px; display: flex; align-items: center; justify-content: center; gap: 8px; border: none; border-radius: 999px; padding: 14px 18px; font-size: 14px; cursor: pointer; color: white; box-shadow: 0 4px 15px rgba(0, 0, 0, 0.18); transition: all 0.3s ease; }
+        .action-btn:hover { transform: translateY(-2px); box-shadow: 0 8px 22px rgba(0, 0, 0, 0.24); }
+        .action-btn:active { transform: translateY(0); }
+        .export-keys-btn { background: linear-gradient(135deg, #28a745 0%, #20c997 100%); }
+        .export-keys-btn:disabled { opacity: 0.6; cursor: not-allowed; }
+        .delete-all-btn { background: linear-gradient(135deg, #ff6b6b 0%, #ee5a6f 100%); }
+        .delete-all-btn:disabled { opacity: 0.6; cursor: not-allowed; }
+        .delete-zero-btn { background: linear-gradient(135deg, #dc3545 0%, #c82333 100%); }
+        .delete-zero-btn:disabled { opacity: 0.6; cursor: not-allowed; }
+        .refresh-btn { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); }
+        .refresh-btn .spinner { width: 18px; height: 18px; }
+        .loading { text-align: center; padding: 40px; color: #6c757d; }
+        .error { text-align: center; padding: 40px; color: #dc3545; }
+        @keyframes spin { 0% { transform: rotate(0deg); } 100% { transform: rotate(360deg); } }
+        .spinner { display: inline-block; width: 20px; height: 20px; border: 3px solid rgba(255, 255, 255, 0.3); border-radius: 50%; border-top-color: white; animation: spin 1s linear infinite; }
+
+        /* Modal styles */
+        .modal { display: none; position: fixed; top: 0; left: 0; width: 100%; height: 100%; background: rgba(0, 0, 0, 0.5); z-index: 1000; align-items: center; justify-content: center; }
+        .modal.show { display: flex; }
+        .modal-content { background: white; border-radius: 16px; width: 90%; max-width: 800px; max-height: 90vh; overflow: auto; box-shadow: 0 20px 60px rgba(0, 0, 0, 0.3); }
+        .modal-header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 20px 30px; display: flex; justify-content: space-between; align-items: center; }
+        .modal-header h2 { font-size: 24px; }
+        .close-btn { background: none; border: none; color: white; font-size: 28px; cursor: pointer; line-height: 1; }
+        .modal-body { padding: 30px; }
+        .form-group { margin-bottom: 20px; }
+        .form-group label { display: block; margin-bottom: 8px; font-weight: 600; color: #333; }
+        .form-group input, .form-group textarea, .form-group select { width: 100%; padding: 10px; border: 1px solid #ddd; border-radius: 8px; font-size: 14px; font-family: inherit; }
+        .form-group textarea { min-height: 150px; font-family: 'Courier New', monospace; }
+        .btn { padding: 12px 24px; border: none; border-radius: 8px; font-size: 14px; cursor: pointer; transition: all 0.3s ease; font-weight: 600; }
+        .btn-primary { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; }
+        .btn-primary:hover { transform: translateY(-2px); box-shadow: 0 4px 12px rgba(102, 126, 234, 0.4); }
+        .btn-secondary { background: #6c757d; color: white; }
+        .btn-secondary:hover { background: #5a6268; }
+        .btn-danger { background: #dc3545; color: white; }
+        .btn-danger:hover { background: #c82333; }
+        .btn-group { display: flex; gap: 10px; margin-top: 20px; }
+        .keys-list { margin-top: 30px; }
+        .keys-list h3 { margin-bottom: 15px; color: #333; }
+        .key-item { display: flex; justify-content: space-between; align-items: center; padding: 12px 15px; border: 1px solid #e9ecef; border-radius: 8px; margin-bottom: 10px; background: #f8f9fa; }
+        .key-item-info { flex: 1; overflow: hidden; }
+        .key-item-id { font-weight: 600; color: #667eea; margin-bottom: 4px; }
+        .key-item-key { font-family: 'Courier New', monospace; font-size: 12px; color: #6c757d; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+        .tabs { display: flex; border-bottom: 2px solid #e9ecef; margin-bottom: 20px; }
+        .tab { padding: 12px 24px; background: none; border: none; font-size: 16px; font-weight: 600; color: #6c757d; cursor: pointer; border-bottom: 3px solid transparent; transition: all 0.3s ease; }
+        .tab.active { color: #667eea; border-bottom-color: #667eea; }
+        .tab-content { display: none; }
+        .tab-content.active { display: block; }
+        .success-msg { background: #d4edda; color: #155724; padding: 12px; border-radius: 8px; margin-bottom: 15px; border: 1px solid #c3e6cb; }
+        .error-msg { background: #f8d7da; color: #721c24; padding: 12px; border-radius: 8px; margin-bottom: 15px; border: 1px solid #f5c6cb; }
+        .copy-btn { background: none; border: none; color: #667eea; cursor: pointer; font-size: 16px; padding: 4px 8px; margin-left: 8px; transition: all 0.2s ease; border-radius: 4px; }
+        .copy-btn:hover { background: #f0f0f0; transform: scale(1.1); }
+        .copy-btn:active { transform: scale(0.95); }
+        .copy-btn.copied { color: #28a745; }
+        .section-title { margin: 10px 0 15px; color: #333; }
+        .form-row { display: flex; gap: 10px; flex-wrap: wrap; }
+        .form-row .form-group { flex: 1; min-width: 160px; }
+        .empty-hint { color: #6c757d; margin-bottom: 15px; }
+        .item-btn { padding: 6px 12px; font-size: 12px; margin-left: 5px; }
+        .user-info { position: absolute; top: 30px; left: 30px; display: flex; align-items: center; gap: 10px; font-size: 14px; }
+        .user-info button { background: rgba(255, 255, 255, 0.2); color: white; border: 1px solid white; border-radius: 8px; padding: 6px 12px; cursor: pointer; }
+        .role-select { padding: 6px; border: 1px solid #ddd; border-radius: 6px; margin-left: 5px; }
+        .undo-toast { position: fixed; bottom: 24px; left: 50%; transform: translate(-50%, 20px); display: flex; align-items: center; gap: 16px; background: #333; color: #fff; padding: 12px 20px; border-radius: 8px; box-shadow: 0 6px 18px rgba(0, 0, 0, 0.25); font-size: 14px; opacity: 0; pointer-events: none; transition: all 0.25s ease; z-index: 1100; }
+        .undo-toast.show { opacity: 1; pointer-events: auto; transform: translate(-50%, 0); }
+        .undo-toast button { background: none; border: none; color: #8fa4ff; font-weight: 600; font-size: 14px; cursor: pointer; }
+        body.role-viewer .requires-operator, body.role-viewer .requires-admin, body.role-operator .requires-admin { display: none !important; }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <div class="user-info">
+                <span id="currentUser"></span>
+                <button onclick="logout()">退出登录</button>
+            </div>
+            <button class="manage-btn requires-operator" onclick="openManageModal()">Key 管理</button>
+            <h1>API 余额监控看板</h1>
+            <div class="update-time" id="updateTime">正在加载...</div>
+        </div>
+
+
+        <div class="stats-cards" id="statsCards"></div>
+
+
+        <form class="filter-bar" onsubmit="resetPaging(); loadData(); return false;">
+            <select id="filterStatus" onchange="resetPaging(); loadData();">
+                <option value="">全部状态</option>
+                <option value="valid">正常</option>
+                <option value="exhausted">已耗尽</option>
+                <option value="error">加载失败</option>
+            </select>
+            <select id="filterHealth" onchange="resetPaging(); loadData();">
+                <option value="">全部错误类别</option>
+                <option value="revoked">已吊销 / 未授权</option>
+                <option value="rate_limited">被限流</option>
+                <option value="upstream_down">上游故障</option>
+                <option value="malformed">响应异常</option>
+                <option value="timeout">超时</option>
+            </select>
+            <select id="filterLifecycle" onchange="resetPaging(); loadData();">
+                <option value="">生命周期（不含已归档）</option>
+                <option value="active">正常使用</option>
+                <option value="suspect">可疑</option>
+                <option value="quarantined">已隔离</option>
+                <option value="archived">已归档</option>
+            </select>
+            <select id="filterProvider" onchange="resetPaging(); loadData();">
+                <option value="">全部服务商</option>
+                <option value="factory">Factory</option>
+                <option value="openai">OpenAI</option>
+                <option value="anthropic">Anthropic</option>
+                <option value="openrouter">OpenRouter</option>
+                <option value="deepseek">DeepSeek</option>
+            </select>
+            <input type="number" id="filterErrorDays" min="0" step="any" placeholder="持续失败天数 ≥" style="width: 130px;">
+            <input type="text" id="filterSearch" placeholder="搜索名称 / 负责人 / 备注 / 标签">
+            <input type="text" id="filterTag" placeholder="标签（精确匹配）">
+            <input type="text" id="filterKey" placeholder="Key 前缀，如 fk-ab">
+            <select id="sortField" onchange="resetPaging(); loadData();">
+                <option value="remaining">按剩余额度</option>
+                <option value="used">按已使用</option>
+                <option value="allowance">按总计额度</option>
+                <option value="usedRatio">按使用百分比</option>
+                <option value="exhaustsAt">按预计耗尽</option>
+                <option value="label">按名称</option>
+            </select>
+            <select id="sortOrder" onchange="resetPaging(); loadData();">
+                <option value="desc">降序</option>
+                <option value="asc">升序</option>
+            </select>
+            <select id="pageSize" onchange="resetPaging(); loadData();">
+                <option value="25">每页 25</option>
+                <option value="50" selected>每页 50</option>
+                <option value="100">每页 100</option>
+                <option value="500">每页 500</option>
+            </select>
+            <button type="submit" class="btn btn-primary item-btn">筛选</button>
+        </form>
+
+
+        <div class="table-container">
+            <div id="tableContent">
+                <div class="loading">正在加载数据...</div>
+            </div>
+        </div>
+
+        <div class="pager">
+            <span id="pageInfo"></span>
+            <button class="btn btn-secondary item-btn" id="prevPageBtn" onclick="changePage(-1)" disabled>上一页</button>
+            <button class="btn btn-secondary item-btn" id="nextPageBtn" onclick="changePage(1)" disabled>下一页</button>
+        </div>
+    </div>
+
+    <div class="fab-container" id="fabContainer">
+        <button class="fab-toggle" onclick="toggleFabMenu(event)" aria-expanded="false" aria-controls="fabActions">
+            <span id="fabToggleIcon">☰</span>
+        </button>
+        <div class="fab-actions" id="fabActions">
+            <button class="export-keys-btn action-btn requires-admin" onclick="closeFabMenu(); openManageModal(); switchTab('exportTab');" id="exportKeysBtn">
+                <span>📥 导出Key</span>
+            </button>
+            <button class="delete-all-btn action-btn requires-operator" onclick="closeFabMenu(); deleteAllKeys();" id="deleteAllBtn">
+                <span>🗑️ 删除所有</span>
+            </button>
+            <button class="delete-zero-btn action-btn requires-operator" onclick="closeFabMenu(); deleteZeroBalanceKeys();" id="deleteZeroBtn">
+                <span>🗑️ 删除无效</span>
+            </button>
+            <button class="refresh-btn action-btn" onclick="closeFabMenu(); loadData(0, canRefreshUpstream());">
+                <span class="spinner" style="display: none;" id="spinner"></span>
+                <span id="btnText">刷新数据</span>
+            </button>
+        </div>
+    </div>
+
+    <div class="undo-toast" id="undoToast"></div>
+
+    <div id="manageModal" class="modal">
+        <div class="modal-content">
+            <div class="modal-header">
+                <h2>API Key 管理</h2>
+                <button class="close-btn" onclick="closeManageModal()">&times;</button>
+            </div>
+            <div class="modal-body">
+                <div id="modalMessage"></div>
+
+                <div class="tabs">
+                    <button class="tab active" data-tab="importTab" onclick="switchTab('importTab')">批量导入</button>
+                    <button class="tab" data-tab="alertsTab" onclick="switchTab('alertsTab')">告警规则</button>
+                    <button class="tab" data-tab="trashTab" onclick="switchTab('trashTab')">回收站</button>
+                    <button class="tab requires-admin" data-tab="exportTab" onclick="switchTab('exportTab')">导出 Key</button>
+                    <button class="tab requires-admin" data-tab="usersTab" onclick="switchTab('usersTab')">用户管理</button>
+                    <button class="tab requires-admin" data-tab="tokensTab" onclick="switchTab('tokensTab')">API Token</button>
+                    <button class="tab requires-admin" data-tab="auditTab" onclick="switchTab('auditTab')">审计日志</button>
+                </div>
+
+                <div id="importTab" class="tab-content active">
+                    <form onsubmit="event.preventDefault(); batchImportKeys(false);">
+                        <div class="form-row">
+                            <div class="form-group">
+                                <label>上传文件（CSV / JSON / .env）</label>
+                                <input type="file" id="importFile" accept=".csv,.json,.env,.txt" onchange="loadImportFile(this)">
+                            </div>
+                            <div class="form-group">
+                                <label>格式</label>
+                                <select id="importFormat">
+                                    <option value="">自动识别</option>
+                                    <option value="csv">CSV</option>
+                                    <option value="json">JSON</option>
+                                    <option value="env">.env</option>
+                                </select>
+                            </div>
+                        </div>
+                        <div class="form-group">
+                            <label>或直接粘贴（CSV 每行一个：Key,名称,标签1|标签2,负责人,备注，除 Key 外均可省略，也可以带表头；服务商按 Key 前缀识别，或用表头中的 provider 列指定）</label>
+                            <textarea id="batchKeysInput" placeholder="例如:&#10;fk-xxxxx&#10;fk-yyyyy,项目A,prod|team-a&#10;sk-or-v1-zzzzz,测试,dev,张三,临时使用&#10;&#10;或 .env：FACTORY_API_KEY=fk-xxxxx、DEEPSEEK_API_KEY=sk-xxxxx"></textarea>
+                        </div>
+                        <div class="btn-group">
+                            <button type="button" class="btn btn-secondary" onclick="batchImportKeys(true)">预览（校验 Key）</button>
+                            <button type="submit" class="btn btn-primary">批量导入</button>
+                            <button type="button" class="btn btn-secondary" onclick="clearImport()">清空</button>
+                        </div>
+                    </form>
+                    <div id="importResults" class="table-container" style="padding: 20px 0 0;"></div>
+                </div>
+
+                <div id="alertsTab" class="tab-content">
+                    <h3 class="section-title">告警规则</h3>
+                    <div id="alertRulesList"></div>
+                    <form onsubmit="addAlertRule(event)">
+                        <div class="form-row">
+                            <div class="form-group">
+                                <label>规则名称</label>
+                                <input type="text" id="alertRuleName" placeholder="例如：使用率 80%">
+                            </div>
+                            <div class="form-group">
+                                <label>类型</label>
+                                <select id="alertRuleType" onchange="updateAlertRuleForm()">
+                                    <option value="key_used_ratio">Key 使用率达到阈值</option>
+                                    <option value="pool_remaining">额度池剩余低于阈值</option>
+                                    <option value="key_error">Key 查询失败</option>
+                                </select>
+                            </div>
+                            <div class="form-group" id="alertRuleThresholdGroup">
+                                <label id="alertRuleThresholdLabel">阈值（%）</label>
+                                <input type="number" id="alertRuleThreshold" min="0" step="any" placeholder="80">
+                            </div>
+                            <div class="form-group" id="alertRuleMatchGroup" style="display: none;">
+                                <label>错误包含（可选）</label>
+                                <input type="text" id="alertRuleMatch" placeholder="例如：HTTP 401">
+                            </div>
+                        </div>
+                        <button type="submit" class="btn btn-primary">添加规则</button>
+                    </form>
+
+                    <h3 class="section-title" style="margin-top: 30px;">通知渠道</h3>
+                    <div id="webhooksList"></div>
+                    <form onsubmit="addWebhook(event)">
+                        <div class="form-row">
+                            <div class="form-group" style="flex: 0 0 180px;">
+                                <label>渠道类型</label>
+                                <select id="webhookType" onchange="updateWebhookForm()">
+                                    <option value="generic">通用 Webhook (JSON)</option>
+                                    <option value="slack">Slack</option>
+                                    <option value="feishu">飞书 / Lark</option>
+                                    <option value="dingtalk">钉钉</option>
+                                    <option value="telegram">Telegram</option>
+                                </select>
+                            </div>
+                            <div class="form-group" id="webhookUrlGroup">
+                                <label id="webhookUrlLabel">Webhook 地址</label>
+                                <input type="url" id="webhookUrl" placeholder="https://example.com/hooks/alert">
+                            </div>
+                        </div>
+                        <div class="form-row">
+                            <div class="form-group" id="webhookSecretGroup" style="display: none;">
+                                <label id="webhookSecretLabel">加签密钥（可选）</label>
+                                <input type="text" id="webhookSecret" autocomplete="off">
+                            </div>
+                            <div class="form-group" id="webhookChatIdGroup" style="display: none;">
+                                <label>Chat ID</label>
+                                <input type="text" id="webhookChatId" placeholder="-1001234567890" autocomplete="off">
+                            </div>
+                        </div>
+                        <button type="submit" class="btn btn-primary">添加渠道</button>
+                    </form>
+                </div>
+
+                <div id="usersTab" class="tab-content">
+                    <h3 class="section-title">用户</h3>
+                    <div id="usersList"></div>
+                    <form onsubmit="addUser(event)">
+                        <div class="form-row">
+                            <div class="form-group">
+                                <label>用户名</label>
+                                <input type="text" id="newUsername" required autocomplete="off">
+                            </div>
+                            <div class="form-group">
+                                <label>密码（至少 8 位）</label>
+                                <input type="password" id="newUserPassword" required minlength="8" autocomplete="new-password">
+                            </div>
+                            <div class="form-group" style="flex: 0 0 160px;">
+                                <label>角色</label>
+                                <select id="newUserRole">
+                                    <option value="viewer">查看者</option>
+                                    <option value="operator">运维</option>
+                                    <option value="admin">管理员</option>
+                                </select>
+                            </div>
+                        </div>
+                        <button type="submit" class="btn btn-primary">添加用户</button>
+                    </form>
+                </div>
+
+                <div id="tokensTab" class="tab-content">
+                    <h3 class="section-title">API Token</h3>
+                    <div class="empty-hint">脚本可通过请求头 <code>Authorization: Bearer &lt;token&gt;</code> 调用接口，权限不超过创建者当前角色。</div>
+                    <div id="newTokenResult"></div>
+                    <div id="tokensList"></div>
+                    <form onsubmit="addApiToken(event)">
+                        <div class="form-row">
+                            <div class="form-group">
+                                <label>名称</label>
+                                <input type="text" id="tokenName" required placeholder="例如：CI 用量查询">
+                            </div>
+                            <div class="form-group" style="flex: 0 0 160px;">
+                                <label>有效期（天，可选）</label>
+                                <input type="number" id="tokenExpiresInDays" min="1" step="1" placeholder="永不过期">
+                            </div>
+                        </div>
+                        <div class="form-group">
+                            <label>权限范围</label>
+                            <label><input type="checkbox" name="tokenScope" value="usage:read" checked> usage:read（读取用量）</label>
+                            <label><input type="checkbox" name="tokenScope" value="keys:write"> keys:write（增删 / 刷新 Key）</label>
+                            <label><input type="checkbox" name="tokenScope" value="keys:export"> keys:export（导出完整 Key）</label>
+                        </div>
+                        <button type="submit" class="btn btn-primary">创建 Token</button>
+                    </form>
+                </div>
+
+                <div id="exportTab" class="tab-content">
+                    <form onsubmit="exportKeys(event)">
+                        <div class="form-row">
+                            <div class="form-group">
+                                <label>格式</label>
+                                <select id="exportFormat">
+                                    <option value="csv">CSV（含元数据与用量）</option>
+                                    <option value="json">JSON（含元数据与用量）</option>
+                                    <option value="txt">TXT（每行一个 Key）</option>
+                                </select>
+                            </div>
+                            <div class="form-group">
+                                <label>标签</label>
+                                <input type="text" id="exportTag" placeholder="全部">
+                            </div>
+                            <div class="form-group">
+                                <label>状态</label>
+                                <select id="exportStatus">
+                                    <option value="">全部状态</option>
+                                    <option value="valid">正常</option>
+                                    <option value="exhausted">已耗尽</option>
+                                    <option value="error">加载失败</option>
+                                </select>
+                            </div>
+                            <div class="form-group">
+                                <label>最低剩余 Token</label>
+                                <input type="number" id="exportMinRemaining" min="0" placeholder="如 1000000">
+                            </div>
+                        </div>
+                        <div class="form-row">
+                            <div class="form-group">
+                                <label>加密密码（可选，留空导出明文文件）</label>
+                                <input type="password" id="exportArchivePassword" autocomplete="new-password">
+                            </div>
+                            <div class="form-group">
+                                <label>当前账号密码</label>
+                                <input type="password" id="exportPassword" autocomplete="current-password" required>
+                            </div>
+                        </div>
+                        <p class="empty-hint">加密文件可用 <code>openssl enc -d -aes-256-cbc -pbkdf2 -iter 100000 -in 文件名 -out 解密后的文件</code> 解密</p>
+                        <button type="submit" class="btn btn-primary" id="exportSubmitBtn">导出</button>
+                    </form>
+                </div>
+
+                <div id="trashTab" class="tab-content">
+                    <p class="empty-hint" id="trashHint"></p>
+                    <div id="trashList"></div>
+                </div>
+
+                <div id="auditTab" class="tab-content">
+                    <form class="form-row" onsubmit="auditPage = 1; loadAuditLog(); return false;">
+                        <div class="form-group">
+                            <label>操作</label>
+                            <select id="auditAction">
+                                <option value="">全部</option>
+                            </select>
+                        </div>
+                        <div class="form-group">
+                            <label>操作者</label>
+                            <input type="text" id="auditActor" placeholder="用户名">
+                        </div>
+                        <div class="form-group" style="flex: 0 0 auto; align-self: flex-end;">
+                            <button type="submit" class="btn btn-primary">查询</button>
+                        </div>
+                    </form>
+                    <div id="auditList"></div>
+                    <div class="form-row" style="align-items: center; margin-top: 10px;">
+                        <button class="btn btn-secondary item-btn" id="auditPrev" onclick="auditPage--; loadAuditLog();">上一页</button>
+                        <span id="auditPageInfo"></span>
+                        <button class="btn btn-secondary item-btn" id="auditNext" onclick="auditPage++; loadAuditLog();">下一页</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    </div>  
+  
+  
+    <script>
+        // Global variable to store current API data
+        let currentApiData = null;
+        let fabMenuInitialized = false;
+
+        const HEALTH_LABELS = {
+            healthy: '正常', exhausted: '已耗尽', revoked: '已吊销', rate_limited: '被限流',
+            upstream_down: '上游故障', malformed: '响应异常', timeout: '超时'
+        };
+
+        function renderHealthBadge(item) {
+            return item.health ? \`<span class="health-badge health-\${item.health}">\${HEALTH_LABELS[item.health] || item.health}</span>\` : '';
+        }
+
+        const LIFECYCLE_LABELS = { suspect: '可疑', quarantined: '已隔离', archived: '已归档' };
+
+        // Active keys get no badge; the others are being phased out by the server-side lifecycle
+        function renderLifecycleBadge(item) {
+            return LIFECYCLE_LABELS[item.lifecycle] ? \`<span class="health-badge lifecycle-\${item.lifecycle}">\${LIFECYCLE_LABELS[item.lifecycle]}</span>\` : '';
+        }
+
+        const PROVIDER_LABELS = { factory: 'Factory', openai: 'OpenAI', anthropic: 'Anthropic', openrouter: 'OpenRouter', deepseek: 'DeepSeek' };
+
+        function renderProviderBadge(item) {
+            return item.provider ? \`<span class="health-badge provider-badge">\${PROVIDER_LABELS[item.provider] || item.provider}</span>\` : '';
+        }
+
+        // Factory usage tiers; the standard tier is what the main columns show, the others get their own
+        const TIER_LABELS = { standard: 'Standard', premium: 'Premium' };
+        const formatTierName = (name) => TIER_LABELS[name] || name.charAt(0).toUpperCase() + name.slice(1);
+
+        function getExtraTierNames(items) {
+            return [...new Set(items.flatMap(item => Object.keys(item.tiers || {})))].filter(name => name !== 'standard').sort();
+        }
+
+        function renderTierCell(tier) {
+            if (!tier) return '-';
+            return \`\${formatNumber(tier.orgTotalTokensUsed)} / \${formatNumber(tier.totalAllowance)}<div class="tier-ratio">\${formatPercentage(tier.usedRatio)}</div>\`;
+        }
+
+        function renderRestoreButton(item) {
+            if (item.lifecycle !== 'quarantined' && item.lifecycle !== 'archived') return '';
+            return \`<button class="btn btn-secondary" onclick="restoreKey('\${item.id}')" style="padding: 6px 12px; font-size: 12px; margin-right: 5px;">恢复</button>\`;
+        }
+
+        // Failure streak of an errored key: how many refreshes in a row failed, since when, and the last success
+        function renderFailureDetail(item) {
+            const parts = [];
+            if (item.consecutiveFailures) parts.push(\`连续失败 \${item.consecutiveFailures} 次\`);
+            if (item.errorSince) parts.push(\`自 \${new Date(item.errorSince).toLocaleString('zh-CN')} 起\`);
+            parts.push(item.lastSuccessAt ? \`上次成功 \${new Date(item.lastSuccessAt).toLocaleString('zh-CN')}\` : '从未成功');
+            return item.consecutiveFailures !== undefined ? \`<span class="health-detail">\${parts.join(' · ')}</span>\` : '';
+        }
+
+        function closeFabMenu() {
+            const container = document.getElementById('fabContainer');
+            const toggleBtn = document.querySelector('.fab-toggle');
+            const icon = document.getElementById('fabToggleIcon');
+            if (!container) return;
+            container.classList.remove('open');
+            if (toggleBtn) toggleBtn.setAttribute('aria-expanded', 'false');
+            if (icon) {
+                icon.textContent = '☰';
+                icon.setAttribute('aria-label', '展开操作');
+            }
+        }
+
+        function toggleFabMenu(event) {
+            event.stopPropagation();
+            const container = document.getElementById('fabContainer');
+            const toggleBtn = document.querySelector('.fab-toggle');
+            const icon = document.getElementById('fabToggleIcon');
+            if (!container) return;
+            const isOpen = container.classList.toggle('open');
+            if (toggleBtn) toggleBtn.setAttribute('aria-expanded', isOpen ? 'true' : 'false');
+            if (icon) {
+                icon.textContent = isOpen ? '×' : '☰';
+                icon.setAttribute('aria-label', isOpen ? '收起操作' : '展开操作');
+            }
+            if (!fabMenuInitialized) {
+                document.addEventListener('click', (e) => {
+                    const fabContainer = document.getElementById('fabContainer');
+                    if (fabContainer && !fabContainer.contains(e.target)) {
+                        closeFabMenu();
+                    }
+                });
+                fabMenuInitialized = true;
+            }
+        }
+
+        const formatNumber = (num) => num ? new Intl.NumberFormat('en-US').format(num) : '0';
+        // Keys without a limit have no used ratio (null), which is not the same as 0%
+        const formatPercentage = (ratio) => ratio === null || ratio === undefined ? '-' : ((ratio || 0) * 100).toFixed(2) + '%';  
+        const UNIT_SYMBOLS = { USD: '$', CNY: '¥' };
+        // Factory reports tokens, the other providers money; null is a limit the provider does not report
+        const formatAmount = (value, unit) => {
+            if (value === null || value === undefined) return '-';
+            const symbol = UNIT_SYMBOLS[unit];
+            return symbol ? symbol + new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value) : formatNumber(value);
+        };
+        const getRemaining = (item) => item.totalAllowance === null ? null : Math.max(0, item.totalAllowance - item.orgTotalTokensUsed);
+        const formatForecast = (forecast, unit) => {
+            if (!forecast) return '<span style="color: #adb5bd;">数据不足</span>';
+            if (!forecast.exhaustsAt) return '<span style="color: #adb5bd;">暂无消耗</span>';
+            const color = forecast.withinWindow === false ? '#6c757d' : '#dc3545';
+            const title = \`消耗速度 \${formatAmount(forecast.burnRatePerHour, unit)} / 小时\${forecast.withinWindow === false ? '，窗口重置前不会耗尽' : ''}\`;
+            return \`<span style="color: \${color};" title="\${title}">\${forecast.exhaustsAt}</span>\`;
+        };
+  
+  
+        // Server-side filtering / sorting / cursor pagination for /api/data
+        let pageCursors = [null];
+        let pageIndex = 0;
+
+        function resetPaging() {
+            pageCursors = [null];
+            pageIndex = 0;
+        }
+
+        function changePage(delta) {
+            pageIndex = Math.max(0, Math.min(pageCursors.length - 1, pageIndex + delta));
+            loadData();
+        }
+
+        function buildDataQuery() {
+            const params = new URLSearchParams({
+                sort: document.getElementById('sortField').value,
+                order: document.getElementById('sortOrder').value,
+                limit: document.getElementById('pageSize').value
+            });
+            const filters = { status: 'filterStatus', health: 'filterHealth', lifecycle: 'filterLifecycle', provider: 'filterProvider', error_days: 'filterErrorDays', q: 'filterSearch', tag: 'filterTag', key: 'filterKey' };
+            for (const [name, elementId] of Object.entries(filters)) {
+                const value = document.getElementById(elementId).value.trim();
+                if (value) params.set(name, value);
+            }
+            if (pageCursors[pageIndex]) params.set('cursor', pageCursors[pageIndex]);
+            return params;
+        }
+
+        // Bulk actions work on every matching key, not just the page on screen
+        async function fetchAllKeyData(query = '') {
+            const response = await fetch(\`/api/data?\${query}\`);
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || '加载数据失败');
+            return data.data;
+        }
+
+        function formatAge(seconds) {
+            if (seconds < 60) return '刚刚';
+            if (seconds < 3600) return \`\${Math.floor(seconds / 60)} 分钟前\`;
+            return \`\${Math.floor(seconds / 3600)} 小时前\`;
+        }
+
+        // fresh: ask the server to refresh from the providers instead of serving its cache. The server
+        // refreshes one chunk per request, so this repeats with the sweep's \`since\` until none are pending
+        function loadData(retryCount = 0, fresh = false, since = null) {  
+            const spinner = document.getElementById('spinner');  
+            const btnText = document.getElementById('btnText');  
+                
+            spinner.style.display = 'inline-block';  
+            btnText.textContent = '加载中...';  
+  
+  
+            fetch(\`/api/data?\${buildDataQuery()}\${fresh ? '&fresh=1' : ''}\${since ? '&since=' + since : ''}&t=\${new Date().getTime()}\`)  
+                .then(response => {  
+                    // Session expired: reload so the login page is served
+                    if (response.status === 401) {
+                        window.location.href = '/';
+                        return null;
+                    }
+                    // If server is still initializing (503), auto-retry after 2 seconds
+                    if (response.status === 503 && retryCount < 5) {
+                        console.log(\`Server initializing, retrying in 2 seconds... (attempt \${retryCount + 1}/5)\`);
+                        document.getElementById('tableContent').innerHTML = \`<div class="loading">服务器正在初始化数据，请稍候... (尝试 \${retryCount + 1}/5)</div>\`;
+                        setTimeout(() => loadData(retryCount + 1), 2000);
+                        return null;
+                    }
+                    if (!response.ok) {  
+                        throw new Error('无法加载数据: ' + response.statusText);  
+                    }  
+                    return response.json();  
+                })  
+                .then(data => {
+                    if (data === null) return; // Skip if retrying or redirecting
+                    if (data.error) {  
+                        throw new Error(data.error);  
+                    }  
+                    displayData(data);  
+                    if (data.refresh?.pending > 0) {
+                        document.getElementById('updateTime').textContent += \` | 正在刷新，还有 \${data.refresh.pending} 个 Key\`;
+                        setTimeout(() => loadData(0, true, data.refresh.since), 0);
+                    }
+                })  
+                .catch(error => {  
+                    document.getElementById('tableContent').innerHTML = \`<div class="error">❌ 加载失败: \${error.message}</div>\`;  
+                    document.getElementById('updateTime').textContent = "加载失败";  
+                })  
+                .finally(() => {  
+                    spinner.style.display = 'none';  
+                    btnText.textContent = '🔄 刷新数据';  
+                });  
+        }  
+  
+  
+        function displayData(data) {
+            // Store data globally for other functions to use
+            currentApiData = data;
+
+            const ageText = data.age !== undefined ? \`（\${formatAge(data.age)}\${data.stale ? '，数据可能已过期，请刷新' : ''}）\` : '';
+            document.getElementById('updateTime').textContent = \`最后更新: \${data.update_time}\${ageText} | 共 \${data.total_count} 个API Key\${data.filtered_count !== undefined && data.filtered_count !== data.total_count ? \`，筛选后 \${data.filtered_count} 个\` : ''}\`;
+
+            pageCursors[pageIndex + 1] = data.next_cursor || undefined;
+            pageCursors.length = data.next_cursor ? pageIndex + 2 : pageIndex + 1;
+            const pageSize = Number(document.getElementById('pageSize').value);
+            document.getElementById('pageInfo').textContent = \`第 \${pageIndex + 1} / \${Math.max(1, Math.ceil((data.filtered_count ?? data.data.length) / pageSize))} 页\`;
+            document.getElementById('prevPageBtn').disabled = pageIndex === 0;
+            document.getElementById('nextPageBtn').disabled = !data.next_cursor;
+
+            const totalAllowance = data.totals.total_totalAllowance;
+            const totalUsed = data.totals.total_orgTotalTokensUsed;
+            // MODIFICATION: Use the totalRemaining value calculated on the backend.
+            const totalRemaining = data.totals.totalRemaining;
+            const overallRatio = totalAllowance > 0 ? totalUsed / totalAllowance : 0;  
+  
+  
+            const statsCards = document.getElementById('statsCards');  
+            statsCards.innerHTML = \`  
+                <div class="stat-card"><div class="label">总计额度 (Total Allowance)</div><div class="value">\${formatNumber(totalAllowance)}</div></div>  
+                <div class="stat-card"><div class="label">已使用 (Total Used)</div><div class="value">\${formatNumber(totalUsed)}</div></div>  
+                <div class="stat-card"><div class="label">剩余额度 (Remaining)</div><div class="value">\${formatNumber(totalRemaining)}</div></div>  
+                <div class="stat-card"><div class="label">使用百分比 (Usage %)</div><div class="value">\${formatPercentage(overallRatio)}</div></div>  
+                <div class="stat-card"><div class="label">预计耗尽 (Forecast)</div><div class="value" style="font-size: 18px;">\${formatForecast(data.forecast)}</div></div>  
+                \${Object.entries(data.totals.tiers || {}).filter(([name]) => name !== 'standard').map(([name, totals]) => \`
+                    <div class="stat-card"><div class="label">\${formatTierName(name)} 剩余 / 总额</div><div class="value" style="font-size: 18px;">\${formatNumber(totals.totalRemaining)} / \${formatNumber(totals.total_totalAllowance)}</div></div>\`).join('')}
+                \${Object.entries(data.totals_by_unit || {}).filter(([unit]) => unit !== 'tokens').map(([unit, totals]) => \`
+                    <div class="stat-card"><div class="label">剩余 / 已用 (\${unit})</div><div class="value" style="font-size: 18px;">\${formatAmount(totals.totalRemaining, unit)} / \${formatAmount(totals.total_orgTotalTokensUsed, unit)}</div></div>\`).join('')}
+            \`;  
+  
+  
+            const tierNames = getExtraTierNames(data.data);
+            let tableHTML = \`
+                <table>
+                    <thead>
+                        <tr>
+                            <th>API Key</th>
+                            <th>名称 / 负责人 / 标签</th>
+                            <th>开始时间</th>
+                            <th>结束时间</th>
+                            <th class="number">总计额度</th>
+                            <th class="number">已使用</th>
+                            <th class="number">剩余额度</th>
+                            <th class="number">使用百分比</th>
+                            \${tierNames.map(name => \`<th class="number">\${formatTierName(name)} 已用 / 总额</th>\`).join('')}
+                            <th>预计耗尽</th>
+                            <th style="text-align: center;" class="requires-operator">操作</th>
+                        </tr>
+                    </thead>
+                    <tbody>\`;
+
+
+            data.data.forEach(item => {
+                if (item.error) {
+                    tableHTML += \`
+                        <tr>
+                            <td class="key-cell" title="\${item.key}">
+                                \${renderProviderBadge(item)}<span>\${item.key}</span>\${renderHealthBadge(item)}\${renderLifecycleBadge(item)}
+                                <button class="copy-btn requires-admin" onclick="copyKey('\${item.id}')" title="复制完整Key">📋</button>
+                            </td>
+                            <td class="meta-cell" id="key-meta-\${item.id}">\${renderKeyMeta(item)}</td>
+                            <td colspan="\${7 + tierNames.length}" class="error-row">加载失败: \${item.error}\${renderFailureDetail(item)}</td>
+                            <td style="text-align: center;" class="requires-operator">
+                                \${renderRestoreButton(item)}<button class="btn btn-primary" onclick="refreshSingleKey('\${item.id}')" style="padding: 6px 12px; font-size: 12px; margin-right: 5px;">刷新</button>
+                                <button class="btn btn-danger" onclick="deleteKeyFromTable('\${item.id}')" style="padding: 6px 12px; font-size: 12px;">删除</button>
+                            </td>
+                        </tr>\`;
+                } else {
+                    tableHTML += \`
+                        <tr id="key-row-\${item.id}">
+                            <td class="key-cell" title="\${item.key}">
+                                \${renderProviderBadge(item)}<span>\${item.key}</span>\${renderHealthBadge(item)}\${renderLifecycleBadge(item)}
+                                <button class="copy-btn requires-admin" onclick="copyKey('\${item.id}')" title="复制完整Key">📋</button>
+                            </td>
+                            <td class="meta-cell" id="key-meta-\${item.id}">\${renderKeyMeta(item)}</td>
+                            <td>\${item.startDate || '-'}</td>
+                            <td>\${item.endDate || '-'}</td>
+                            <td class="number">\${formatAmount(item.totalAllowance, item.unit)}</td>
+                            <td class="number">\${formatAmount(item.orgTotalTokensUsed, item.unit)}</td>
+                            <td class="number">\${formatAmount(getRemaining(item), item.unit)}</td>
+                            <td class="number">\${formatPercentage(item.usedRatio)}</td>
+                            \${tierNames.map(name => \`<td class="number">\${renderTierCell(item.tiers?.[name])}</td>\`).join('')}
+                            <td>\${formatForecast(item.forecast, item.unit)}</td>
+                            <td style="text-align: center;" class="requires-operator">
+                                \${renderRestoreButton(item)}<button class="btn btn-primary" onclick="refreshSingleKey('\${item.id}')" style="padding: 6px 12px; font-size: 12px; margin-right: 5px;">刷新</button>
+                                <button class="btn btn-danger" onclick="deleteKeyFromTable('\${item.id}')" style="padding: 6px 12px; font-size: 12px;">删除</button>
+                            </td>
+                        </tr>\`;
+                }
+            });
+
+
+            tableHTML += \`
+                    </tbody>
+                </table>\`; 
+  
+  
+            document.getElementById('tableContent').innerHTML = tableHTML;  
+        }  
+
+        // Key metadata (label / owner / notes / tags / provider), editable inline in the table
+        function findKeyItem(id) {
+            return currentApiData?.data.find(item => item.id === id);
+        }
+
+        function renderKeyMeta(item) {
+            const tags = (item.tags || []).map(tag => \`<span class="tag-chip">\${escapeHtml(tag)}</span>\`).join('');
+            const empty = !item.label && !item.owner && !item.notes && !(item.tags || []).length;
+            return \`<div class="meta-wrap">
+                <div class="key-meta" title="\${escapeHtml(item.notes || '')}">
+                    \${item.label ? \`<div class="key-meta-label">\${escapeHtml(item.label)}</div>\` : ''}
+                    \${item.owner ? \`<div class="key-meta-owner">👤 \${escapeHtml(item.owner)}</div>\` : ''}
+                    \${tags ? \`<div>\${tags}</div>\` : ''}
+                    \${item.notes ? \`<div class="key-meta-owner">📝 \${escapeHtml(item.notes)}</div>\` : ''}
+                    \${empty ? '<span class="key-meta-owner">-</span>' : ''}
+                </div>
+                <button class="copy-btn requires-operator" onclick="editKeyMeta('\${item.id}')" title="编辑">✏️</button>
+            </div>\`;
+        }
+
+        function editKeyMeta(id) {
+            const item = findKeyItem(id);
+            if (!item) return;
+            document.getElementById(\`key-meta-\${id}\`).innerHTML = \`
+                <div class="meta-edit">
+                    <input type="text" data-field="label" placeholder="名称" value="\${escapeHtml(item.label || '')}">
+                    <input type="text" data-field="owner" placeholder="负责人" value="\${escapeHtml(item.owner || '')}">
+                    <input type="text" data-field="tags" placeholder="标签，用 | 分隔" value="\${escapeHtml((item.tags || []).join('|'))}">
+                    <textarea data-field="notes" placeholder="备注">\${escapeHtml(item.notes || '')}</textarea>
+                    <select data-field="provider" title="服务商">
+                        \${Object.entries(PROVIDER_LABELS).map(([id, label]) => \`<option value="\${id}" \${id === item.provider ? 'selected' : ''}>\${label}</option>\`).join('')}
+                    </select>
+                    <div>
+                        <button class="btn btn-primary item-btn" onclick="saveKeyMeta('\${id}')">保存</button>
+                        <button class="btn btn-secondary item-btn" onclick="cancelKeyMeta('\${id}')">取消</button>
+                    </div>
+                </div>\`;
+        }
+
+        function cancelKeyMeta(id) {
+            const item = findKeyItem(id);
+            if (item) document.getElementById(\`key-meta-\${id}\`).innerHTML = renderKeyMeta(item);
+        }
+
+        async function saveKeyMeta(id) {
+            const cell = document.getElementById(\`key-meta-\${id}\`);
+            const metadata = {};
+            cell.querySelectorAll('[data-field]').forEach(input => metadata[input.dataset.field] = input.value);
+
+            try {
+                const response = await fetch(\`/api/keys/\${id}\`, {
+                    method: 'PATCH',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(metadata)
+                });
+                const result = await response.json();
+                if (!response.ok) throw new Error(result.error || '保存失败');
+
+                const item = findKeyItem(id);
+                Object.assign(item, {
+                    label: metadata.label.trim() || null,
+                    owner: metadata.owner.trim() || null,
+                    notes: metadata.notes.trim() || null,
+                    tags: [...new Set(metadata.tags.split('|').map(tag => tag.trim()).filter(Boolean))],
+                    provider: metadata.provider
+                });
+                cell.innerHTML = renderKeyMeta(item);
+            } catch (error) {
+                alert('保存失败: ' + error.message);
+            }
+        }
+  
+  
+        // Current user and role-based visibility
+        const ROLE_LABELS = { viewer: '查看者', operator: '运维', admin: '管理员' };
+        let currentUser = null;
+
+        // Viewers reload the cached data; querying the providers is left to operators
+        const canRefreshUpstream = () => currentUser?.role === 'operator' || currentUser?.role === 'admin';
+
+        async function loadCurrentUser() {
+            try {
+                const response = await fetch('/api/me');
+                if (response.status === 401) return window.location.href = '/';
+                const result = await response.json();
+                currentUser = result.user;
+                document.body.classList.add('role-' + currentUser.role);
+                document.getElementById('currentUser').textContent = \`\${currentUser.username} · \${ROLE_LABELS[currentUser.role] || currentUser.role}\`;
+            } catch (error) {
+                console.error('Failed to load current user', error);
+            }
+        }
+
+        async function logout() {
+            await fetch('/api/logout', { method: 'POST' });
+            window.location.href = '/';
+        }
+
+        document.addEventListener('DOMContentLoaded', async () => {
+            await loadCurrentUser();
+            loadData();
+        });
+
+        // Copy Key Function
+        async function copyKey(id) {
+            try {
+                // Fetch the full unmasked key from the server
+                const response = await fetch(\`/api/keys/\${id}/full\`);
+                const result = await response.json();
+                
+                if (!response.ok || !result.success) {
+                    throw new Error(result.error || '获取完整Key失败');
+                }
+                
+                // Copy the full key to clipboard
+                await navigator.clipboard.writeText(result.key);
+                
+                // Find the button that was clicked and show feedback
+                const buttons = document.querySelectorAll('.copy-btn');
+                buttons.forEach(btn => {
+                    if (btn.getAttribute('onclick').includes(id)) {
+                        const originalText = btn.textContent;
+                        btn.textContent = '✓';
+                        btn.classList.add('copied');
+                        
+                        setTimeout(() => {
+                            btn.textContent = originalText;
+                            btn.classList.remove('copied');
+                        }, 1500);
+                    }
+                });
+            } catch (error) {
+                alert('复制失败: ' + error.message);
+            }
+        }
+
+        // Modal and Key Management Functions
+        function openManageModal() {
+            document.getElementById('manageModal').classList.add('show');
+            clearMessage();
+        }
+
+        function closeManageModal() {
+            document.getElementById('manageModal').classList.remove('show');
+            clearMessage();
+        }
+
+        function showMessage(message, isError = false) {
+            const msgDiv = document.getElementById('modalMessage');
+            msgDiv.innerHTML = \`<div class="\${isError ? 'error-msg' : 'success-msg'}">\${message}</div>\`;
+            setTimeout(() => clearMessage(), 5000);
+        }
+
+        function clearMessage() {
+            document.getElementById('modalMessage').innerHTML = '';
+        }
+
+        function escapeHtml(text) {
+            return String(text ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]));
+        }
+
+        function switchTab(tabId) {
+            document.querySelectorAll('.tab').forEach(tab => tab.classList.toggle('active', tab.dataset.tab === tabId));
+            document.querySelectorAll('.tab-content').forEach(content => content.classList.toggle('active', content.id === tabId));
+            if (tabId === 'alertsTab') loadAlerts();
+            if (tabId === 'usersTab') loadUsers();
+            if (tabId === 'tokensTab') loadApiTokens();
+            if (tabId === 'auditTab') loadAuditLog();
+            if (tabId === 'trashTab') loadTrash();
+        }
+
+        // Trash
+        async function loadTrash() {
+            try {
+                const response = await fetch('/api/trash');
+                const result = await response.json();
+                if (!response.ok) throw new Error(result.error || '加载回收站失败');
+
+                document.getElementById('trashHint').textContent = \`删除的 Key 会在回收站保留 \${result.retentionDays} 天，之后自动彻底删除\`;
+                document.getElementById('trashList').innerHTML = result.keys.length === 0
+                    ? '<div class="empty-hint">回收站为空</div>'
+                    : result.keys.map(key => \`
+                        <div class="key-item">
+                            <div class="key-item-info">
+                                <div class="key-item-id">\${escapeHtml(key.label || key.id)}</div>
+                                <div class="key-item-key">\${escapeHtml(key.key)} · \${escapeHtml(key.id)} · 删除于 \${new Date(key.deletedAt).toLocaleString('zh-CN')}</div>
+                            </div>
+                            <button class="btn btn-primary item-btn" onclick="restoreTrashKey('\${key.id}')">恢复</button>
+                            <button class="btn btn-danger item-btn requires-admin" onclick="purgeFromTrash('\${key.id}')">彻底删除</button>
+                        </div>\`).join('');
+            } catch (error) {
+                showMessage(error.message, true);
+            }
+        }
+
+        async function restoreFromTrash(ids) {
+            try {
+                const response = await fetch('/api/trash/restore', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ ids })
+                });
+                const result = await response.json();
+                if (!response.ok) throw new Error(result.error || '恢复失败');
+                return result.restored;
+            } finally {
+                if (document.getElementById('trashTab').classList.contains('active')) loadTrash();
+                loadData();
+            }
+        }
+
+        async function restoreTrashKey(id) {
+            try {
+                await restoreFromTrash([id]);
+                showMessage(\`Key "\${escapeHtml(id)}" 已恢复\`);
+            } catch (error) {
+                showMessage(error.message, true);
+            }
+        }
+
+        async function purgeFromTrash(id) {
+            if (!confirm(\`确定要彻底删除 Key "\${id}" 吗？\\n此操作不可恢复！\`)) return;
+
+            try {
+                const response = await fetch('/api/trash/purge', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ ids: [id] })
+                });
+                const result = await response.json();
+                if (!response.ok) throw new Error(result.error || '彻底删除失败');
+                showMessage(\`Key "\${escapeHtml(id)}" 已彻底删除\`);
+                loadTrash();
+            } catch (error) {
+                showMessage(error.message, true);
+            }
+        }
+
+        // Undo toast: deleted keys sit in the trash, so a delete can be undone until the toast closes
+        const UNDO_TOAST_MS = 10000;
+        let undoIds = [];
+        let undoTimer = null;
+
+        function showUndoToast(message, ids) {
+            undoIds = ids;
+            const toast = document.getElementById('undoToast');
+            toast.innerHTML = \`<span>\${escapeHtml(message)}</span>\${ids.length > 0 ? '<button onclick="undoDelete()">撤销</button>' : ''}\`;
+            toast.classList.add('show');
+            clearTimeout(undoTimer);
+            undoTimer = setTimeout(hideUndoToast, UNDO_TOAST_MS);
+        }
+
+        function hideUndoToast() {
+            clearTimeout(undoTimer);
+            undoIds = [];
+            document.getElementById('undoToast').classList.remove('show');
+        }
+
+        async function undoDelete() {
+            const ids = undoIds;
+            hideUndoToast();
+            try {
+                const restored = await restoreFromTrash(ids);
+                showUndoToast(\`已恢复 \${restored} 个Key\`, []);
+            } catch (error) {
+                alert('撤销失败: ' + error.message);
+            }
+        }
+
+        /** Summarises a batch-delete response and offers to undo the keys that were actually deleted. */
+        function showBatchDeleteResult(result) {
+            const deletedIds = result.results.filter(r => r.status === 'deleted').map(r => r.id);
+            const failed = result.results.length - deletedIds.length;
+            showUndoToast(\`已删除 \${deletedIds.length} 个Key\${failed > 0 ? \`，\${failed} 个未删除\` : ''}\`, deletedIds);
+        }
+
+        // Audit Log
+        const AUDIT_ACTION_LABELS = {
+            'login': '登录', 'login.failed': '登录失败',
+            'keys.add': '添加 Key', 'keys.update': '修改 Key 信息', 'keys.delete': '删除 Key', 'keys.batch_delete': '批量删除 Key',
+            'keys.list': '读取全部 Key', 'keys.export': '导出 Key', 'keys.reveal': '查看完整 Key', 'keys.reencrypt': '重新加密 Key',
+            'keys.lifecycle': 'Key 状态变化', 'keys.restore': '恢复隔离的 Key', 'keys.trash_restore': '从回收站恢复 Key', 'keys.purge': '彻底删除 Key',
+            'user.create': '创建用户', 'user.update': '修改用户', 'user.delete': '删除用户',
+            'token.create': '创建 Token', 'token.revoke': '吊销 Token'
+        };
+        let auditPage = 1;
+
+        async function loadAuditLog() {
+            const actionSelect = document.getElementById('auditAction');
+            if (actionSelect.options.length === 1) {
+                actionSelect.innerHTML += Object.entries(AUDIT_ACTION_LABELS).map(([action, label]) => \`<option value="\${action}">\${label}</option>\`).join('');
+            }
+
+            const params = new URLSearchParams({ page: auditPage });
+            if (actionSelect.value) params.set('action', actionSelect.value);
+            const actor = document.getElementById('auditActor').value.trim();
+            if (actor) params.set('actor', actor);
+
+            try {
+                const response = await fetch(\`/api/audit?\${params}\`);
+                const result = await response.json();
+                if (!response.ok) throw new Error(result.error || '加载审计日志失败');
+
+                document.getElementById('auditList').innerHTML = result.entries.length === 0
+                    ? '<div class="empty-hint">暂无记录</div>'
+                    : result.entries.map(entry => \`
+                        <div class="key-item">
+                            <div class="key-item-info">
+                                <div class="key-item-id">\${AUDIT_ACTION_LABELS[entry.action] || escapeHtml(entry.action)} · \${escapeHtml(entry.actorName || '-')}\${entry.tokenId ? ' (API Token)' : ''}</div>
+                                <div class="key-item-key">\${new Date(entry.createdAt).toLocaleString('zh-CN')} · \${escapeHtml(entry.ip || '-')} · \${escapeHtml(entry.userAgent || '-')}</div>
+                                \${entry.targets.length > 0 ? \`<div class="key-item-key">\${entry.targets.map(t => escapeHtml(t.key ? \`\${t.id} (\${t.key})\` : t.id)).join(', ')}</div>\` : ''}
+                                \${entry.details ? \`<div class="key-item-key">\${escapeHtml(JSON.stringify(entry.details))}</div>\` : ''}
+                            </div>
+                        </div>\`).join('');
+
+                const totalPages = Math.max(1, Math.ceil(result.total / result.pageSize));
+                document.getElementById('auditPageInfo').textContent = \`第 \${result.page} / \${totalPages} 页，共 \${result.total} 条\`;
+                document.getElementById('auditPrev').disabled = result.page <= 1;
+                document.getElementById('auditNext').disabled = result.page >= totalPages;
+            } catch (error) {
+                showMessage(error.message, true);
+            }
+        }
+
+        // API Tokens
+        function formatTokenTime(timestamp, fallback) {
+            return timestamp ? new Date(timestamp).toLocaleString('zh-CN') : fallback;
+        }
+
+        async function loadApiTokens() {
+            try {
+                const response = await fetch('/api/tokens');
+                const result = await response.json();
+                if (!response.ok) throw new Error(result.error || '加载 Token 失败');
+
+                document.getElementById('tokensList').innerHTML = result.tokens.length === 0
+                    ? '<div class="empty-hint">暂无 API Token</div>'
+                    : result.tokens.map(token => \`
+                        <div class="key-item">
+                            <div class="key-item-info">
+                                <div class="key-item-id">\${escapeHtml(token.name)}\${token.expiresAt && token.expiresAt < Date.now() ? ' (已过期)' : ''}</div>
+                                <div class="key-item-key">\${escapeHtml(token.tokenPrefix)}… · \${token.scopes.join(' ')} · 创建者 \${escapeHtml(token.username || '已删除')} · 过期 \${formatTokenTime(token.expiresAt, '永不')} · 最近使用 \${formatTokenTime(token.lastUsedAt, '从未')}</div>
+                            </div>
+                            <button class="btn btn-danger item-btn" onclick="deleteApiToken('\${token.id}')">吊销</button>
+                        </div>\`).join('');
+            } catch (error) {
+                showMessage(error.message, true);
+            }
+        }
+
+        async function addApiToken(event) {
+            event.preventDefault();
+            const expiresInDays = document.getElementById('tokenExpiresInDays').value;
+            const body = {
+                name: document.getElementById('tokenName').value.trim(),
+                scopes: [...document.querySelectorAll('input[name="tokenScope"]:checked')].map(input => input.value),
+                expiresInDays: expiresInDays ? Number(expiresInDays) : undefined
+            };
+            try {
+                const response = await fetch('/api/tokens', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(body)
+                });
+                const result = await response.json();
+                if (!response.ok) throw new Error(result.error || '创建失败');
+                document.getElementById('newTokenResult').innerHTML = \`
+                    <div class="success-msg">Token 已创建，仅显示这一次，请立即保存：
+                        <div class="key-item-key" style="white-space: normal; word-break: break-all;">\${escapeHtml(result.token)}</div>
+                    </div>\`;
+                event.target.reset();
+            } catch (error) {
+                showMessage(error.message, true);
+            } finally {
+                loadApiTokens();
+            }
+        }
+
+        async function deleteApiToken(id) {
+            if (!confirm('确定要吊销该 Token 吗？使用它的脚本将立即失效。')) return;
+            try {
+                const response = await fetch(\`/api/tokens/\${id}\`, { method: 'DELETE' });
+                const result = await response.json();
+                if (!response.ok) throw new Error(result.error || '吊销失败');
+                showMessage('Token 已吊销');
+            } catch (error) {
+                showMessage(error.message, true);
+            } finally {
+                loadApiTokens();
+            }
+        }
+
+        // User Management
+        async function loadUsers() {
+            try {
+                const response = await fetch('/api/users');
+                const result = await response.json();
+                if (!response.ok) throw new Error(result.error || '加载用户失败');
+
+                document.getElementById('usersList').innerHTML = result.users.length === 0
+                    ? '<div class="empty-hint">暂无用户，当前使用 EXPORT_PASSWORD 临时登录；请先创建一个管理员</div>'
+                    : result.users.map(user => \`
+                        <div class="key-item">
+                            <div class="key-item-info">
+                                <div class="key-item-id">\${escapeHtml(user.username)}\${currentUser && user.id === currentUser.id ? ' (当前用户)' : ''}</div>
+                            </div>
+                            <select class="role-select" onchange="saveUser('\${user.id}', { role: this.value })">
+                                \${Object.entries(ROLE_LABELS).map(([role, label]) => \`<option value="\${role}" \${role === user.role ? 'selected' : ''}>\${label}</option>\`).join('')}
+                            </select>
+                            <button class="btn btn-secondary item-btn" onclick="resetUserPassword('\${user.id}')">重置密码</button>
+                            <button class="btn btn-danger item-btn" onclick="deleteUser('\${user.id}')">删除</button>
+                        </div>\`).join('');
+            } catch (error) {
+                showMessage(error.message, true);
+            }
+        }
+
+        async function saveUser(id, changes, successMsg = '用户已更新') {
+            try {
+                const response = await fetch(id ? \`/api/users/\${id}\` : '/api/users', {
+                    method: id ? 'PUT' : 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(changes)
+                });
+                const result = await response.json();
+                if (!response.ok) throw new Error(result.error || '保存失败');
+                showMessage(successMsg);
+                return true;
+            } catch (error) {
+                showMessage(error.message, true);
+                return false;
+            } finally {
+                loadUsers();
+            }
+        }
+
+        async function addUser(event) {
+            event.preventDefault();
+            const user = {
+                username: document.getElementById('newUsername').value.trim(),
+                password: document.getElementById('newUserPassword').value,
+                role: document.getElementById('newUserRole').value
+            };
+            if (await saveUser(null, user, '用户已添加')) event.target.reset();
+        }
+
+        function resetUserPassword(id) {
+            const password = prompt('请输入新密码（至少 8 位）：');
+            if (password) saveUser(id, { password }, '密码已重置');
+        }
+
+        async function deleteUser(id) {
+            if (!confirm('确定要删除该用户吗？')) return;
+            try {
+                const response = await fetch(\`/api/users/\${id}\`, { method: 'DELETE' });
+                const result = await response.json();
+                if (!response.ok) throw new Error(result.error || '删除失败');
+                showMessage('用户已删除');
+            } catch (error) {
+                showMessage(error.message, true);
+            } finally {
+                loadUsers();
+            }
+        }
+
+        // Alert Rules and Webhooks
+        const ALERT_TYPE_LABELS = { key_used_ratio: 'Key 使用率', pool_remaining: '额度池剩余', key_error: 'Key 查询失败' };
+        const NOTIFIER_LABELS = { generic: '通用 Webhook', slack: 'Slack', feishu: '飞书', dingtalk: '钉钉', telegram: 'Telegram' };
+
+        function describeAlertRule(rule) {
+            if (rule.type === 'key_used_ratio') return \`使用率 ≥ \${(rule.threshold * 100).toFixed(0)}%\`;
+            if (rule.type === 'pool_remaining') return \`剩余 < \${formatNumber(rule.threshold)} Tokens\`;
+            return rule.match ? \`错误包含 "\${escapeHtml(rule.match)}"\` : '任意错误';
+        }
+
+        function updateAlertRuleForm() {
+            const type = document.getElementById('alertRuleType').value;
+            document.getElementById('alertRuleThresholdGroup').style.display = type === 'key_error' ? 'none' : '';
+            document.getElementById('alertRuleMatchGroup').style.display = type === 'key_error' ? '' : 'none';
+            document.getElementById('alertRuleThresholdLabel').textContent = type === 'pool_remaining' ? '阈值（Tokens）' : '阈值（%）';
+            document.getElementById('alertRuleThreshold').placeholder = type === 'pool_remaining' ? '1000000' : '80';
+        }
+
+        async function loadAlerts() {
+            try {
+                const response = await fetch('/api/alerts');
+                const result = await response.json();
+                if (!response.ok) throw new Error(result.error || '加载告警配置失败');
+
+                document.getElementById('alertRulesList').innerHTML = result.rules.length === 0
+                    ? '<div class="empty-hint">暂无告警规则</div>'
+                    : result.rules.map(rule => \`
+                        <div class="key-item">
+                            <div class="key-item-info">
+                                <div class="key-item-id">\${escapeHtml(rule.name)}\${rule.enabled ? '' : ' (已停用)'}</div>
+                                <div class="key-item-key">\${ALERT_TYPE_LABELS[rule.type] || rule.type} · \${describeAlertRule(rule)}</div>
+                            </div>
+                            <button class="btn btn-secondary item-btn" onclick="saveAlertConfig('/api/alerts/rules/\${rule.id}', 'PUT', { enabled: \${!rule.enabled} })">\${rule.enabled ? '停用' : '启用'}</button>
+                            <button class="btn btn-danger item-btn" onclick="deleteAlertConfig('/api/alerts/rules/\${rule.id}')">删除</button>
+                        </div>\`).join('');
+
+                document.getElementById('webhooksList').innerHTML = result.webhooks.length === 0
+                    ? '<div class="empty-hint">暂无通知渠道，告警不会被推送</div>'
+                    : result.webhooks.map(hook => \`
+                        <div class="key-item">
+                            <div class="key-item-info">
+                                <div class="key-item-id">\${NOTIFIER_LABELS[hook.type] || hook.type}\${hook.enabled ? '' : ' (已停用)'}</div>
+                                <div class="key-item-key" title="\${escapeHtml(hook.url)}">\${hook.type === 'telegram' ? 'Chat ' + escapeHtml(hook.chatId) : escapeHtml(hook.url)}\${hook.secret ? ' · 密钥 ' + escapeHtml(hook.secret) : ''}</div>
+                            </div>
+                            <button class="btn btn-primary item-btn" onclick="testWebhook('\${hook.id}', this)">发送测试</button>
+                            <button class="btn btn-secondary item-btn" onclick="saveAlertConfig('/api/alerts/webhooks/\${hook.id}', 'PUT', { enabled: \${!hook.enabled} })">\${hook.enabled ? '停用' : '启用'}</button>
+                            <button class="btn btn-danger item-btn" onclick="deleteAlertConfig('/api/alerts/webhooks/\${hook.id}')">删除</button>
+                        </div>\`).join('');
+            } catch (error) {
+                showMessage(error.message, true);
+            }
+        }
+
+        async function saveAlertConfig(url, method, body, successMsg = '已保存') {
+            try {
+                const response = await fetch(url, {
+                    method,
+                    headers: { 'Content-Type': 'application/json' },
+                    body: body ? JSON.stringify(body) : undefined
+                });
+                const result = await response.json();
+                if (!response.ok) throw new Error(result.error || '保存失败');
+                showMessage(successMsg);
+                loadAlerts();
+                return true;
+            } catch (error) {
+                showMessage(error.message, true);
+                return false;
+            }
+        }
+
+        async function deleteAlertConfig(url) {
+            if (!confirm('确定要删除吗？')) return;
+            await saveAlertConfig(url, 'DELETE', null, '已删除');
+        }
+
+        async function addAlertRule(event) {
+            event.preventDefault();
+            const type = document.getElementById('alertRuleType').value;
+            const threshold = Number(document.getElementById('alertRuleThreshold').value);
+            const rule = {
+                name: document.getElementById('alertRuleName').value.trim(),
+                type,
+                match: document.getElementById('alertRuleMatch').value.trim(),
+                threshold: type === 'key_used_ratio' ? threshold / 100 : type === 'pool_remaining' ? threshold : null
+            };
+            if (await saveAlertConfig('/api/alerts/rules', 'POST', rule, '告警规则已添加')) {
+                event.target.reset();
+                updateAlertRuleForm();
+            }
+        }
+
+        function updateWebhookForm() {
+            const type = document.getElementById('webhookType').value;
+            const isTelegram = type === 'telegram';
+            document.getElementById('webhookSecretGroup').style.display = ['feishu', 'dingtalk', 'telegram'].includes(type) ? '' : 'none';
+            document.getElementById('webhookChatIdGroup').style.display = isTelegram ? '' : 'none';
+            document.getElementById('webhookSecretLabel').textContent = isTelegram ? 'Bot Token' : '加签密钥（可选）';
+            document.getElementById('webhookUrlLabel').textContent = isTelegram ? 'Bot API 地址（可选）' : 'Webhook 地址';
+            document.getElementById('webhookUrl').placeholder = isTelegram ? 'https://api.telegram.org' : 'https://example.com/hooks/alert';
+        }
+
+        async function addWebhook(event) {
+            event.preventDefault();
+            const webhook = {
+                type: document.getElementById('webhookType').value,
+                url: document.getElementById('webhookUrl').value.trim(),
+                secret: document.getElementById('webhookSecret').value.trim(),
+                chatId: document.getElementById('webhookChatId').value.trim()
+            };
+            if (await saveAlertConfig('/api/alerts/webhooks', 'POST', webhook, '通知渠道已添加')) {
+                event.target.reset();
+                updateWebhookForm();
+            }
+        }
+
+        async function testWebhook(id, btn) {
+            btn.disabled = true;
+            try {
+                const response = await fetch(\`/api/alerts/webhooks/\${id}/test\`, { method: 'POST' });
+                const result = await response.json();
+                if (!response.ok) throw new Error(result.error || '发送失败');
+                showMessage('测试消息已发送');
+            } catch (error) {
+                showMessage(error.message, true);
+            } finally {
+                btn.disabled = false;
+            }
+        }
+
+        async function exportKeys(event) {
+            event.preventDefault();
+            const archivePassword = document.getElementById('exportArchivePassword').value;
+            const filters = {
+                tag: document.getElementById('exportTag').value.trim(),
+                status: document.getElementById('exportStatus').value,
+                min_remaining: document.getElementById('exportMinRemaining').value
+            };
+
+            const submitBtn = document.getElementById('exportSubmitBtn');
+            submitBtn.disabled = true;
+            submitBtn.textContent = '导出中...';
+
+            try {
+                const response = await fetch('/api/keys/export', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        password: document.getElementById('exportPassword').value,
+                        format: document.getElementById('exportFormat').value,
+                        filters,
+                        archivePassword: archivePassword || undefined
+                    })
+                });
+
+                if (!response.ok) {
+                    const result = await response.json().catch(() => ({}));
+                    return showMessage('导出失败: ' + (result.error || '未知错误'), true);
+                }
+
+                const filename = (response.headers.get('Content-Disposition') || '').match(/filename="([^"]+)"/)?.[1] || 'api_keys_export';
+                const url = URL.createObjectURL(await response.blob());
+                const a = Object.assign(document.createElement('a'), { href: url, download: filename });
+                document.body.appendChild(a);
+                a.click();
+                document.body.removeChild(a);
+                URL.revokeObjectURL(url);
+
+                document.getElementById('exportPassword').value = '';
+                document.getElementById('exportArchivePassword').value = '';
+                showMessage(\`成功导出 \${response.headers.get('X-Export-Count')} 个Key\${archivePassword ? '（已加密）' : ''}\`);
+            } catch (error) {
+                showMessage('网络错误: ' + error.message, true);
+            } finally {
+                submitBtn.disabled = false;
+                submitBtn.textContent = '导出';
+            }
+        }
+
+        async function deleteAllKeys() {
+            if (!currentApiData) return alert('请先加载数据');
+
+            const totalKeys = currentApiData.total_count;
+            if (totalKeys === 0) return alert('没有可删除的Key');
+
+            const confirmMsg = \`⚠️ 危险操作！\\n\\n确定要删除所有 \${totalKeys} 个Key吗？\\n删除后可在"Key 管理 → 回收站"中恢复。\`;
+            if (!confirm(confirmMsg)) return;
+
+            const secondConfirm = prompt('请输入 "确认删除" 以继续：');
+            if (secondConfirm !== '确认删除') return alert('操作已取消');
+
+            const deleteBtn = document.getElementById('deleteAllBtn');
+            deleteBtn.disabled = true;
+            deleteBtn.innerHTML = '<span>⏳ 删除中...</span>';
+
+            try {
+                const allIds = (await fetchAllKeyData('lifecycle=active,suspect,quarantined,archived')).map(item => item.id);
+                const response = await fetch('/api/keys/batch-delete', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ ids: allIds })
+                });
+
+                const result = await response.json();
+
+                if (response.ok) {
+                    showBatchDeleteResult(result);
+                    loadData(); // Refresh data
+                } else {
+                    alert('删除失败: ' + (result.error || '未知错误'));
+                }
+            } catch (error) {
+                alert('网络错误: ' + error.message);
+            } finally {
+                deleteBtn.disabled = false;
+                deleteBtn.innerHTML = '<span>🗑️ 删除所有</span>';
+            }
+        }
+
+        async function deleteZeroBalanceKeys() {
+            if (!currentApiData) return alert('请先加载数据');
+
+            // Only keys the server has quarantined: a transient error or a momentary zero balance never qualifies
+            let zeroBalanceKeys;
+            try {
+                zeroBalanceKeys = await fetchAllKeyData('lifecycle=quarantined');
+            } catch (error) {
+                return alert('网络错误: ' + error.message);
+            }
+
+            if (zeroBalanceKeys.length === 0) return alert('没有已隔离的Key');
+
+            const confirmMsg = \`确定要删除 \${zeroBalanceKeys.length} 个已隔离的Key吗？\\n\\n将删除以下Key ID:\\n\${zeroBalanceKeys.map(k => k.id).join('\\n')}\`;
+
+            if (!confirm(confirmMsg)) {
+                return;
+            }
+
+            const deleteBtn = document.getElementById('deleteZeroBtn');
+            deleteBtn.disabled = true;
+            deleteBtn.innerHTML = '<span>⏳ 删除中...</span>';
+
+            try {
+                const response = await fetch('/api/keys/batch-delete', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ ids: zeroBalanceKeys.map(k => k.id) })
+                });
+
+                const result = await response.json();
+
+                if (response.ok) {
+                    showBatchDeleteResult(result);
+                    loadData(); // Refresh data
+                } else {
+                    alert('删除失败: ' + (result.error || '未知错误'));
+                }
+            } catch (error) {
+                alert('网络错误: ' + error.message);
+            } finally {
+                deleteBtn.disabled = false;
+                deleteBtn.innerHTML = '<span>🗑️ 删除无效</span>';
+            }
+        }
+
+        // Import
+        const IMPORT_STATUS_LABELS = {
+            duplicate: '重复', invalid_format: '格式错误', unauthorized: '无效 / 未授权', error: '校验失败', unchecked: '未校验'
+        };
+        const IMPORT_STATUS_CLASSES = {
+            added: 'health-healthy', duplicate: 'health-exhausted', invalid_format: 'health-malformed',
+            unauthorized: 'health-revoked', error: 'health-upstream_down', unchecked: ''
+        };
+
+        async function loadImportFile(input) {
+            const file = input.files[0];
+            if (!file) return;
+
+            const extension = file.name.split('.').pop().toLowerCase();
+            document.getElementById('importFormat').value = ['csv', 'json', 'env'].includes(extension) ? extension : '';
+            document.getElementById('batchKeysInput').value = await file.text();
+            document.getElementById('importResults').innerHTML = '';
+        }
+
+        function clearImport() {
+            document.getElementById('batchKeysInput').value = '';
+            document.getElementById('importFile').value = '';
+            document.getElementById('importFormat').value = '';
+            document.getElementById('importResults').innerHTML = '';
+        }
+
+        function renderImportResults(result) {
+            const addedLabel = result.dryRun ? '可导入' : '已导入';
+            document.getElementById('importResults').innerHTML = \`
+                <table>
+                    <thead><tr><th>行</th><th>Key</th><th>结果</th><th>说明</th></tr></thead>
+                    <tbody>
+                        \${result.results.map(item => \`
+                            <tr>
+                                <td>\${item.line}</td>
+                                <td class="key-cell">\${escapeHtml(item.key || '-')}</td>
+                                <td><span class="health-badge \${IMPORT_STATUS_CLASSES[item.status] || ''}">\${item.status === 'added' ? addedLabel : IMPORT_STATUS_LABELS[item.status] || escapeHtml(item.status)}</span></td>
+                                <td>\${escapeHtml(item.error || '')}</td>
+                            </tr>\`).join('')}
+                    </tbody>
+                </table>\`;
+        }
+
+        async function batchImportKeys(dryRun) {
+            const content = document.getElementById('batchKeysInput').value.trim();
+            if (!content) return showMessage('请输入或上传要导入的 Keys', true);
+
+            const params = new URLSearchParams();
+            const format = document.getElementById('importFormat').value;
+            if (format) params.set('format', format);
+            if (dryRun) params.set('dry_run', '1');
+
+            try {
+                // A dry run checks one chunk of keys per request; repeat with next_cursor and keep each
+                // line's result from the request that checked it
+                const lines = new Map();
+                let result;
+                do {
+                    const response = await fetch(\`/api/keys/import?\${params}\`, {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'text/plain' },
+                        body: content
+                    });
+
+                    result = await response.json();
+                    if (!response.ok) return showMessage(result.error || '批量导入失败', true);
+
+                    result.results.forEach(item => {
+                        if (item.status !== 'unchecked' || !lines.has(item.line)) lines.set(item.line, item);
+                    });
+                    if (result.next_cursor) {
+                        params.set('cursor', result.next_cursor);
+                        showMessage(\`正在校验 Key… 已处理 \${[...lines.values()].filter(item => item.status !== 'unchecked').length} / \${lines.size} 行\`);
+                    }
+                } while (result.next_cursor);
+
+                result.results = [...lines.values()];
+                result.added = result.results.filter(item => item.status === 'added').length;
+                result.skipped = result.results.length - result.added;
+                renderImportResults(result);
+                if (dryRun) {
+                    showMessage(\`预览：\${result.added} 个 Key 可以导入\${result.skipped > 0 ? \`，\${result.skipped} 个将被跳过\` : ''}，尚未保存\`);
+                } else {
+                    showMessage(\`成功导入 \${result.added} 个 Key\${result.skipped > 0 ? \`，跳过 \${result.skipped} 个\` : ''}\`);
+                    if (result.skipped === 0) document.getElementById('batchKeysInput').value = '';
+                    if (result.added > 0) loadData(); // Refresh main data
+                }
+            } catch (error) {
+                showMessage('网络错误: ' + error.message, true);
+            }
+        }
+
+        async function deleteKeyFromTable(id) {
+            if (!confirm(\`确定要删除 Key "\${id}" 吗？\`)) return;
+
+            try {
+                const response = await fetch(\`/api/keys/\${id}\`, { method: 'DELETE' });
+                const result = await response.json();
+
+                if (response.ok) {
+                    showUndoToast(\`Key "\${id}" 已删除\`, [id]);
+                    loadData();
+                } else {
+                    alert('删除失败: ' + (result.error || '未知错误'));
+                }
+            } catch (error) {
+                alert('网络错误: ' + error.message);
+            }
+        }
+
+        async function restoreKey(id) {
+            try {
+                const response = await fetch(\`/api/keys/\${id}/restore\`, { method: 'POST' });
+                const result = await response.json();
+                if (!response.ok) throw new Error(result.error || '恢复失败');
+                loadData();
+            } catch (error) {
+                alert('恢复失败: ' + error.message);
+            }
+        }
+
+        async function refreshSingleKey(id) {
+            const row = document.getElementById(\`key-row-\${id}\`);
+            if (!row) return alert('找不到对应的行');
+
+            const cells = row.querySelectorAll('td');
+            const originalContent = [];
+            cells.forEach((cell, index) => {
+                originalContent[index] = cell.innerHTML;
+                if (index > 1 && index < cells.length - 1) {
+                    cell.innerHTML = '<span style="color: #6c757d;">⏳ 刷新中...</span>';
+                }
+            });
+
+            try {
+                const response = await fetch(\`/api/keys/\${id}/refresh\`, {
+                    method: 'POST'
+                });
+
+                const result = await response.json();
+
+                if (response.ok && result.data) {
+                    const item = result.data;
+                    
+                    if (item.error) {
+                        cells[2].innerHTML = '<span class="error-row">加载失败: ' + item.error + '</span>';
+                        cells[3].colSpan = 5;
+                        for (let i = 4; i < cells.length - 1; i++) cells[i].style.display = 'none';
+                    } else {
+                        [cells[2].innerHTML, cells[3].innerHTML, cells[4].innerHTML, 
+                         cells[5].innerHTML, cells[6].innerHTML, cells[7].innerHTML] = 
+                        [item.startDate || '-', item.endDate || '-', formatAmount(item.totalAllowance, item.unit),
+                         formatAmount(item.orgTotalTokensUsed, item.unit), formatAmount(getRemaining(item), item.unit), formatPercentage(item.usedRatio)];
+                        
+                        for (let i = 2; i < cells.length - 1; i++) {
+                            cells[i].style.display = '';
+                            cells[i].colSpan = 1;
+                        }
+                    }
+                    loadData();
+                } else {
+                    alert('刷新失败: ' + (result.error || '未知错误'));
+                    cells.forEach((cell, index) => cell.innerHTML = originalContent[index]);
+                }
+            } catch (error) {
+                alert('网络错误: ' + error.message);
+                cells.forEach((cell, index) => cell.innerHTML = originalContent[index]);
+            }
+        }
+
+        document.addEventListener('click', (event) => {
+            const modal = document.getElementById('manageModal');
+            if (event.target === modal) closeManageModal();
+        });
+    </script>
+</body>
+</html>
+`;  
+  
+  
+// ==================== API Data Fetching ====================
+
+/**
+ * Batch process promises with concurrency control to avoid rate limiting. Each batch is as large as
+ * the limiter currently allows, so rate-limited responses seen by the processor shrink later batches.
+ */
+async function batchProcess<T, R>(
+  items: T[],
+  processor: (item: T) => Promise<R>,
+  limiter: AdaptiveConcurrency = new AdaptiveConcurrency(10),
+  delayMs: number = 100
+): Promise<R[]> {
+  const results: R[] = [];
+  
+  for (let i = 0; i < items.length;) {
+    const batch = items.slice(i, i + limiter.limit);
+    const batchResults = await Promise.all(batch.map(processor));
+    results.push(...batchResults);
+    i += batch.length;
+    
+    // Add delay between batches to avoid rate limiting, longer while the upstream asked us to back off
+    if (i < items.length) {
+      await new Promise(resolve => setTimeout(resolve, Math.max(delayMs, limiter.pauseMs)));
+    }
+  }
+  
+  return results;
+}
+
+/**
+ * Reads PROVIDER_BASE_URLS, a JSON object of provider ID to base URL; unknown providers and
+ * malformed values are ignored so a typo never stops the refresh.
+ */
+function getUpstreamOptions(env: Env): Partial<UpstreamClientOptions> {
+  if (!env.PROVIDER_BASE_URLS) return {};
+
+  try {
+    const parsed = JSON.parse(env.PROVIDER_BASE_URLS) as Record<string, unknown>;
+    const baseUrls = Object.fromEntries(Object.entries(parsed).filter(([id, url]) => isProviderId(id) && typeof url === 'string' && url));
+    return { baseUrls };
+  } catch {
+    console.error('PROVIDER_BASE_URLS is not valid JSON, using the default endpoints');
+    return {};
+  }
+}
+
+/**
+ * Fetches usage data for a single API key from its provider through the upstream client (retries,
+ * timeouts and backoff happen there).
+ */
+async function fetchApiKeyData(
+  id: string,
+  key: string,
+  provider: ProviderId,
+  limiter?: AdaptiveConcurrency,
+  options?: Partial<UpstreamClientOptions>
+): Promise<ApiKeyResult> {
+  const maskedKey = maskApiKey(key);
+  const result = await fetchUsage(PROVIDERS[provider], key, limiter, options);
+
+  if (isUpstreamError(result)) {
+    return { id, key: maskedKey, provider, error: result.message, code: result.code };
+  }
+
+  const { usage } = result;
+  return {
+    id,
+    key: maskedKey,
+    provider,
+    unit: usage.unit,
+    startDate: usage.startDate === null ? '' : formatDate(usage.startDate),
+    endDate: usage.endDate === null ? '' : formatDate(usage.endDate),
+    orgTotalTokensUsed: usage.orgTotalTokensUsed,
+    totalAllowance: usage.totalAllowance,
+    usedRatio: usage.usedRatio,
+    tiers: usage.tiers,
+  };
+}
+
+// ==================== Type Guards ====================
+
+const isApiUsageData = (result: ApiKeyResult): result is ApiUsageData => !('error' in result);
+
+// Results cached before providers existed are Factory token usage
+const getUsageUnit = (result: ApiUsageData): UsageUnit => result.unit ?? 'tokens';
+
+/**
+ * A key's usage tiers. Token results cached before tiers were tracked only carried the standard
+ * tier, which is also what their figures are.
+ */
+const getUsageTiers = (result: ApiUsageData): Record<string, UsageTier> => result.tiers ?? (getUsageUnit(result) === 'tokens'
+  ? { standard: { orgTotalTokensUsed: result.orgTotalTokensUsed, totalAllowance: result.totalAllowance ?? 0, usedRatio: result.usedRatio ?? 0 } }
+  : {});
+
+/** Whether the provider reports a limit; only then do the used ratio, totals and forecasts apply. */
+const hasAllowance = (result: ApiUsageData): boolean => result.totalAllowance !== null;
+
+/** Remaining allowance, or null when the provider reports spend without a limit. */
+const getRemaining = (result: ApiUsageData): number | null =>
+  result.totalAllowance === null ? null : Math.max(0, result.totalAllowance - result.orgTotalTokensUsed);
+
+// Results cached before lifecycles existed have no state and count as active
+const isInService = (lifecycle?: KeyLifecycleState): boolean => !lifecycle || lifecycle === 'active' || lifecycle === 'suspect';
+
+// ==================== Data Aggregation ====================
+
+/**
+ * Assembles the aggregated response from every key's latest stored result. The returned timestamp is
+ * the oldest of those results, so the cache age reflects the least recently refreshed key.
+ */
+async function buildAggregatedData(store: KeyStore, totalCount: number): Promise<{ data: AggregatedResponse; refreshedAt: number }> {
+  const rows = await getKeyResults(store);
+  const results = rows.map(row => row.result);
+
+  const validResults = results.filter(isApiUsageData);
+  const sortedValid = validResults
+    .map(r => ({ ...r, remaining: getRemaining(r) ?? 0 }))
+    .sort((a, b) => b.remaining - a.remaining)
+    .map(({ remaining, ...rest }) => rest);
+
+  const totals = computeTotals(validResults);
+  const forecast = await attachForecasts(store, sortedValid, totals);
+
+  return {
+    data: {
+      update_time: formatBeijingTime(getBeijingTime(), "yyyy-MM-dd HH:mm:ss"),
+      total_count: totalCount,
+      totals,
+      totals_by_unit: computeTotalsByUnit(validResults),
+      forecast,
+      data: [...sortedValid, ...results.filter(r => 'error' in r)],
+    },
+    refreshedAt: rows.length > 0 ? Math.min(...rows.map(row => row.refreshedAt)) : Date.now(),
+  };
+}
+
+/**
+ * Sums usage over in-service keys counted in `unit` (tokens by default); quarantined and archived
+ * keys are left out of the pool, and so are keys without a limit, whose spend would otherwise count
+ * against other keys' allowances. Tiers are summed by name next to the overall figures.
+ */
+function computeTotals(results: ApiUsageData[], unit: UsageUnit = 'tokens'): UsageTotals {
+  const pool = results.filter(res => isInService(res.lifecycle) && hasAllowance(res) && getUsageUnit(res) === unit);
+  const totals: UsageTotals = pool.reduce((acc, res) => ({
+    total_orgTotalTokensUsed: acc.total_orgTotalTokensUsed + res.orgTotalTokensUsed,
+    total_totalAllowance: acc.total_totalAllowance + (res.totalAllowance ?? 0),
+    totalRemaining: acc.totalRemaining + (getRemaining(res) ?? 0)
+  }), { total_orgTotalTokensUsed: 0, total_totalAllowance: 0, totalRemaining: 0 });
+
+  const tiers: Record<string, UsageTierTotals> = {};
+  for (const res of pool) {
+    for (const [name, tier] of Object.entries(getUsageTiers(res))) {
+      const acc = tiers[name] ??= { total_orgTotalTokensUsed: 0, total_totalAllowance: 0, totalRemaining: 0 };
+      acc.total_orgTotalTokensUsed += tier.orgTotalTokensUsed;
+      acc.total_totalAllowance += tier.totalAllowance;
+      acc.totalRemaining += Math.max(0, tier.totalAllowance - tier.orgTotalTokensUsed);
+    }
+  }
+
+  return Object.keys(tiers).length > 0 ? { ...totals, tiers } : totals;
+}
+
+/**
+ * Totals for each unit the in-service keys with a limit use.
+ */
+function computeTotalsByUnit(results: ApiUsageData[]): Partial<Record<UsageUnit, UsageTotals>> {
+  const units = new Set(results.filter(res => isInService(res.lifecycle) && hasAllowance(res)).map(getUsageUnit));
+  return Object.fromEntries([...units].map(unit => [unit, computeTotals(results, unit)]));
+}
+
+// ==================== Data Query ====================
+
+function getKeyStatus(result: ApiKeyResult): KeyStatus {
+  if (!isApiUsageData(result)) return 'error';
+  return getRemaining(result) !== 0 ? 'valid' : 'exhausted';
+}
+
+const ERROR_CODE_CLASSES: Record<UpstreamErrorCode, KeyErrorClass> = {
+  unauthorized: 'revoked',
+  forbidden: 'revoked',
+  rate_limited: 'rate_limited',
+  upstream_error: 'upstream_down',
+  network_error: 'upstream_down',
+  timeout: 'timeout',
+  invalid_response: 'malformed',
+  http_error: 'malformed',
+};
+
+function classifyKeyError(result: ApiErrorData): KeyErrorClass {
+  if (result.code) return ERROR_CODE_CLASSES[result.code];
+
+  // Results stored before error codes existed only carry the message
+  const status = Number(/^HTTP (\d+)$/.exec(result.error)?.[1]);
+  if (status === 401 || status === 403) return 'revoked';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500 || result.error === 'Failed to fetch') return 'upstream_down';
+  return 'malformed';
+}
+
+function getKeyHealth(result: ApiKeyResult): KeyHealth {
+  if (!isApiUsageData(result)) return classifyKeyError(result as ApiErrorData);
+  return getRemaining(result) !== 0 ? 'healthy' : 'exhausted';
+}
+
+/**
+ * Parses /api/data query parameters. Returns null when none are given (the legacy full response),
+ * or an error message when a parameter is invalid.
+ */
+// Opaque cursors over a list position, used by /api/data pages and import dry runs
+const encodeOffsetCursor = (offset: number): string => toBase64Url(textEncoder.encode(String(offset)));
+
+function decodeOffsetCursor(cursor: string): number | null {
+  try {
+    const offset = Number(textDecoder.decode(fromBase64Url(cursor)));
+    return Number.isInteger(offset) && offset >= 0 ? offset : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseDataQuery(params: URLSearchParams): DataQuery | null | string {
+  const known = ['status', 'health', 'lifecycle', 'provider', 'error_days', 'tag', 'q', 'key', 'min_remaining', 'sort', 'order', 'limit', 'cursor'];
+  if (!known.some(name => params.has(name))) return null;
+
+  const status = params.get('status') || undefined;
+  if (status && !(CONFIG.KEY_STATUSES as readonly string[]).includes(status)) {
+    return `status must be one of ${CONFIG.KEY_STATUSES.join(', ')}`;
+  }
+  const health = params.get('health')?.split(',').map(value => value.trim()).filter(Boolean);
+  if (health?.some(value => !(CONFIG.KEY_HEALTH_STATES as readonly string[]).includes(value))) {
+    return `health must be a comma-separated list of ${CONFIG.KEY_HEALTH_STATES.join(', ')}`;
+  }
+  const lifecycle = params.get('lifecycle')?.split(',').map(value => value.trim()).filter(Boolean);
+  if (lifecycle?.some(value => !(CONFIG.KEY_LIFECYCLE_STATES as readonly string[]).includes(value))) {
+    return `lifecycle must be a comma-separated list of ${CONFIG.KEY_LIFECYCLE_STATES.join(', ')}`;
+  }
+  const provider = params.get('provider')?.split(',').map(value => value.trim()).filter(Boolean);
+  if (provider?.some(value => !isProviderId(value))) {
+    return `provider must be a comma-separated list of ${PROVIDER_IDS.join(', ')}`;
+  }
+  const errorDaysParam = params.get('error_days');
+  const errorDays = errorDaysParam ? Number(errorDaysParam) : undefined;
+  if (errorDays !== undefined && !(errorDays > 0)) return "error_days must be a positive number";
+  const minRemainingParam = params.get('min_remaining');
+  const minRemaining = minRemainingParam ? Number(minRemainingParam) : undefined;
+  if (minRemaining !== undefined && !(minRemaining >= 0)) return "min_remaining must be a non-negative number";
+  const sort = params.get('sort') || 'remaining';
+  if (!(CONFIG.DATA_SORT_FIELDS as readonly string[]).includes(sort)) {
+    return `sort must be one of ${CONFIG.DATA_SORT_FIELDS.join(', ')}`;
+  }
+  const order = params.get('order') || 'desc';
+  if (order !== 'asc' && order !== 'desc') return "order must be asc or desc";
+
+  const limitParam = params.get('limit');
+  const limit = limitParam ? Number(limitParam) : undefined;
+  if (limit !== undefined && !(Number.isInteger(limit) && limit > 0 && limit <= CONFIG.DATA_MAX_PAGE_SIZE)) {
+    return `limit must be an integer between 1 and ${CONFIG.DATA_MAX_PAGE_SIZE}`;
+  }
+
+  const cursor = params.get('cursor');
+  const offset = cursor ? decodeOffsetCursor(cursor) : 0;
+  if (offset === null) return "Invalid cursor";
+
+  return {
+    status: status as KeyStatus | undefined,
+    health: health?.length ? health as KeyHealth[] : undefined,
+    lifecycle: lifecycle?.length ? lifecycle as KeyLifecycleState[] : undefined,
+    provider: provider?.length ? provider as ProviderId[] : undefined,
+    errorDays,
+    tag: params.get('tag')?.trim() || undefined,
+    search: params.get('q')?.trim() || undefined,
+    keyPrefix: params.get('key')?.trim() || undefined,
+    minRemaining,
+    sort: sort as DataSortField,
+    order,
+    limit,
+    offset,
+  };
+}
+
+function getSortValue(result: ApiKeyResult, field: DataSortField): number | string | null {
+  if (field === 'label') return result.label?.toLowerCase() ?? null;
+  if (!isApiUsageData(result)) return null;
+  switch (field) {
+    case 'remaining': return getRemaining(result);
+    case 'used': return result.orgTotalTokensUsed;
+    case 'allowance': return result.totalAllowance;
+    case 'usedRatio': return result.usedRatio;
+    case 'exhaustsAt': return result.forecast?.exhaustsAt ?? null;
+  }
+}
+
+/**
+ * Whether a key passes the filters of a data query. Archived keys only match when `lifecycle` asks
+ * for them.
+ */
+function matchesDataQuery(result: ApiKeyResult, query: DataQuery, now = Date.now()): boolean {
+  const search = query.search?.toLowerCase();
+  const tag = query.tag?.toLowerCase();
+
+  if (query.status && getKeyStatus(result) !== query.status) return false;
+  if (query.health && !query.health.includes(getKeyHealth(result))) return false;
+  if (query.lifecycle ? !query.lifecycle.includes(result.lifecycle ?? 'active') : result.lifecycle === 'archived') return false;
+  if (query.provider && !query.provider.includes(result.provider ?? DEFAULT_PROVIDER)) return false;
+  if (query.errorDays && !(result.errorSince && result.errorSince <= now - query.errorDays * 24 * 60 * 60 * 1000)) return false;
+  if (tag && !(result.tags || []).some(t => t.toLowerCase() === tag)) return false;
+  if (query.keyPrefix && !result.key.startsWith(query.keyPrefix)) return false;
+  if (query.minRemaining !== undefined && !(isApiUsageData(result) && (getRemaining(result) ?? -1) >= query.minRemaining)) {
+    return false;
+  }
+  if (search) {
+    const haystack = [result.label, result.owner, result.notes, ...(result.tags || [])].filter(Boolean).join('\n').toLowerCase();
+    if (!haystack.includes(search)) return false;
+  }
+  return true;
+}
+
+/**
+ * Filters, sorts and paginates aggregated data. Totals are recomputed over the filtered set (before
+ * pagination); the pool forecast still describes the whole pool.
+ */
+function applyDataQuery(data: AggregatedResponse, query: DataQuery): AggregatedResponse {
+  const now = Date.now();
+  const filtered = data.data.filter(result => matchesDataQuery(result, query, now));
+
+  // Results without a value for the sort field (e.g. errored keys) always go last
+  const direction = query.order === 'asc' ? 1 : -1;
+  const sorted = filtered
+    .map(result => ({ result, value: getSortValue(result, query.sort) }))
+    .sort((a, b) => {
+      if (a.value === null || b.value === null) return a.value === b.value ? 0 : a.value === null ? 1 : -1;
+      return (a.value < b.value ? -1 : a.value > b.value ? 1 : 0) * direction;
+    })
+    .map(({ result }) => result);
+
+  const end = query.limit ? query.offset + query.limit : sorted.length;
+  return {
+    ...data,
+    totals: computeTotals(filtered.filter(isApiUsageData)),
+    totals_by_unit: computeTotalsByUnit(filtered.filter(isApiUsageData)),
+    filtered_count: filtered.length,
+    next_cursor: end < sorted.length ? encodeOffsetCursor(end) : null,
+    data: sorted.slice(query.offset, end),
+  };
+}
+
+// ==================== Burn-Rate Forecasting ====================
+
+/**
+ * Rounds tokens to whole numbers and money to cents.
+ */
+function roundAmount(value: number, unit: UsageUnit): number {
+  return unit === 'tokens' ? Math.round(value) : Math.round(value * 100) / 100;
+}
+
+/**
+ * Projects when usage runs out given a remaining balance and an hourly burn rate.
+ */
+function projectExhaustion(remaining: number, burnRatePerHour: number, now: number): number | null {
+  if (remaining <= 0) return now;
+  if (burnRatePerHour <= 0) return null;
+  return now + (remaining / burnRatePerHour) * 60 * 60 * 1000;
+}
+
+/**
+ * Attaches a per-key forecast to each result and returns the forecast for the whole pool.
+ * The burn rate compares live usage with the oldest snapshot of the same usage window
+ * (matching startDate) inside the lookback period, so allowance resets never count as negative burn.
+ * Keys without a limit never run out and get no forecast.
+ */
+async function attachForecasts(store: KeyStore, results: ApiUsageData[], totals: UsageTotals): Promise<UsageForecast> {
+  const now = Date.now();
+  const baselines = await store.getEarliestSnapshotsSince(now - CONFIG.FORECAST_LOOKBACK_HOURS * 60 * 60 * 1000);
+  const baselineByKey = new Map(baselines.map(b => [`${b.keyId}|${b.startDate}`, b]));
+  let poolBurnRate = 0;
+
+  for (const result of results) {
+    if (!hasAllowance(result)) continue;
+    const baseline = baselineByKey.get(`${result.id}|${result.startDate}`);
+    const spanHours = baseline ? (now - baseline.capturedAt) / (60 * 60 * 1000) : 0;
+    if (!baseline || spanHours * 60 < CONFIG.FORECAST_MIN_SPAN_MINUTES) continue;
+
+    const burnRatePerHour = Math.max(0, (result.orgTotalTokensUsed - baseline.orgTotalTokensUsed) / spanHours);
+    const remaining = getRemaining(result);
+    const exhaustsAt = projectExhaustion(remaining, burnRatePerHour, now);
+    // endDate only has day precision, treat the window as ending at the close of that (UTC) day
+    const windowEnd = Date.parse(result.endDate) + 24 * 60 * 60 * 1000;
+
+    result.forecast = {
+      burnRatePerHour: roundAmount(burnRatePerHour, getUsageUnit(result)),
+      exhaustsAt: exhaustsAt === null ? null : formatBeijingTime(getBeijingTime(exhaustsAt), "yyyy-MM-dd HH:mm:ss"),
+      withinWindow: exhaustsAt !== null && (Number.isNaN(windowEnd) || exhaustsAt <= windowEnd),
+    };
+    // The pool forecast goes with `totals`, which only count tokens
+    if (remaining > 0 && getUsageUnit(result) === 'tokens') poolBurnRate += burnRatePerHour;
+  }
+
+  const poolExhaustsAt = projectExhaustion(totals.totalRemaining, poolBurnRate, now);
+  return {
+    burnRatePerHour: Math.round(poolBurnRate),
+    exhaustsAt: poolExhaustsAt === null ? null : formatBeijingTime(getBeijingTime(poolExhaustsAt), "yyyy-MM-dd HH:mm:ss"),
+  };
+}
+
+/**
+ * Logs how many keys still have remaining balance; keys themselves stay out of the runtime logs.
+ */
+function logKeysWithBalance(validResults: ApiUsageData[]): void {
+  const keysWithBalance = validResults.filter(r => getRemaining(r) > 0);
+
+  if (keysWithBalance.length > 0) {
+    console.log(`📋 剩余额度大于0的API Keys: ${keysWithBalance.length} 个`);
+  } else {
+    console.log("⚠️  没有剩余额度大于0的API Keys");
+  }
+}
+
+
+// ==================== Alerting ====================
+
+/**
+ * Evaluates a single rule against the aggregated data.
+ * `evaluated` lists the targets whose condition could be determined; only those may resolve.
+ */
+function evaluateAlertRule(rule: AlertRule, data: AggregatedResponse): { matches: AlertEvent[]; evaluated: string[] } {
+  const matches: AlertEvent[] = [];
+  const evaluated: string[] = [];
+  const base = { ruleId: rule.id, ruleName: rule.name, type: rule.type, threshold: rule.threshold };
+
+  if (rule.type === 'pool_remaining') {
+    evaluated.push('pool');
+    const remaining = data.totals.totalRemaining;
+    if (data.total_count > 0 && remaining < (rule.threshold ?? 0)) {
+      matches.push({
+        ...base,
+        target: 'pool',
+        value: remaining,
+        message: `额度池剩余 ${remaining} Tokens，低于阈值 ${rule.threshold}`,
+      });
+    }
+    return { matches, evaluated };
+  }
+
+  for (const item of data.data) {
+    const key = maskApiKey(item.key);
+
+    if (rule.type === 'key_error') {
+      evaluated.push(item.id);
+      if ('error' in item && (!rule.match || item.code === rule.match || getKeyHealth(item) === rule.match || item.error.includes(rule.match))) {
+        matches.push({ ...base, target: item.id, key, value: item.error, message: `Key ${key} 查询失败：${item.error}` });
+      }
+    } else if (isApiUsageData(item) && hasAllowance(item)) {
+      // Keys that currently error keep their used-ratio alert state untouched; keys without a limit have no ratio
+      evaluated.push(item.id);
+      if (item.usedRatio >= (rule.threshold ?? 1)) {
+        matches.push({
+          ...base,
+          target: item.id,
+          key,
+          value: item.usedRatio,
+          message: `Key ${key} 使用率 ${(item.usedRatio * 100).toFixed(2)}% 已达到阈值 ${((rule.threshold ?? 1) * 100).toFixed(0)}%`,
+        });
+      }
+    }
+  }
+
+  return { matches, evaluated };
+}
+
+// ==================== Notification Channels ====================
+
+/**
+ * Computes a base64 HMAC-SHA256 signature, as required by DingTalk and Feishu robots.
+ */
+async function hmacSha256Base64(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    textEncoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toBase64(await crypto.subtle.sign('HMAC', key, textEncoder.encode(message)));
+}
+
+/**
+ * Builds the request URL and body in the message schema of the webhook's platform.
+ * Alert messages only ever contain masked keys (see evaluateAlertRule).
+ */
+async function buildNotification(
+  webhook: AlertWebhook,
+  alerts: AlertEvent[],
+  firedAt: string
+): Promise<{ url: string; body: unknown }> {
+  const title = `🔔 API 余额告警（${alerts.length} 条）`;
+  const lines = alerts.map(a => `• [${a.ruleName}] ${a.message}`);
+
+  switch (webhook.type) {
+    case 'slack':
+      return {
+        url: webhook.url,
+        body: {
+          text: `${title}\n${lines.join('\n')}`,
+          blocks: [
+            { type: 'header', text: { type: 'plain_text', text: title } },
+            { type: 'section', text: { type: 'mrkdwn', text: lines.join('\n') } },
+            { type: 'context', elements: [{ type: 'mrkdwn', text: `触发时间：${firedAt}` }] },
+          ],
+        },
+      };
+
+    case 'feishu': {
+      const body: Record<string, unknown> = {
+        msg_type: 'interactive',
+        card: {
+          header: { template: 'red', title: { tag: 'plain_text', content: title } },
+          elements: [
+            { tag: 'div', text: { tag: 'lark_md', content: lines.join('\n') } },
+            { tag: 'note', elements: [{ tag: 'plain_text', content: `触发时间：${firedAt}` }] },
+          ],
+        },
+      };
+      if (webhook.secret) {
+        // Feishu signs an empty message with `timestamp\nsecret` as the key
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        body.timestamp = timestamp;
+        body.sign = await hmacSha256Base64(`${timestamp}\n${webhook.secret}`, '');
+      }
+      return { url: webhook.url, body };
+    }
+
+    case 'dingtalk': {
+      let url = webhook.url;
+      if (webhook.secret) {
+        const timestamp = Date.now().toString();
+        const sign = await hmacSha256Base64(webhook.secret, `${timestamp}\n${webhook.secret}`);
+        url += `${url.includes('?') ? '&' : '?'}timestamp=${timestamp}&sign=${encodeURIComponent(sign)}`;
+      }
+      return {
+        url,
+        body: {
+          msgtype: 'markdown',
+          markdown: { title, text: `### ${title}\n\n${lines.join('\n\n')}\n\n> 触发时间：${firedAt}` },
+        },
+      };
+    }
+
+    case 'telegram':
+      return {
+        url: `${(webhook.url || CONFIG.TELEGRAM_API_BASE).replace(/\/+$/, '')}/bot${webhook.secret}/sendMessage`,
+        body: {
+          chat_id: webhook.chatId,
+          text: `${title}\n\n${lines.join('\n')}\n\n触发时间：${firedAt}`,
+          disable_web_page_preview: true,
+        },
+      };
+
+    default:
+      return { url: webhook.url, body: { event: 'alert', fired_at: firedAt, alerts } };
+  }
+}
+
+/**
+ * Sends alerts to a single notification channel.
+ * Robot APIs report failures inside a 200 response, so their error codes are checked too.
+ */
+async function sendNotification(webhook: AlertWebhook, alerts: AlertEvent[], firedAt: string): Promise<void> {
+  const { url, body } = await buildNotification(webhook, alerts, firedAt);
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  if (webhook.type === 'generic' || webhook.type === 'slack') return;
+
+  const result = await response.json().catch(() => null) as
+    { errcode?: number; errmsg?: string; code?: number; msg?: string; ok?: boolean; description?: string } | null;
+  if (result?.errcode) throw new Error(result.errmsg || `errcode ${result.errcode}`);
+  if (result?.code) throw new Error(result.msg || `code ${result.code}`);
+  if (result?.ok === false) throw new Error(result.description || 'Telegram API error');
+}
+
+/**
+ * Evaluates every enabled rule, notifies webhooks about newly matching conditions and
+ * records the alert state so a condition that keeps holding is not re-sent every run.
+ */
+async function evaluateAlerts(store: KeyStore, data: AggregatedResponse): Promise<AlertEvent[]> {
+  const rules = (await store.getAlertRules()).filter(r => r.enabled);
+  if (rules.length === 0) return [];
+
+  // Archived keys are no longer refreshed, so their last error would alert forever. Quarantined keys
+  // still are (see isRefreshDue) and keep alerting when they recover or fail differently.
+  data = { ...data, data: data.data.filter(result => result.lifecycle !== 'archived') };
+
+  const now = Date.now();
+  const states = await store.getAlertStates();
+  const toSend: AlertEvent[] = [];
+  const resolved: { ruleId: string; target: string }[] = [];
+
+  for (const rule of rules) {
+    const { matches, evaluated } = evaluateAlertRule(rule, data);
+    const matchedTargets = new Set(matches.map(m => m.target));
+
+    for (const match of matches) {
+      const firedAt = states.get(`${rule.id}|${match.target}`);
+      if (firedAt === undefined || now - firedAt >= CONFIG.ALERT_REPEAT_HOURS * 60 * 60 * 1000) {
+        toSend.push(match);
+      }
+    }
+    for (const target of evaluated) {
+      if (!matchedTargets.has(target) && states.has(`${rule.id}|${target}`)) {
+        resolved.push({ ruleId: rule.id, target });
+      }
+    }
+  }
+
+  if (toSend.length > 0) {
+    const webhooks = (await store.getAlertWebhooks()).filter(w => w.enabled);
+    const firedAt = formatBeijingTime(getBeijingTime(now), "yyyy-MM-dd HH:mm:ss");
+    const results = await Promise.allSettled(webhooks.map(w => sendNotification(w, toSend, firedAt)));
+    results.forEach((r, i) => {
+      if (r.status === 'rejected') console.error(`Webhook ${webhooks[i].id} failed:`, r.reason);
+    });
+    console.log(`🔔 Sent ${toSend.length} alert(s) to ${webhooks.length} webhook(s)`);
+  }
+
+  await store.updateAlertStates(toSend, resolved, now);
+  return toSend;
+}
+
+// ==================== Refresh and Data Cache ====================
+
+function getRefreshSettings(env: Env): { intervalMinutes: number; chunkSize: number } {
+  const intervalMinutes = Number(env.REFRESH_INTERVAL_MINUTES);
+  const chunkSize = Number(env.REFRESH_CHUNK_SIZE);
+  return {
+    intervalMinutes: intervalMinutes > 0 ? intervalMinutes : CONFIG.REFRESH_INTERVAL_MINUTES,
+    chunkSize: Number.isInteger(chunkSize) && chunkSize > 0 ? chunkSize : CONFIG.REFRESH_CHUNK_SIZE,
+  };
+}
+
+/**
+ * Whether a key is due: in-service keys once last refreshed at or before `dueBefore`, quarantined keys
+ * only every LIFECYCLE_QUARANTINE_REFRESH_HOURS, so a key whose allowance resets can become active again.
+ */
+function isRefreshDue(entry: RefreshQueueEntry, dueBefore: number, now: number): boolean {
+  if (entry.lifecycle === 'quarantined') {
+    return entry.refreshedAt === null || entry.refreshedAt <= Math.min(dueBefore, now - CONFIG.LIFECYCLE_QUARANTINE_REFRESH_HOURS * 60 * 60 * 1000);
+  }
+  return isInService(entry.lifecycle) && (entry.refreshedAt === null || entry.refreshedAt <= dueBefore);
+}
+
+/**
+ * Picks the next keys to refresh. Walks the keys in ID order starting just after the cursor and
+ * wrapping around, keeps keys that are due (see isRefreshDue), and puts keys that were never refreshed
+ * first. The new cursor is the last picked key in walk order.
+ */
+function selectRefreshChunk(
+  queue: RefreshQueueEntry[],
+  cursor: string | null,
+  dueBefore: number,
+  limit: number,
+  now = Date.now()
+): { ids: string[]; cursor: string | null; pending: number } {
+  const start = cursor === null ? 0 : queue.findIndex(entry => entry.id > cursor);
+  const rotated = start <= 0 ? queue : [...queue.slice(start), ...queue.slice(0, start)];
+  const due = rotated.filter(entry => isRefreshDue(entry, dueBefore, now));
+  const chunk = [...due.filter(entry => entry.refreshedAt === null), ...due.filter(entry => entry.refreshedAt !== null)].slice(0, limit);
+
+  const picked = new Set(chunk.map(entry => entry.id));
+  return {
+    ids: chunk.map(entry => entry.id),
+    cursor: due.filter(entry => picked.has(entry.id)).pop()?.id ?? cursor,
+    pending: due.length - chunk.length,
+  };
+}
+
+/**
+ * Refreshes one chunk of keys from their providers, stores their results and usage snapshots, then rebuilds
+ * the data cache from every key's latest result. Scheduled runs take only keys that would otherwise
+ * miss the refresh interval before the next cron tick; manual runs take any key not refreshed since
+ * `sweepSince` (default: now), up to the same chunk size, and report how many are still pending. Runs
+ * under a store lock so the cron job and concurrent tabs never fan out at the same time, and records
+ * its stats in refresh_runs. Returns null when another refresh holds the lock or nothing is due.
+ */
+async function refreshData(
+  env: Env,
+  source: RefreshSource,
+  sweepSince?: number
+): Promise<{ data: AggregatedResponse; refreshedAt: number; pending: number } | null> {
+  const holder = crypto.randomUUID();
+  if (!(await env.store.acquireLock(CONFIG.REFRESH_LOCK_NAME, holder, CONFIG.REFRESH_LOCK_TTL_MS))) return null;
+
+  const { intervalMinutes, chunkSize } = getRefreshSettings(env);
+  const startedAt = Date.now();
+  const run: RefreshRun = { source, startedAt, durationMs: 0, keysProcessed: 0, errors: 0, pending: 0, error: null };
+  const timestamp = formatBeijingTime(getBeijingTime(), "HH:mm:ss");
+
+  try {
+    const dueBefore = source === 'scheduled'
+      ? startedAt - (intervalMinutes - CONFIG.CRON_INTERVAL_MINUTES) * 60 * 1000
+      : sweepSince ?? startedAt;
+    const [queue, cursor] = await Promise.all([getRefreshQueue(env.store), env.store.getRefreshCursor(CONFIG.REFRESH_CURSOR_NAME)]);
+    const next = selectRefreshChunk(queue, cursor, dueBefore, chunkSize);
+    if (next.ids.length === 0 && (source === 'scheduled' || queue.length > 0)) return null;
+
+    console.log(`[${timestamp}] Refreshing ${next.ids.length} of ${queue.length} keys (${next.pending} still due)...`);
+    const keyPairs = await getKeysByIds(env.store, await getKeyCipher(env), next.ids);
+    const limiter = new AdaptiveConcurrency(10);
+    const options = getUpstreamOptions(env);
+    const results = await batchProcess(keyPairs, ({ id, key, provider }) => fetchApiKeyData(id, key, provider, limiter, options), limiter);
+    const validResults = results.filter(isApiUsageData);
+    logKeysWithBalance(validResults);
+
+    const now = Date.now();
+    await saveKeyResults(env.store, results, now);
+    if (next.cursor) await env.store.saveRefreshCursor(CONFIG.REFRESH_CURSOR_NAME, next.cursor);
+    await saveUsageSnapshots(env.store, validResults, now);
+    // Whole days, so stores that prune in passes (KV) only start one pass a day
+    const retentionStart = now - CONFIG.SNAPSHOT_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    await env.store.pruneUsageSnapshots(retentionStart - (retentionStart % (24 * 60 * 60 * 1000)));
+    Object.assign(run, { keysProcessed: results.length, errors: results.length - validResults.length, pending: next.pending });
+
+    const cache = await buildAggregatedData(env.store, queue.length);
+    await env.store.saveDataCache(CONFIG.DATA_CACHE_NAME, cache.data, cache.refreshedAt);
+    console.log(`[${timestamp}] Data updated successfully.`);
+    return { ...cache, pending: next.pending };
+  } catch (error) {
+    run.error = error instanceof Error ? error.message : String(error);
+    throw error;
+  } finally {
+    try {
+      if (run.keysProcessed > 0 || run.error) {
+        await env.store.addRefreshRun({ ...run, durationMs: Date.now() - startedAt });
+      }
+    } finally {
+      await env.store.releaseLock(CONFIG.REFRESH_LOCK_NAME, holder);
+    }
+  }
+}
+
+/**
+ * Applies the current key list to cached data: drops deleted keys, picks up metadata edits and
+ * lifecycle changes, and recomputes totals, so those changes show without a new fan-out.
+ */
+function mergeCurrentKeys(data: AggregatedResponse, keys: KeyListEntry[]): AggregatedResponse {
+  const keysById = new Map(keys.map(({ id, ...metadata }) => [id, metadata]));
+  const results = data.data
+    .filter(result => keysById.has(result.id))
+    .map((result): ApiKeyResult => ({ ...result, ...keysById.get(result.id) }));
+
+  const validResults = results.filter(isApiUsageData);
+  return { ...data, total_count: keys.length, totals: computeTotals(validResults), totals_by_unit: computeTotalsByUnit(validResults), data: results };
+}
+
+/**
+ * Adds the cache age; data counts as stale once it is older than twice the refresh interval.
+ */
+function withCacheAge(data: AggregatedResponse, refreshedAt: number, intervalMinutes: number): AggregatedResponse {
+  const age = Math.max(0, Math.round((Date.now() - refreshedAt) / 1000));
+  return { ...data, age, stale: age > intervalMinutes * 2 * 60 };
+}
+
+/**
+ * Returns aggregated data from the stored cache. A live refresh happens only when forced (`sweepSince`
+ * is the start of the forced sweep), when nothing is cached yet, or when keys were added since the
+ * last refresh. If another request is already refreshing, waits for its result instead of starting a
+ * second fan-out. Forced refreshes report the sweep's progress in `refresh`. Null means a refresh is
+ * still running and there is nothing cached to serve yet.
+ */
+async function loadAggregatedData(env: Env, sweepSince: number | null): Promise<AggregatedResponse | null> {
+  const { intervalMinutes } = getRefreshSettings(env);
+  const [cache, keys] = await Promise.all([env.store.getDataCache(CONFIG.DATA_CACHE_NAME), getKeyMetadataList(env.store)]);
+  const cachedIds = new Set(cache?.data.data.map(result => result.id));
+  if (cache && sweepSince === null && keys.every(key => cachedIds.has(key.id))) {
+    return withCacheAge(mergeCurrentKeys(cache.data, keys), cache.refreshedAt, intervalMinutes);
+  }
+
+  const refreshed = await refreshData(env, 'manual', sweepSince ?? undefined);
+  if (refreshed) {
+    const data = withCacheAge(refreshed.data, refreshed.refreshedAt, intervalMinutes);
+    return sweepSince === null ? data : { ...data, refresh: { since: sweepSince, pending: refreshed.pending } };
+  }
+
+  const deadline = Date.now() + CONFIG.REFRESH_WAIT_MS;
+  while (Date.now() < deadline && await env.store.isLockHeld(CONFIG.REFRESH_LOCK_NAME)) {
+    await new Promise(resolve => setTimeout(resolve, CONFIG.REFRESH_POLL_MS));
+  }
+
+  const latest = await env.store.getDataCache(CONFIG.DATA_CACHE_NAME);
+  if (!latest) return null;
+  const data = withCacheAge(mergeCurrentKeys(latest.data, await getKeyMetadataList(env.store)), latest.refreshedAt, intervalMinutes);
+  if (sweepSince === null) return data;
+
+  // Another request did this round's chunk; the sweep goes on from whatever is still due
+  const pending = selectRefreshChunk(await getRefreshQueue(env.store), null, sweepSince, 0).pending;
+  return { ...data, refresh: { since: sweepSince, pending } };
+}
+
+/**
+ * Stores a single-key refresh and rebuilds the cached data, so the key's failure history updates too.
+ */
+async function updateCachedResult(store: KeyStore, result: ApiKeyResult): Promise<void> {
+  await saveKeyResults(store, [result], Date.now());
+  await rebuildDataCache(store);
+}
+
+/**
+ * Rebuilds the cached data from the stored per-key results without querying Factory. Does nothing
+ * until the first refresh has created the cache.
+ */
+async function rebuildDataCache(store: KeyStore): Promise<void> {
+  if (!(await store.getDataCache(CONFIG.DATA_CACHE_NAME))) return;
+
+  const cache = await buildAggregatedData(store, (await getKeyMetadataList(store)).length);
+  await store.saveDataCache(CONFIG.DATA_CACHE_NAME, cache.data, cache.refreshedAt);
+}
+
+// ==================== Key Lifecycle ====================
+
+function getLifecyclePolicy(env: Env): LifecyclePolicy {
+  const setting = (value: string | undefined, fallback: number) => Number(value) > 0 ? Number(value) : fallback;
+  return {
+    suspectFailures: setting(env.LIFECYCLE_SUSPECT_FAILURES, CONFIG.LIFECYCLE_SUSPECT_FAILURES),
+    quarantineHours: setting(env.LIFECYCLE_QUARANTINE_HOURS, CONFIG.LIFECYCLE_QUARANTINE_HOURS),
+    archiveDays: setting(env.LIFECYCLE_ARCHIVE_DAYS, CONFIG.LIFECYCLE_ARCHIVE_DAYS),
+    purgeDays: setting(env.LIFECYCLE_PURGE_DAYS, CONFIG.LIFECYCLE_PURGE_DAYS),
+  };
+}
+
+/**
+ * Decides a key's next lifecycle state, or 'purge' when an archived key is due for deletion.
+ * A key looks dead while it has failed at least `suspectFailures` refreshes in a row (dead since its
+ * last success) or sits at zero balance (dead since it hit zero). Durations count from the later of
+ * that and the last state change, so a restored key gets a full grace period again. Quarantined keys
+ * are still refreshed and become active once they recover; only keys the provider keeps rejecting
+ * (revoked or invalid) are archived and purged, so an exhausted key is never deleted.
+ */
+function nextLifecycleState(signal: KeyLifecycleSignal, policy: LifecyclePolicy, now: number): KeyLifecycleState | 'purge' {
+  const changedAt = signal.lifecycleChangedAt ?? signal.createdAt;
+  const failing = (signal.consecutiveFailures ?? 0) >= policy.suspectFailures;
+  const deadSince = failing ? (signal.lastSuccessAt ?? signal.createdAt) : signal.exhaustedSince;
+  const rejected = failing && signal.errorClass === 'revoked';
+  const hoursSince = (since: number) => (now - since) / (60 * 60 * 1000);
+
+  switch (signal.lifecycle) {
+    case 'suspect':
+      if (deadSince === null) return 'active';
+      return hoursSince(Math.max(deadSince, changedAt)) >= policy.quarantineHours ? 'quarantined' : 'suspect';
+    case 'quarantined':
+      if (deadSince === null) return 'active';
+      return rejected && hoursSince(changedAt) >= policy.archiveDays * 24 ? 'archived' : 'quarantined';
+    case 'archived':
+      // Keys archived while merely exhausted go back to being refreshed instead of being purged
+      if (!rejected) return 'quarantined';
+      return hoursSince(changedAt) >= policy.purgeDays * 24 ? 'purge' : 'archived';
+    default:
+      return deadSince !== null ? 'suspect' : 'active';
+  }
+}
+
+/**
+ * Moves keys between lifecycle states and hard-deletes archived keys past retention. Runs in
+ * `scheduled` after the refresh, so decisions use the latest results.
+ */
+async function applyKeyLifecycle(env: Env, audit: AuditContext): Promise<void> {
+  const policy = getLifecyclePolicy(env);
+  const now = Date.now();
+  const changes: { id: string; from: KeyLifecycleState; to: KeyLifecycleState }[] = [];
+  const purged: string[] = [];
+
+  for (const signal of await getKeyLifecycleSignals(env.store)) {
+    const next = nextLifecycleState(signal, policy, now);
+    if (next === 'purge') purged.push(signal.id);
+    else if (next !== signal.lifecycle) changes.push({ id: signal.id, from: signal.lifecycle, to: next });
+  }
+
+  if (changes.length > 0) {
+    await env.store.setKeyLifecycle(changes, now);
+    await recordAudit(env.store, audit, 'keys.lifecycle', changes.map(({ id }) => ({ id })), { changes });
+    console.log(`Lifecycle: ${changes.map(({ id, from, to }) => `${id} ${from} -> ${to}`).join(', ')}`);
+  }
+
+  if (purged.length > 0) {
+    for (const id of purged) await env.store.purgeKey(id);
+    await recordAudit(env.store, audit, 'keys.purge', purged.map(id => ({ id })), { count: purged.length });
+    console.log(`Lifecycle: purged ${purged.length} archived keys`);
+  }
+}
+
+// ==================== Trash ====================
+
+function getTrashRetentionDays(env: Env): number {
+  const days = Number(env.TRASH_RETENTION_DAYS);
+  return days > 0 ? days : CONFIG.TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Reads a unique, non-empty `ids` array from a batch request body. Null means the body is invalid.
+ */
+async function readKeyIds(req: Request): Promise<string[] | null> {
+  const { ids } = await req.json() as { ids: unknown };
+  if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string' && id)) return null;
+  return [...new Set(ids as string[])];
+}
+
+/**
+ * Runs `action` for every id and reports each outcome separately, so one failing key does not hide
+ * what happened to the others. `action` returns false when the key was not found.
+ */
+async function applyKeyAction(ids: string[], status: KeyActionStatus, action: (id: string) => Promise<boolean>): Promise<KeyActionResult[]> {
+  return Promise.all(ids.map(async (id): Promise<KeyActionResult> => {
+    try {
+      return { id, status: await action(id) ? status : 'not_found' };
+    } catch (error) {
+      console.error(`Error applying ${status} to key ${id}:`, error);
+      return { id, status: 'error', error: error instanceof Error ? error.message : String(error) };
+    }
+  }));
+}
+
+/**
+ * Hard-deletes keys that have been in the trash longer than the retention period.
+ */
+async function purgeExpiredTrash(env: Env, audit: AuditContext): Promise<void> {
+  const expired = await getExpiredDeletedKeyIds(env.store, Date.now() - getTrashRetentionDays(env) * 24 * 60 * 60 * 1000);
+  if (expired.length === 0) return;
+
+  for (const id of expired) await env.store.purgeKey(id);
+  await recordAudit(env.store, audit, 'keys.purge', expired.map(id => ({ id })), { count: expired.length, from: 'trash' });
+  console.log(`Trash: purged ${expired.length} expired keys`);
+}
+
+// ==================== Key Import ====================
+
+/**
+ * Guesses the format of an import file: a JSON array, `NAME=value` lines, or otherwise CSV.
+ */
+function detectImportFormat(content: string): ImportFormat {
+  const text = content.trim();
+  if (text.startsWith('[')) return 'json';
+
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+  return lines.every(line => /^(export\s+)?[A-Za-z_][A-Za-z0-9_]*\s*=/.test(line)) ? 'env' : 'csv';
+}
+
+function parseImportFile(content: string, format: ImportFormat): ImportEntry[] | string {
+  switch (format) {
+    case 'json': {
+      let items: unknown;
+      try {
+        items = JSON.parse(content);
+      } catch {
+        return 'Invalid JSON';
+      }
+      return Array.isArray(items) ? importEntriesFromItems(items) : 'A JSON import must be an array';
+    }
+    case 'env':
+      return parseEnvImport(content);
+    default:
+      return parseCsvImport(content);
+  }
+}
+
+/**
+ * JSON items may be key strings or objects with `key` plus metadata fields.
+ */
+function importEntriesFromItems(items: unknown[]): ImportEntry[] {
+  return items.map((item, index) => {
+    const fields = typeof item === 'string' ? { key: item }
+      : item && typeof item === 'object' ? item as Record<string, unknown>
+      : {};
+    return { line: index + 1, key: typeof fields.key === 'string' ? fields.key.trim() : '', fields };
+  });
+}
+
+/**
+ * Splits CSV text into rows of trimmed cells. Quoted cells may contain commas, doubled quotes and
+ * line breaks; each row keeps the line number it starts on. Blank rows are dropped.
+ */
+function parseCsvRows(text: string): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell.trim());
+    if (cells.some(Boolean)) rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && !cell.trim()) {
+      quoted = true;
+      cell = '';
+    } else if (char === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      rowLine = ++line;
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+  return rows;
+}
+
+/**
+ * A CSV with a header row maps columns by name (`key`, `label` or `name`, `tags`, `owner`, `notes`,
+ * `provider`; others are ignored). Without one, columns follow IMPORT_CSV_COLUMNS and any extra columns are
+ * joined into the notes, which may contain commas themselves.
+ */
+function parseCsvImport(content: string): ImportEntry[] {
+  const rows = parseCsvRows(content);
+  const header = rows[0]?.cells.map(cell => cell.toLowerCase()) ?? [];
+  const hasHeader = header.includes('key');
+  const columns: readonly string[] = hasHeader ? header.map(name => name === 'name' ? 'label' : name) : CONFIG.IMPORT_CSV_COLUMNS;
+
+  return rows.slice(hasHeader ? 1 : 0).map(({ line, cells }) => {
+    const fields: Record<string, unknown> = {};
+    columns.forEach((name, index) => {
+      if (cells[index]) fields[name] = cells[index];
+    });
+    if (!hasHeader && cells.length > columns.length) {
+      fields.notes = cells.slice(columns.length - 1).filter(Boolean).join(', ');
+    }
+    return { line, key: String(fields.key ?? ''), fields };
+  });
+}
+
+/**
+ * Reads `FACTORY_API_KEY=...` style lines; `export`, quotes and trailing comments are allowed.
+ * Variables whose name does not match IMPORT_ENV_NAME are skipped, the provider in a matching name
+ * (e.g. DEEPSEEK_API_KEY) sets the key's provider, and lines that are not assignments are reported
+ * as invalid.
+ */
+function parseEnvImport(content: string): ImportEntry[] {
+  const entries: ImportEntry[] = [];
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const text = rawLine.trim();
+    if (!text || text.startsWith('#')) return;
+
+    const match = text.match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/);
+    if (!match) {
+      entries.push({ line: index + 1, key: '', fields: {} });
+      return;
+    }
+    const name = match[1].match(CONFIG.IMPORT_ENV_NAME);
+    if (!name) return;
+
+    const quoted = match[2].match(/^(["'])(.*?)\1/);
+    const key = quoted ? quoted[2] : match[2].replace(/\s+#.*$/, '');
+    entries.push({ line: index + 1, key: key.trim(), fields: { provider: name[1].toLowerCase() } });
+  });
+
+  return entries;
+}
+
+/**
+ * Returns why a key cannot be stored, or null when it can: the shared key format and, when a provider
+ * is named explicitly, that provider's key shape. Every way of adding keys goes through this.
+ */
+function validateKey(key: string, provider?: ProviderId): string | null {
+  if (typeof key !== 'string' || !CONFIG.KEY_FORMAT.test(key)) return 'Invalid key format';
+  if (provider && !PROVIDERS[provider].matchesKey(key)) return `Key does not match the ${PROVIDERS[provider].name} key format`;
+  return null;
+}
+
+/**
+ * Returns why an import line cannot be added, or null when it can.
+ */
+function checkImportEntry(
+  entry: ImportEntry,
+  metadata: Partial<KeyMetadata> | string,
+  existing: Set<string>,
+  firstLines: Map<string, number>
+): Pick<ImportLineResult, 'status' | 'error'> | null {
+  if (!entry.key) return { status: 'invalid_format', error: 'Missing key' };
+  const keyError = validateKey(entry.key, typeof metadata === 'string' ? undefined : metadata.provider);
+  if (keyError) return { status: 'invalid_format', error: keyError };
+  if (typeof metadata === 'string') return { status: 'invalid_format', error: metadata };
+  if (existing.has(entry.key)) return { status: 'duplicate', error: 'Key already exists (it may be in the trash)' };
+  if (firstLines.has(entry.key)) return { status: 'duplicate', error: `Same key as line ${firstLines.get(entry.key)}` };
+  return null;
+}
+
+/**
+ * Checks import lines one by one: key format, metadata, repeats within the file and keys already
+ * stored (including the trash). A dry run then asks each key's provider about the remaining keys and
+ * stores nothing; to stay under the subrequest limit each request checks one refresh chunk starting at
+ * `checkFrom`, and `next_cursor` continues with the same file until every key is checked. Otherwise the
+ * remaining keys are inserted in a single store call, which D1 applies entirely or not at all.
+ */
+async function importKeys(
+  entries: ImportEntry[],
+  env: Env,
+  dryRun: boolean,
+  audit: AuditContext,
+  checkFrom = 0
+): Promise<BatchImportResult> {
+  const cipher = await getKeyCipher(env);
+  const existing = await findExistingKeys(env.store, cipher, [...new Set(entries.map(entry => entry.key).filter(Boolean))]);
+  const firstLines = new Map<string, number>();
+  const results: ImportLineResult[] = [];
+  const accepted: { result: ImportLineResult; key: string; metadata: Partial<KeyMetadata> }[] = [];
+
+  for (const entry of entries) {
+    const metadata = parseKeyMetadata(entry.fields);
+    const rejection = checkImportEntry(entry, metadata, existing, firstLines);
+    const result: ImportLineResult = { line: entry.line, key: entry.key ? maskApiKey(entry.key) : null, status: 'added', ...rejection };
+    results.push(result);
+
+    if (!rejection && typeof metadata !== 'string') {
+      firstLines.set(entry.key, entry.line);
+      accepted.push({ result, key: entry.key, metadata });
+    }
+  }
+
+  let nextCursor: string | null = null;
+  if (dryRun) {
+    const { chunkSize } = getRefreshSettings(env);
+    const checkTo = checkFrom + chunkSize;
+    const limiter = new AdaptiveConcurrency(10);
+    const options = getUpstreamOptions(env);
+    const checks = await batchProcess(
+      accepted.slice(checkFrom, checkTo),
+      ({ key, metadata }) => fetchUsage(PROVIDERS[metadata.provider ?? detectProvider(key)], key, limiter, options),
+      limiter
+    );
+
+    accepted.forEach(({ result }, index) => {
+      const check = checks[index - checkFrom];
+      if (index < checkFrom) {
+        Object.assign(result, { status: 'unchecked', error: 'Checked by an earlier request of this dry run' });
+      } else if (!check) {
+        Object.assign(result, { status: 'unchecked', error: 'Not checked yet; repeat the dry run with next_cursor' });
+      } else if (isUpstreamError(check)) {
+        const revoked = check.code === 'unauthorized' || check.code === 'forbidden';
+        Object.assign(result, { status: revoked ? 'unauthorized' : 'error', error: check.message });
+      }
+    });
+    nextCursor = checkTo < accepted.length ? encodeOffsetCursor(checkTo) : null;
+  } else {
+    const added = accepted.map(({ result, key, metadata }) => ({ result, id: generateId('key'), key, metadata }));
+    await addKeys(env.store, cipher, added);
+    for (const { result, id } of added) result.id = id;
+    if (added.length > 0) await recordAudit(env.store, audit, 'keys.add', added.map(({ id, key }) => ({ id, key })));
+  }
+
+  const addedCount = results.filter(result => result.status === 'added').length;
+  return { success: true, dryRun, added: addedCount, skipped: results.length - addedCount, results, ...(dryRun && { next_cursor: nextCursor }) };
+}
+
+// ==================== Key Export ====================
+
+/**
+ * Reads export filters, which use the /api/data parameter names. Unlike /api/data, archived keys are
+ * included unless `lifecycle` says otherwise. Returns an error message when a filter is invalid.
+ */
+function parseExportFilters(filters: unknown): { query: DataQuery; criteria: Record<string, string> } | string {
+  if (filters !== undefined && (!filters || typeof filters !== 'object' || Array.isArray(filters))) return "filters must be an object";
+
+  const criteria: Record<string, string> = {};
+  for (const [name, value] of Object.entries(filters ?? {})) {
+    if (!(CONFIG.EXPORT_FILTERS as readonly string[]).includes(name)) return `Unknown filter: ${name}`;
+    if (value !== null && value !== undefined && String(value).trim()) criteria[name] = String(value).trim();
+  }
+
+  const params = new URLSearchParams(criteria);
+  if (!params.has('lifecycle')) params.set('lifecycle', CONFIG.KEY_LIFECYCLE_STATES.join(','));
+  const query = parseDataQuery(params);
+  return typeof query === 'string' ? query : { query, criteria };
+}
+
+function toExportRow(key: ApiKey, result: ApiKeyResult): ExportRow {
+  const usage = isApiUsageData(result) ? result : null;
+  return {
+    key: key.key,
+    label: key.label,
+    tags: key.tags.join('|'),
+    owner: key.owner,
+    notes: key.notes,
+    id: key.id,
+    provider: key.provider,
+    unit: usage ? getUsageUnit(usage) : null,
+    lifecycle: result.lifecycle ?? 'active',
+    status: getKeyStatus(result),
+    health: getKeyHealth(result),
+    used: usage?.orgTotalTokensUsed ?? null,
+    allowance: usage?.totalAllowance ?? null,
+    remaining: usage ? getRemaining(usage) : null,
+    used_ratio: usage?.usedRatio ?? null,
+    start_date: usage?.startDate ?? null,
+    end_date: usage?.endDate ?? null,
+    error: 'error' in result ? result.error : null,
+  };
+}
+
+function toCsvCell(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatExport(rows: ExportRow[], format: ExportFormat): { body: string; contentType: string } {
+  switch (format) {
+    case 'csv':
+      return {
+        body: [CONFIG.EXPORT_COLUMNS.join(','), ...rows.map(row => CONFIG.EXPORT_COLUMNS.map(column => toCsvCell(row[column])).join(','))].join('\r\n') + '\r\n',
+        contentType: 'text/csv; charset=utf-8',
+      };
+    case 'json':
+      return {
+        body: JSON.stringify(rows.map(row => ({ ...row, tags: row.tags ? String(row.tags).split('|') : [] })), null, 2),
+        contentType: 'application/json; charset=utf-8',
+      };
+    default:
+      return { body: rows.map(row => row.key).join('\n'), contentType: 'text/plain; charset=utf-8' };
+  }
+}
+
+// ==================== Audit Log ====================
+
+function getAuditContext(req: Request, session: Session | null): AuditContext {
+  return {
+    actorId: session?.uid ?? null,
+    actorName: session?.username ?? null,
+    tokenId: session?.tokenId ?? null,
+    ip: req.headers.get('CF-Connecting-IP'),
+    userAgent: req.headers.get('User-Agent'),
+  };
+}
+
+/**
+ * Appends an audit entry. Callers await this before returning sensitive data, so a failed write
+ * fails the request instead of leaving an unrecorded export.
+ */
+async function recordAudit(store: KeyStore, audit: AuditContext, action: AuditAction, targets: AuditTarget[] = [], details?: Record<string, unknown>): Promise<void> {
+  await store.addAuditEntry({
+    ...audit,
+    createdAt: Date.now(),
+    action,
+    targets: targets.map(target => target.key ? { id: target.id, key: maskApiKey(target.key) } : { id: target.id }),
+    details: details ?? null,
+  });
+}
+
+function getAuditRetentionDays(env: Env): number {
+  const days = Number(env.AUDIT_RETENTION_DAYS);
+  return days > 0 ? days : CONFIG.AUDIT_RETENTION_DAYS;
+}
+
+// ==================== Route Handlers ====================
+
+/**
+ * Handles POST /api/public/usage - fetch usage for a single public key without login or storage access.
+ * The provider is detected from the key unless `provider` names one.
+ */
+async function handlePublicUsage(req: Request, env: Env): Promise<Response> {
+  try {
+    const { key, provider } = await req.json() as { key?: string; provider?: string };
+    const trimmedKey = (key || '').trim();
+
+    if (!trimmedKey) {
+      return createErrorResponse("key is required", 400);
+    }
+    if (provider && !isProviderId(provider)) {
+      return createErrorResponse(`provider must be one of: ${PROVIDER_IDS.join(', ')}`, 400);
+    }
+
+    const keyData = await fetchApiKeyData(
+      `public-${Date.now()}`, trimmedKey, (provider as ProviderId) || detectProvider(trimmedKey), undefined, getUpstreamOptions(env)
+    );
+    if ('error' in keyData) {
+      return createJsonResponse({ success: false, error: keyData.error, data: keyData }, 400);
+    }
+
+    return createJsonResponse({ success: true, data: keyData });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Invalid JSON';
+    return createErrorResponse(errorMessage, 400);
+  }
+}
+
+/**
+ * Handles the root path - serves the HTML dashboard.
+ */
+async function handleRoot(req: Request, env: Env): Promise<Response> {
+  if (!(await getSession(req, env))) {
+    return new Response(LOGIN_HTML, {
+      headers: { "Content-Type": "text/html; charset=utf-8" }
+    });
+  }
+  
+  return new Response(HTML_CONTENT, {
+    headers: { "Content-Type": "text/html; charset=utf-8" }
+  });
+}
+
+/**
+ * Handles POST /api/login - authenticates user and creates session.
+ * Until the first user exists, EXPORT_PASSWORD (as both username and password) signs in a bootstrap admin.
+ */
+async function handleLogin(req: Request, env: Env): Promise<Response> {
+  let credentials: { username: string; password: string };
+  try {
+    credentials = await req.json() as { username: string; password: string };
+  } catch (error) {
+    return createErrorResponse("请求格式错误", 400);
+  }
+
+  const { username, password } = credentials;
+  let session: Session | null = null;
+
+  const user = username ? await env.store.getUserByUsername(String(username)) : null;
+  if (user) {
+    if (await verifyPassword(String(password), user)) {
+      session = { uid: user.id, username: user.username, role: user.role };
+    }
+  } else if (hasBootstrapPassword(env) && (await env.store.countUsers()) === 0) {
+    // Both comparisons always run, so a right username does not answer faster than a wrong one
+    const matches = await Promise.all([secretsEqual(username, env.EXPORT_PASSWORD), secretsEqual(password, env.EXPORT_PASSWORD)]);
+    if (matches.every(Boolean)) session = { uid: CONFIG.BOOTSTRAP_USER_ID, username: 'bootstrap', role: 'admin' };
+  }
+
+  if (!session) {
+    await recordAudit(env.store, { ...getAuditContext(req, null), actorName: String(username ?? '').substring(0, 100) }, 'login.failed');
+    return createErrorResponse("账号或密码错误", 401);
+  }
+
+  await recordAudit(env.store, getAuditContext(req, session), 'login');
+  const token = await createSessionToken(session, getSessionSecret(env));
+
+  return new Response(JSON.stringify({ success: true }), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json",
+      "Set-Cookie": `session_token=${token}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${SESSION_DURATION / 1000}`
+    }
+  });
+}
+
+/**
+ * Handles POST /api/logout - destroys session.
+ */
+function handleLogout(_req: Request): Response {
+  return new Response(JSON.stringify({ success: true }), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json",
+      "Set-Cookie": "session_token=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0"
+    }
+  });
+}
+
+/**
+ * Handles the /api/data endpoint - returns cached usage data (with `age`/`stale`), optionally filtered,
+ * sorted and paginated. `?fresh=1` refreshes the next chunk first and reports the sweep in `refresh`;
+ * repeating it with `since=<refresh.since>` continues the same sweep until `refresh.pending` is 0.
+ */
+async function handleGetData(url: URL, env: Env): Promise<Response> {
+  try {
+    const query = parseDataQuery(url.searchParams);
+    if (typeof query === 'string') return createErrorResponse(query, 400);
+
+    const since = Number(url.searchParams.get('since'));
+    const sweepSince = url.searchParams.get('fresh') !== '1' ? null : since > 0 && since <= Date.now() ? since : Date.now();
+    const data = await loadAggregatedData(env, sweepSince);
+    if (!data) return createErrorResponse("数据正在刷新中，请稍后重试", 503);
+    return createJsonResponse(query
+      ? applyDataQuery(data, query)
+      : { ...data, data: data.data.filter(result => result.lifecycle !== 'archived') });
+  } catch (error) {
+    console.error('Error getting data:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to load data';
+    return createErrorResponse(errorMessage, 500);
+  }
+}
+
+/**
+ * Handles GET /api/refresh/runs - recent refresh stats plus how many keys are currently overdue.
+ */
+async function handleGetRefreshRuns(url: URL, env: Env): Promise<Response> {
+  try {
+    const limit = Math.min(Math.max(Number(url.searchParams.get('limit')) || CONFIG.REFRESH_RUNS_PAGE_SIZE, 1), CONFIG.REFRESH_RUNS_PAGE_SIZE);
+    const settings = getRefreshSettings(env);
+    const overdueBefore = Date.now() - settings.intervalMinutes * 60 * 1000;
+    const [runs, queue] = await Promise.all([env.store.getRefreshRuns(limit), getRefreshQueue(env.store)]);
+
+    return createJsonResponse({
+      ...settings,
+      total_keys: queue.length,
+      overdue: queue.filter(entry => isInService(entry.lifecycle) && (entry.refreshedAt === null || entry.refreshedAt < overdueBefore)).length,
+      runs,
+    });
+  } catch (error) {
+    console.error('Error getting refresh runs:', error);
+    return createErrorResponse(error instanceof Error ? error.message : 'Failed to load refresh runs', 500);
+  }
+}
+
+/**
+ * Handles GET /api/keys - returns all stored API keys.
+ */
+async function handleGetKeys(env: Env, audit: AuditContext): Promise<Response> {
+  try {
+    const keys = await getAllKeys(env.store, await getKeyCipher(env));
+    await recordAudit(env.store, audit, 'keys.list', [], { count: keys.length });
+    return createJsonResponse(keys);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error getting keys:', errorMessage);
+    return createErrorResponse(errorMessage, 500);
+  }
+}
+
+/**
+ * Handles POST /api/keys - adds single or multiple API keys.
+ */
+async function handleAddKeys(req: Request, env: Env, audit: AuditContext): Promise<Response> {
+  try {
+    const body = await req.json();
+
+    // Support batch import
+    if (Array.isArray(body)) {
+      return await handleBatchImport(body, env, audit);
+    } else {
+      return await handleSingleKeyAdd(body, env, audit);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Invalid JSON';
+    console.error('Error adding keys:', errorMessage);
+    return createErrorResponse(errorMessage, 400);
+  }
+}
+
+async function handleBatchImport(items: unknown[], env: Env, audit: AuditContext): Promise<Response> {
+  if (items.length > CONFIG.IMPORT_MAX_ENTRIES) return createErrorResponse(`At most ${CONFIG.IMPORT_MAX_ENTRIES} keys per import`, 400);
+  return createJsonResponse(await importKeys(importEntriesFromItems(items), env, false, audit));
+}
+
+/**
+ * Handles POST /api/keys/import - imports a CSV, JSON or .env file sent as the request body.
+ * `format` picks the parser (detected from the content when omitted); `dry_run=1` checks every line
+ * against its provider without storing anything, one chunk per request: sending the same file again
+ * with `cursor=<next_cursor>` checks the next chunk.
+ */
+async function handleImportKeys(req: Request, url: URL, env: Env, audit: AuditContext): Promise<Response> {
+  try {
+    const format = url.searchParams.get('format') || null;
+    if (format && !(CONFIG.IMPORT_FORMATS as readonly string[]).includes(format)) {
+      return createErrorResponse(`format must be one of: ${CONFIG.IMPORT_FORMATS.join(', ')}`, 400);
+    }
+
+    const content = await req.text();
+    if (!content.trim()) return createErrorResponse("Import file is empty", 400);
+
+    const entries = parseImportFile(content, (format as ImportFormat) ?? detectImportFormat(content));
+    if (typeof entries === 'string') return createErrorResponse(entries, 400);
+    if (entries.length === 0) return createErrorResponse("No keys found in the import file", 400);
+    if (entries.length > CONFIG.IMPORT_MAX_ENTRIES) return createErrorResponse(`At most ${CONFIG.IMPORT_MAX_ENTRIES} keys per import`, 400);
+
+    const cursor = url.searchParams.get('cursor');
+    const checkFrom = cursor ? decodeOffsetCursor(cursor) : 0;
+    if (checkFrom === null) return createErrorResponse("Invalid cursor", 400);
+
+    return createJsonResponse(await importKeys(entries, env, url.searchParams.get('dry_run') === '1', audit, checkFrom));
+  } catch (error) {
+    console.error('Error importing keys:', error);
+    return createErrorResponse(error instanceof Error ? error.message : 'Failed to import keys', 500);
+  }
+}
+
+async function handleSingleKeyAdd(body: unknown, env: Env, audit: AuditContext): Promise<Response> {
+  if (!body || typeof body !== 'object' || !('key' in body)) {
+    return createErrorResponse("key is required", 400);
+  }
+
+  const { key } = body as { key: string };
+  if (!key) return createErrorResponse("key cannot be empty", 400);
+  const metadata = parseKeyMetadata(body as Record<string, unknown>);
+  if (typeof metadata === 'string') return createErrorResponse(metadata, 400);
+  const keyError = validateKey(key, metadata.provider);
+  if (keyError) return createErrorResponse(keyError, 400);
+  const cipher = await getKeyCipher(env);
+  if ((await findExistingKeys(env.store, cipher, [key])).size > 0) return createErrorResponse("API key already exists (it may be in the trash)", 409);
+
+  const id = generateId('key');
+  await addKeys(env.store, cipher, [{ id, key, metadata }]);
+  await recordAudit(env.store, audit, 'keys.add', [{ id, key }]);
+  
+  return createJsonResponse({ success: true });
+}
+
+/**
+ * Validates label / owner / notes / tags / provider from a request body. Only fields present in the
+ * input are returned; tags may be an array or a `|`-separated string. Returns an error message when invalid.
+ */
+function parseKeyMetadata(input: Record<string, unknown>): Partial<KeyMetadata> | string {
+  const limits = CONFIG.KEY_METADATA_LIMITS;
+  const metadata: Partial<KeyMetadata> = {};
+
+  for (const field of ['label', 'owner', 'notes'] as const) {
+    if (input[field] === undefined) continue;
+    const value = String(input[field] ?? '').trim();
+    if (value.length > limits[field]) return `${field} must be at most ${limits[field]} characters`;
+    metadata[field] = value || null;
+  }
+
+  if (input.tags !== undefined) {
+    const rawTags = Array.isArray(input.tags) ? input.tags : String(input.tags ?? '').split('|');
+    const tags = [...new Set(rawTags.map(tag => String(tag).trim()).filter(Boolean))];
+    if (tags.length > limits.tags) return `at most ${limits.tags} tags are allowed`;
+    if (tags.some(tag => tag.length > limits.tag)) return `each tag must be at most ${limits.tag} characters`;
+    metadata.tags = tags;
+  }
+
+  if (input.provider !== undefined && input.provider !== null && String(input.provider).trim()) {
+    const provider = String(input.provider).trim().toLowerCase();
+    if (!isProviderId(provider)) return `provider must be one of: ${PROVIDER_IDS.join(', ')}`;
+    metadata.provider = provider;
+  }
+
+  return metadata;
+}
+
+/**
+ * Handles PATCH /api/keys/:id - updates a key's label, owner, notes, tags and/or provider.
+ */
+async function handleUpdateKeyMetadata(req: Request, env: Env, id: string, audit: AuditContext): Promise<Response> {
+  try {
+    if (!id) return createErrorResponse("Key ID is required", 400);
+
+    const body = await req.json();
+    if (!body || typeof body !== 'object') return createErrorResponse("Invalid JSON", 400);
+    const metadata = parseKeyMetadata(body as Record<string, unknown>);
+    if (typeof metadata === 'string') return createErrorResponse(metadata, 400);
+
+    if (!(await env.store.updateKeyMetadata(id, metadata))) return createErrorResponse("Key not found", 404);
+    await recordAudit(env.store, audit, 'keys.update', [{ id }], metadata);
+
+    return createJsonResponse({ success: true });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Invalid JSON';
+    console.error('Error updating key metadata:', errorMessage);
+    return createErrorResponse(errorMessage, 400);
+  }
+}
+
+async function handleDeleteKey(pathname: string, env: Env, audit: AuditContext): Promise<Response> {
+  const id = pathname.split("/api/keys/")[1];
+  if (!id) return createErrorResponse("Key ID is required", 400);
+
+  const key = await getKeyById(env.store, await getKeyCipher(env), id);
+  if (!key || !(await env.store.deleteKey(id, Date.now()))) return createErrorResponse("Key not found", 404);
+  await recordAudit(env.store, audit, 'keys.delete', [{ id, key }]);
+  
+  return createJsonResponse({ success: true });
+}
+
+/**
+ * Handles POST /api/keys/:id/restore - returns a quarantined, archived or suspect key to active.
+ * The lifecycle timers restart, so the key gets a full grace period before it can be quarantined again.
+ */
+async function handleRestoreKey(id: string, env: Env, audit: AuditContext): Promise<Response> {
+  try {
+    const keys = await getKeyMetadataList(env.store);
+    const entry = keys.find(k => k.id === id);
+    if (!entry) return createErrorResponse("Key not found", 404);
+    if (entry.lifecycle === 'active') return createJsonResponse({ success: true, lifecycle: 'active' });
+
+    await env.store.setKeyLifecycle([{ id, to: 'active' }], Date.now());
+    const key = await getKeyById(env.store, await getKeyCipher(env), id);
+    await recordAudit(env.store, audit, 'keys.restore', [{ id, key }], { from: entry.lifecycle });
+
+    return createJsonResponse({ success: true, lifecycle: 'active' });
+  } catch (error) {
+    console.error('Error restoring key:', error);
+    return createErrorResponse(error instanceof Error ? error.message : 'Failed to restore key', 500);
+  }
+}
+
+/**
+ * Handles POST /api/keys/batch-delete - moves keys to the trash and reports the outcome for each id.
+ */
+async function handleBatchDeleteKeys(req: Request, env: Env, audit: AuditContext): Promise<Response> {
+  let ids: string[] | null;
+  try {
+    ids = await readKeyIds(req);
+  } catch (error) {
+    return createErrorResponse(error instanceof Error ? error.message : 'Invalid JSON', 400);
+  }
+  if (!ids) return createErrorResponse("ids array is required", 400);
+
+  try {
+    const keysById = new Map((await getKeysByIds(env.store, await getKeyCipher(env), ids)).map(k => [k.id, k.key]));
+    const deletedAt = Date.now();
+    const results = await applyKeyAction(ids, 'deleted', id => env.store.deleteKey(id, deletedAt));
+
+    const deleted = results.filter(result => result.status === 'deleted');
+    if (deleted.length > 0) {
+      await recordAudit(env.store, audit, 'keys.batch_delete', deleted.map(({ id }) => ({ id, key: keysById.get(id) })));
+    }
+
+    return createJsonResponse({ success: true, deleted: deleted.length, results });
+  } catch (error) {
+    console.error('Error deleting keys:', error);
+    return createErrorResponse(error instanceof Error ? error.message : 'Failed to delete keys', 500);
+  }
+}
+
+/**
+ * Handles GET /api/trash - deleted keys that can still be restored, newest first.
+ */
+async function handleGetTrash(env: Env): Promise<Response> {
+  try {
+    const keys = await getDeletedKeys(env.store, await getKeyCipher(env));
+    return createJsonResponse({ keys, retentionDays: getTrashRetentionDays(env) });
+  } catch (error) {
+    console.error('Error getting trash:', error);
+    return createErrorResponse(error instanceof Error ? error.message : 'Failed to load trash', 500);
+  }
+}
+
+/**
+ * Handles POST /api/trash/restore and POST /api/trash/purge - restores keys from the trash, or
+ * deletes them for good along with their snapshots. Ids that are not in the trash report not_found.
+ */
+async function handleTrashAction(req: Request, env: Env, action: 'restore' | 'purge', audit: AuditContext): Promise<Response> {
+  let ids: string[] | null;
+  try {
+    ids = await readKeyIds(req);
+  } catch (error) {
+    return createErrorResponse(error instanceof Error ? error.message : 'Invalid JSON', 400);
+  }
+  if (!ids) return createErrorResponse("ids array is required", 400);
+
+  try {
+    const trashed = new Map((await getDeletedKeys(env.store, await getKeyCipher(env))).map(k => [k.id, k.key]));
+    const results = action === 'restore'
+      ? await applyKeyAction(ids, 'restored', id => env.store.restoreDeletedKey(id))
+      : await applyKeyAction(ids, 'purged', async id => {
+        if (!trashed.has(id)) return false;
+        await env.store.purgeKey(id);
+        return true;
+      });
+
+    const done = results.filter(result => result.status !== 'not_found' && result.status !== 'error');
+    if (done.length > 0) {
+      const targets = done.map(({ id }) => ({ id, key: trashed.get(id) }));
+      await recordAudit(env.store, audit, action === 'restore' ? 'keys.trash_restore' : 'keys.purge', targets, { count: done.length, from: 'trash' });
+      if (action === 'restore') await rebuildDataCache(env.store);
+    }
+
+    return createJsonResponse({ success: true, [action === 'restore' ? 'restored' : 'purged']: done.length, results });
+  } catch (error) {
+    console.error(`Error applying trash ${action}:`, error);
+    return createErrorResponse(error instanceof Error ? error.message : `Failed to ${action} keys`, 500);
+  }
+}
+
+/**
+ * Handles POST /api/keys/export - exports API keys after re-confirming the admin's password.
+ * Without `format`, returns every key as JSON. With `format` (csv, json or txt), returns a file with
+ * metadata and the latest cached usage, limited by `filters` (tag, status, health, lifecycle,
+ * min_remaining, q). `archivePassword` wraps the file in an OpenSSL-compatible encrypted archive.
+ */
+async function handleExportKeys(req: Request, env: Env, session: Session, audit: AuditContext): Promise<Response> {
+  try {
+    const { password, format, filters, archivePassword } = await req.json().catch(() => ({})) as {
+      password?: string; format?: string; filters?: unknown; archivePassword?: string;
+    };
+
+    // Verify password (API tokens are authorized by their keys:export scope instead)
+    if (!session.scopes && (!password || !(await verifySessionPassword(session, String(password), env)))) {
+      return createErrorResponse("密码错误", 401);
+    }
+
+    const cipher = await getKeyCipher(env);
+    if (format === undefined) {
+      const keys = await getAllKeys(env.store, cipher);
+      await recordAudit(env.store, audit, 'keys.export', keys);
+      return createJsonResponse({ success: true, keys });
+    }
+
+    if (!(CONFIG.EXPORT_FORMATS as readonly string[]).includes(format)) {
+      return createErrorResponse(`format must be one of: ${CONFIG.EXPORT_FORMATS.join(', ')}`, 400);
+    }
+    if (archivePassword !== undefined && String(archivePassword).length < CONFIG.MIN_PASSWORD_LENGTH) {
+      return createErrorResponse(`archivePassword must be at least ${CONFIG.MIN_PASSWORD_LENGTH} characters`, 400);
+    }
+    const parsed = parseExportFilters(filters);
+    if (typeof parsed === 'string') return createErrorResponse(parsed, 400);
+
+    // Keys that have never been refreshed have no usage yet; they only match filters that do not need it
+    const [keys, cache, list] = await Promise.all([getAllKeys(env.store, cipher), env.store.getDataCache(CONFIG.DATA_CACHE_NAME), getKeyMetadataList(env.store)]);
+    const resultsById = new Map((cache ? mergeCurrentKeys(cache.data, list).data : []).map(result => [result.id, result]));
+    const entriesById = new Map(list.map(entry => [entry.id, entry]));
+    const now = Date.now();
+    const rows = keys.flatMap(key => {
+      const result = resultsById.get(key.id) ?? { ...entriesById.get(key.id), id: key.id, key: maskApiKey(key.key), error: 'Not refreshed yet' };
+      return matchesDataQuery(result, parsed.query, now) ? [toExportRow(key, result)] : [];
+    });
+
+    const encrypted = archivePassword !== undefined;
+    await recordAudit(env.store, audit, 'keys.export', rows.map(row => ({ id: String(row.id), key: String(row.key) })), {
+      format, filters: parsed.criteria, encrypted, count: rows.length,
+    });
+
+    const file = formatExport(rows, format as ExportFormat);
+    const filename = `api_keys_export_${new Date().toISOString().split('T')[0]}.${format}${encrypted ? '.enc' : ''}`;
+    return new Response(encrypted ? await encryptExportArchive(textEncoder.encode(file.body), String(archivePassword)) : file.body, {
+      headers: {
+        'Content-Type': encrypted ? 'application/octet-stream' : file.contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'X-Export-Count': String(rows.length),
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Invalid JSON';
+    console.error('Error exporting keys:', errorMessage);
+    return createErrorResponse(errorMessage, 400);
+  }
+}
+
+/**
+ * Handles GET /api/keys/:id/full - returns the full unmasked key for a specific ID.
+ */
+async function handleGetFullKey(pathname: string, env: Env, audit: AuditContext): Promise<Response> {
+  try {
+    const id = pathname.split("/api/keys/")[1]?.split("/")[0];
+    if (!id) return createErrorResponse("Key ID is required", 400);
+
+    const fullKey = await getKeyById(env.store, await getKeyCipher(env), id);
+    if (!fullKey) return createErrorResponse("Key not found", 404);
+    await recordAudit(env.store, audit, 'keys.reveal', [{ id, key: fullKey }]);
+
+    return createJsonResponse({ success: true, key: fullKey });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error getting full key:', errorMessage);
+    return createErrorResponse(errorMessage, 500);
+  }
+}
+
+/**
+ * Handles POST /api/keys/:id/refresh - refreshes data for a single API key.
+ */
+async function handleRefreshSingleKey(pathname: string, env: Env): Promise<Response> {
+  try {
+    const id = pathname.split("/api/keys/")[1].replace("/refresh", "");
+
+    if (!id) {
+      return createErrorResponse("Key ID is required", 400);
+    }
+
+    // Get the key from database
+    const [apiKey] = await getKeysByIds(env.store, await getKeyCipher(env), [id]);
+    
+    if (!apiKey) {
+      return createErrorResponse("Key not found", 404);
+    }
+
+    // Fetch fresh data for this key
+    const keyData = await fetchApiKeyData(id, apiKey.key, apiKey.provider, undefined, getUpstreamOptions(env));
+    await updateCachedResult(env.store, keyData);
+
+    return createJsonResponse({
+      success: true,
+      data: keyData
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error refreshing key:', errorMessage);
+    return createErrorResponse(errorMessage, 500);
+  }
+}
+
+/**
+ * Handles GET /api/keys/:id/history - returns the usage snapshot series of a key.
+ */
+async function handleGetKeyHistory(url: URL, env: Env): Promise<Response> {
+  try {
+    const id = url.pathname.split("/api/keys/")[1]?.split("/")[0];
+    if (!id) return createErrorResponse("Key ID is required", 400);
+
+    const to = parseTimeParam(url.searchParams.get('to')) ?? Date.now();
+    const from = parseTimeParam(url.searchParams.get('from')) ?? to - CONFIG.HISTORY_DEFAULT_DAYS * 24 * 60 * 60 * 1000;
+    if (Number.isNaN(from) || Number.isNaN(to) || from > to) {
+      return createErrorResponse("Invalid from/to range", 400);
+    }
+
+    if (!(await getKeyById(env.store, await getKeyCipher(env), id))) return createErrorResponse("Key not found", 404);
+
+    const snapshots = await env.store.getUsageHistory(id, from, to);
+
+    return createJsonResponse({
+      success: true,
+      id,
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+      points: snapshots.map(({ capturedAt, ...rest }) => ({ time: new Date(capturedAt).toISOString(), ...rest })),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error getting key history:', errorMessage);
+    return createErrorResponse(errorMessage, 500);
+  }
+}
+
+/**
+ * Validates an alert rule payload on top of an existing (or default) rule.
+ * Returns the merged rule, or an error message when invalid.
+ */
+function parseAlertRule(body: unknown, existing: AlertRule): AlertRule | string {
+  if (!body || typeof body !== 'object') return "Invalid alert rule";
+
+  const input = body as Partial<AlertRule>;
+  const rule: AlertRule = { ...existing, ...input, id: existing.id };
+
+  if (!(CONFIG.ALERT_RULE_TYPES as readonly string[]).includes(rule.type)) {
+    return `type must be one of ${CONFIG.ALERT_RULE_TYPES.join(', ')}`;
+  }
+  rule.name = String(rule.name || '').trim() || rule.type;
+  rule.match = rule.match ? String(rule.match).trim() : null;
+  rule.enabled = rule.enabled !== false;
+
+  if (rule.type === 'key_used_ratio') {
+    if (typeof rule.threshold !== 'number' || rule.threshold <= 0 || rule.threshold > 1) {
+      return "threshold must be a ratio between 0 and 1";
+    }
+  } else if (rule.type === 'pool_remaining') {
+    if (typeof rule.threshold !== 'number' || rule.threshold < 0) {
+      return "threshold must be a non-negative token count";
+    }
+  } else {
+    rule.threshold = null;
+  }
+
+  return rule;
+}
+
+/**
+ * Handles GET /api/alerts - returns all alert rules and webhooks.
+ */
+async function handleGetAlerts(env: Env): Promise<Response> {
+  try {
+    const [rules, webhooks] = await Promise.all([env.store.getAlertRules(), env.store.getAlertWebhooks()]);
+    return createJsonResponse({
+      success: true,
+      rules,
+      webhooks: webhooks.map(w => ({ ...w, secret: w.secret ? maskApiKey(w.secret) : null })),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error getting alerts:', errorMessage);
+    return createErrorResponse(errorMessage, 500);
+  }
+}
+
+/**
+ * Handles POST /api/alerts/rules and PUT /api/alerts/rules/:id - creates or updates a rule.
+ */
+async function handleSaveAlertRule(req: Request, env: Env, id?: string): Promise<Response> {
+  try {
+    let existing: AlertRule = { id: generateId('rule'), name: '', type: 'key_used_ratio', threshold: null, match: null, enabled: true };
+    if (id) {
+      const found = (await env.store.getAlertRules()).find(r => r.id === id);
+      if (!found) return createErrorResponse("Alert rule not found", 404);
+      existing = found;
+    }
+
+    const rule = parseAlertRule(await req.json(), existing);
+    if (typeof rule === 'string') return createErrorResponse(rule, 400);
+
+    await env.store.saveAlertRule(rule);
+    return createJsonResponse({ success: true, rule });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Invalid JSON';
+    console.error('Error saving alert rule:', errorMessage);
+    return createErrorResponse(errorMessage, 400);
+  }
+}
+
+async function handleDeleteAlertRule(id: string, env: Env): Promise<Response> {
+  if (!id) return createErrorResponse("Alert rule ID is required", 400);
+  if (!(await env.store.deleteAlertRule(id))) return createErrorResponse("Alert rule not found", 404);
+  return createJsonResponse({ success: true });
+}
+
+/**
+ * Handles POST /api/alerts/webhooks and PUT /api/alerts/webhooks/:id - creates or updates a webhook.
+ */
+async function handleSaveAlertWebhook(req: Request, env: Env, id?: string): Promise<Response> {
+  try {
+    let existing: AlertWebhook = { id: generateId('hook'), type: 'generic', url: '', secret: null, chatId: null, enabled: true };
+    if (id) {
+      const found = (await env.store.getAlertWebhooks()).find(w => w.id === id);
+      if (!found) return createErrorResponse("Webhook not found", 404);
+      existing = found;
+    }
+
+    const input = await req.json() as Partial<AlertWebhook>;
+    const webhook: AlertWebhook = {
+      id: existing.id,
+      type: input.type ?? existing.type,
+      url: String(input.url ?? existing.url).trim(),
+      // An omitted or empty secret keeps the stored one, since listings only expose it masked
+      secret: input.secret ? String(input.secret).trim() : existing.secret,
+      chatId: input.chatId !== undefined ? String(input.chatId).trim() || null : existing.chatId,
+      enabled: (input.enabled ?? existing.enabled) !== false,
+    };
+    if (!(CONFIG.NOTIFIER_TYPES as readonly string[]).includes(webhook.type)) {
+      return createErrorResponse(`type must be one of ${CONFIG.NOTIFIER_TYPES.join(', ')}`, 400);
+    }
+    if (webhook.type === 'telegram') {
+      if (!webhook.secret || !webhook.chatId) return createErrorResponse("Telegram requires a bot token and chatId", 400);
+      if (webhook.url && !/^https?:\/\/\S+$/.test(webhook.url)) return createErrorResponse("url must be an http(s) URL", 400);
+    } else if (!/^https?:\/\/\S+$/.test(webhook.url)) {
+      return createErrorResponse("url must be an http(s) URL", 400);
+    }
+
+    await env.store.saveAlertWebhook(webhook);
+    return createJsonResponse({ success: true, webhook: { ...webhook, secret: webhook.secret ? maskApiKey(webhook.secret) : null } });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Invalid JSON';
+    console.error('Error saving webhook:', errorMessage);
+    return createErrorResponse(errorMessage, 400);
+  }
+}
+
+/**
+ * Handles POST /api/alerts/webhooks/:id/test - sends a sample alert through the channel.
+ */
+async function handleTestAlertWebhook(pathname: string, env: Env): Promise<Response> {
+  const id = pathname.split("/api/alerts/webhooks/")[1]?.split("/")[0];
+  if (!id) return createErrorResponse("Webhook ID is required", 400);
+
+  const webhook = (await env.store.getAlertWebhooks()).find(w => w.id === id);
+  if (!webhook) return createErrorResponse("Webhook not found", 404);
+
+  const sampleKey = maskApiKey('fk-test-0000000000000000');
+  const alerts: AlertEvent[] = [{
+    ruleId: 'test',
+    ruleName: '测试消息',
+    type: 'key_used_ratio',
+    target: 'test',
+    key: sampleKey,
+    value: 0.95,
+    threshold: 0.8,
+    message: `这是一条测试消息，示例 Key ${sampleKey} 使用率 95.00% 已达到阈值 80%`,
+  }];
+
+  try {
+    await sendNotification(webhook, alerts, formatBeijingTime(getBeijingTime(), "yyyy-MM-dd HH:mm:ss"));
+    return createJsonResponse({ success: true });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to send';
+    return createErrorResponse(`发送失败: ${errorMessage}`, 502);
+  }
+}
+
+async function handleDeleteAlertWebhook(id: string, env: Env): Promise<Response> {
+  if (!id) return createErrorResponse("Webhook ID is required", 400);
+  if (!(await env.store.deleteAlertWebhook(id))) return createErrorResponse("Webhook not found", 404);
+  return createJsonResponse({ success: true });
+}
+
+/**
+ * Handles GET /api/users - lists all users.
+ */
+async function handleGetUsers(env: Env): Promise<Response> {
+  try {
+    return createJsonResponse({ success: true, users: await env.store.getUsers() });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error getting users:', errorMessage);
+    return createErrorResponse(errorMessage, 500);
+  }
+}
+
+function isUserRole(role: unknown): role is UserRole {
+  return (CONFIG.USER_ROLES as readonly unknown[]).includes(role);
+}
+
+/**
+ * Handles POST /api/users - creates a user with a hashed password.
+ */
+async function handleCreateUser(req: Request, env: Env, audit: AuditContext): Promise<Response> {
+  try {
+    const { username, password, role } = await req.json() as { username?: string; password?: string; role?: string };
+    const name = String(username || '').trim();
+
+    if (!name) return createErrorResponse("username is required", 400);
+    if (!password || String(password).length < CONFIG.MIN_PASSWORD_LENGTH) {
+      return createErrorResponse(`password must be at least ${CONFIG.MIN_PASSWORD_LENGTH} characters`, 400);
+    }
+    if (!isUserRole(role)) return createErrorResponse(`role must be one of ${CONFIG.USER_ROLES.join(', ')}`, 400);
+    // The bootstrap login stops working once a user exists, so the first one must be able to manage users
+    if (role !== 'admin' && (await env.store.countUsers()) === 0) {
+      return createErrorResponse("The first user must be an admin", 400);
+    }
+    if (await env.store.getUserByUsername(name)) return createErrorResponse("Username already exists", 409);
+
+    const user: UserRecord = { id: generateId('user'), username: name, role, ...(await hashPassword(String(password))) };
+    await env.store.saveUser(user);
+    await recordAudit(env.store, audit, 'user.create', [{ id: user.id }], { username: user.username, role: user.role });
+
+    return createJsonResponse({ success: true, user: { id: user.id, username: user.username, role: user.role } });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Invalid JSON';
+    console.error('Error creating user:', errorMessage);
+    return createErrorResponse(errorMessage, 400);
+  }
+}
+
+/**
+ * Handles PUT /api/users/:id - changes a user's role and/or password.
+ */
+async function handleUpdateUser(req: Request, env: Env, id: string, audit: AuditContext): Promise<Response> {
+  try {
+    const user = id ? await env.store.getUserById(id) : null;
+    if (!user) return createErrorResponse("User not found", 404);
+
+    const { password, role } = await req.json() as { password?: string; role?: string };
+
+    if (role !== undefined) {
+      if (!isUserRole(role)) return createErrorResponse(`role must be one of ${CONFIG.USER_ROLES.join(', ')}`, 400);
+      if (user.role === 'admin' && role !== 'admin' && (await env.store.getUsers()).filter(u => u.role === 'admin').length <= 1) {
+        return createErrorResponse("At least one admin is required", 400);
+      }
+      user.role = role;
+    }
+    if (password !== undefined) {
+      if (String(password).length < CONFIG.MIN_PASSWORD_LENGTH) {
+        return createErrorResponse(`password must be at least ${CONFIG.MIN_PASSWORD_LENGTH} characters`, 400);
+      }
+      Object.assign(user, await hashPassword(String(password)));
+    }
+
+    await env.store.saveUser(user);
+    await recordAudit(env.store, audit, 'user.update', [{ id: user.id }], {
+      username: user.username,
+      ...(role !== undefined && { role }),
+      ...(password !== undefined && { passwordReset: true }),
+    });
+    return createJsonResponse({ success: true, user: { id: user.id, username: user.username, role: user.role } });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Invalid JSON';
+    console.error('Error updating user:', errorMessage);
+    return createErrorResponse(errorMessage, 400);
+  }
+}
+
+/**
+ * Handles DELETE /api/users/:id - deletes a user other than the caller.
+ */
+async function handleDeleteUser(env: Env, id: string, session: Session, audit: AuditContext): Promise<Response> {
+  if (!id) return createErrorResponse("User ID is required", 400);
+  if (id === session.uid) return createErrorResponse("Cannot delete the current user", 400);
+
+  const user = await env.store.getUserById(id);
+  if (!user) return createErrorResponse("User not found", 404);
+  if (user.role === 'admin' && (await env.store.getUsers()).filter(u => u.role === 'admin').length <= 1) {
+    return createErrorResponse("At least one admin is required", 400);
+  }
+
+  await env.store.deleteUser(id);
+  await recordAudit(env.store, audit, 'user.delete', [{ id }], { username: user.username });
+  return createJsonResponse({ success: true });
+}
+
+/**
+ * Handles GET /api/tokens - lists API tokens (never their secret value).
+ */
+async function handleGetApiTokens(env: Env): Promise<Response> {
+  try {
+    return createJsonResponse({ success: true, tokens: await env.store.getApiTokens() });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error getting API tokens:', errorMessage);
+    return createErrorResponse(errorMessage, 500);
+  }
+}
+
+/**
+ * Handles POST /api/tokens - creates a scoped API token; the plaintext is only returned here.
+ */
+async function handleCreateApiToken(req: Request, env: Env, session: Session, audit: AuditContext): Promise<Response> {
+  try {
+    if (session.uid === CONFIG.BOOTSTRAP_USER_ID) {
+      return createErrorResponse("请先创建正式管理员账号再创建 API Token", 400);
+    }
+
+    const { name, scopes, expiresInDays } = await req.json() as { name?: string; scopes?: unknown; expiresInDays?: number };
+    const tokenName = String(name || '').trim();
+    if (!tokenName) return createErrorResponse("name is required", 400);
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(sc => (CONFIG.TOKEN_SCOPES as readonly unknown[]).includes(sc))) {
+      return createErrorResponse(`scopes must be a non-empty subset of ${CONFIG.TOKEN_SCOPES.join(', ')}`, 400);
+    }
+    if (expiresInDays !== undefined && expiresInDays !== null && !(Number(expiresInDays) > 0)) {
+      return createErrorResponse("expiresInDays must be a positive number", 400);
+    }
+
+    const secret = `${CONFIG.TOKEN_PREFIX}${toBase64Url(crypto.getRandomValues(new Uint8Array(32)))}`;
+    const token: ApiToken = {
+      id: generateId('token'),
+      name: tokenName,
+      tokenPrefix: secret.substring(0, CONFIG.TOKEN_PREFIX.length + 8),
+      scopes: [...new Set(scopes as TokenScope[])],
+      userId: session.uid,
+      username: session.username,
+      expiresAt: expiresInDays ? Date.now() + Number(expiresInDays) * 24 * 60 * 60 * 1000 : null,
+      lastUsedAt: null,
+    };
+    await env.store.addApiToken(token, await sha256Hex(secret));
+    await recordAudit(env.store, audit, 'token.create', [{ id: token.id }], { name: token.name, scopes: token.scopes, expiresAt: token.expiresAt });
+
+    return createJsonResponse({ success: true, token: secret, info: token });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Invalid JSON';
+    console.error('Error creating API token:', errorMessage);
+    return createErrorResponse(errorMessage, 400);
+  }
+}
+
+async function handleDeleteApiToken(id: string, env: Env, audit: AuditContext): Promise<Response> {
+  if (!id) return createErrorResponse("Token ID is required", 400);
+  if (!(await env.store.deleteApiToken(id))) return createErrorResponse("Token not found", 404);
+  await recordAudit(env.store, audit, 'token.revoke', [{ id }]);
+  return createJsonResponse({ success: true });
+}
+
+/**
+ * Handles POST /api/admin/reencrypt-keys - encrypts rows still stored in plaintext and re-wraps rows
+ * written under KEY_ENCRYPTION_KEY_PREVIOUS, so the previous master key can be removed afterwards.
+ */
+async function handleReencryptKeys(env: Env, audit: AuditContext): Promise<Response> {
+  try {
+    const reencrypted = await reencryptKeys(env.store, await getKeyCipher(env));
+    await recordAudit(env.store, audit, 'keys.reencrypt', [], { reencrypted });
+    return createJsonResponse({ success: true, reencrypted });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error re-encrypting keys:', errorMessage);
+    return createErrorResponse(errorMessage, 500);
+  }
+}
+
+/**
+ * Handles GET /api/audit - paginated audit log, filterable by action, actor and time range.
+ */
+async function handleGetAuditLog(url: URL, env: Env): Promise<Response> {
+  try {
+    const page = Math.max(1, Math.floor(Number(url.searchParams.get('page')) || 1));
+    const pageSize = Math.min(CONFIG.AUDIT_MAX_PAGE_SIZE, Math.max(1, Math.floor(Number(url.searchParams.get('pageSize')) || CONFIG.AUDIT_PAGE_SIZE)));
+    const from = parseTimeParam(url.searchParams.get('from'));
+    const to = parseTimeParam(url.searchParams.get('to'));
+    if (Number.isNaN(from) || Number.isNaN(to)) {
+      return createErrorResponse("Invalid from/to range", 400);
+    }
+
+    const { entries, total } = await env.store.queryAuditLog({
+      action: url.searchParams.get('action') || undefined,
+      actor: url.searchParams.get('actor') || undefined,
+      from,
+      to,
+      limit: pageSize,
+      offset: (page - 1) * pageSize,
+    });
+    return createJsonResponse({ success: true, entries, total, page, pageSize });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error getting audit log:', errorMessage);
+    return createErrorResponse(errorMessage, 500);
+  }
+}
+
+// ==================== Main Request Handler ====================
+
+/**
+ * Main HTTP request handler that routes requests to appropriate handlers.
+ */
+async function handler(req: Request, env: Env): Promise<Response> {
+  const url = new URL(req.url);
+
+  // Everything except the public query page reads the store, so refuse it while migrations are pending
+  if (url.pathname !== "/public" && url.pathname !== "/api/public/usage") {
+    const schemaError = await checkSchema(env.store);
+    if (schemaError) {
+      console.error(`Schema check failed: ${schemaError}`);
+      return createErrorResponse(schemaError, 503);
+    }
+  }
+
+  // Route: Root path - Dashboard
+  if (url.pathname === "/") {
+    return await handleRoot(req, env);
+  }
+
+  // Route: GET /public - Public query page
+  if (url.pathname === "/public" && req.method === "GET") {
+    return new Response(PUBLIC_HTML, {
+      headers: { "Content-Type": "text/html; charset=utf-8" }
+    });
+  }
+
+  // Route: POST /api/public/usage - Public key usage query
+  if (url.pathname === "/api/public/usage" && req.method === "POST") {
+    return await handlePublicUsage(req, env);
+  }
+
+  // Route: POST /api/login - Login
+  if (url.pathname === "/api/login" && req.method === "POST") {
+    return await handleLogin(req, env);
+  }
+
+  // All routes below require a session cookie or API token; each route also checks role and token scope
+  const session = await authenticate(req, env);
+  if (!session) {
+    return createErrorResponse("未登录或会话已过期", 401);
+  }
+  const audit = getAuditContext(req, session);
+
+  // Route: POST /api/logout - Logout
+  if (url.pathname === "/api/logout" && req.method === "POST") {
+    return handleLogout(req);
+  }
+
+  // Route: GET /api/me - Current user
+  if (url.pathname === "/api/me" && req.method === "GET") {
+    return createJsonResponse({ success: true, user: { id: session.uid, username: session.username, role: session.role } });
+  }
+
+  // Route: GET /api/data - Get aggregated usage data; fresh=1 queries the providers, which takes an operator
+  if (url.pathname === "/api/data" && req.method === "GET") {
+    const denied = url.searchParams.get('fresh') === '1'
+      ? requireAccess(session, 'operator', 'keys:write')
+      : requireAccess(session, 'viewer', 'usage:read');
+    return denied ?? await handleGetData(url, env);
+  }
+
+  // Route: POST /api/refresh - Refresh the next chunk of a forced sweep (`since` continues one)
+  if (url.pathname === "/api/refresh" && req.method === "POST") {
+    const target = new URL(url);
+    target.searchParams.set('fresh', '1');
+    return requireAccess(session, 'operator', 'keys:write') ?? await handleGetData(target, env);
+  }
+
+  // Route: GET /api/refresh/runs - Refresh stats
+  if (url.pathname === "/api/refresh/runs" && req.method === "GET") {
+    return requireAccess(session, 'viewer', 'usage:read') ?? await handleGetRefreshRuns(url, env);
+  }
+
+  // Route: GET /api/keys - Get all keys (plaintext)
+  if (url.pathname === "/api/keys" && req.method === "GET") {
+    return requireAccess(session, 'admin', 'keys:export') ?? await handleGetKeys(env, audit);
+  }
+
+  // Route: POST /api/keys - Add key(s)
+  if (url.pathname === "/api/keys" && req.method === "POST") {
+    return requireAccess(session, 'operator', 'keys:write') ?? await handleAddKeys(req, env, audit);
+  }
+
+  // Route: POST /api/keys/import - Import a CSV, JSON or .env file (dry_run=1 to preview)
+  if (url.pathname === "/api/keys/import" && req.method === "POST") {
+    return requireAccess(session, 'operator', 'keys:write') ?? await handleImportKeys(req, url, env, audit);
+  }
+
+  // Route: POST /api/keys/batch-delete - Batch delete keys
+  if (url.pathname === "/api/keys/batch-delete" && req.method === "POST") {
+    return requireAccess(session, 'operator', 'keys:write') ?? await handleBatchDeleteKeys(req, env, audit);
+  }
+
+  // Route: GET /api/trash - List deleted keys
+  if (url.pathname === "/api/trash" && req.method === "GET") {
+    return requireAccess(session, 'operator', 'keys:write') ?? await handleGetTrash(env);
+  }
+
+  // Route: POST /api/trash/restore - Restore deleted keys (also used by the undo toast)
+  if (url.pathname === "/api/trash/restore" && req.method === "POST") {
+    return requireAccess(session, 'operator', 'keys:write') ?? await handleTrashAction(req, env, 'restore', audit);
+  }
+
+  // Route: POST /api/trash/purge - Permanently delete keys from the trash
+  if (url.pathname === "/api/trash/purge" && req.method === "POST") {
+    return requireAccess(session, 'admin', 'keys:write') ?? await handleTrashAction(req, env, 'purge', audit);
+  }
+
+  // Route: POST /api/keys/export - Export keys with password
+  if (url.pathname === "/api/keys/export" && req.method === "POST") {
+    return requireAccess(session, 'admin', 'keys:export') ?? await handleExportKeys(req, env, session, audit);
+  }
+
+  // Route: DELETE /api/keys/:id - Delete a key
+  if (url.pathname.startsWith("/api/keys/") && req.method === "DELETE") {
+    return requireAccess(session, 'operator', 'keys:write') ?? await handleDeleteKey(url.pathname, env, audit);
+  }
+
+  // Route: PATCH /api/keys/:id - Update key metadata
+  if (url.pathname.match(/^\/api\/keys\/[^/]+$/) && req.method === "PATCH") {
+    return requireAccess(session, 'operator', 'keys:write') ?? await handleUpdateKeyMetadata(req, env, url.pathname.split("/api/keys/")[1], audit);
+  }
+
+  // Route: POST /api/keys/:id/refresh - Refresh single key
+  if (url.pathname.match(/^\/api\/keys\/.+\/refresh$/) && req.method === "POST") {
+    return requireAccess(session, 'operator', 'keys:write') ?? await handleRefreshSingleKey(url.pathname, env);
+  }
+
+  // Route: POST /api/keys/:id/restore - Restore a quarantined or archived key
+  if (url.pathname.match(/^\/api\/keys\/[^/]+\/restore$/) && req.method === "POST") {
+    return requireAccess(session, 'operator', 'keys:write') ?? await handleRestoreKey(url.pathname.split("/")[3], env, audit);
+  }
+
+  // Route: GET /api/keys/:id/full - Get full unmasked key
+  if (url.pathname.match(/^\/api\/keys\/.+\/full$/) && req.method === "GET") {
+    return requireAccess(session, 'admin', 'keys:export') ?? await handleGetFullKey(url.pathname, env, audit);
+  }
+
+  // Route: GET /api/keys/:id/history - Get usage snapshot history
+  if (url.pathname.match(/^\/api\/keys\/.+\/history$/) && req.method === "GET") {
+    return requireAccess(session, 'viewer', 'usage:read') ?? await handleGetKeyHistory(url, env);
+  }
+
+  // Route: GET /api/alerts - List alert rules and webhooks
+  if (url.pathname === "/api/alerts" && req.method === "GET") {
+    return requireAccess(session, 'operator') ?? await handleGetAlerts(env);
+  }
+
+  // Route: POST /api/alerts/rules - Create alert rule
+  if (url.pathname === "/api/alerts/rules" && req.method === "POST") {
+    return requireAccess(session, 'operator') ?? await handleSaveAlertRule(req, env);
+  }
+
+  // Route: PUT|DELETE /api/alerts/rules/:id - Update or delete alert rule
+  if (url.pathname.startsWith("/api/alerts/rules/")) {
+    const id = url.pathname.split("/api/alerts/rules/")[1];
+    if (req.method === "PUT") return requireAccess(session, 'operator') ?? await handleSaveAlertRule(req, env, id);
+    if (req.method === "DELETE") return requireAccess(session, 'operator') ?? await handleDeleteAlertRule(id, env);
+  }
+
+  // Route: POST /api/alerts/webhooks - Create webhook
+  if (url.pathname === "/api/alerts/webhooks" && req.method === "POST") {
+    return requireAccess(session, 'operator') ?? await handleSaveAlertWebhook(req, env);
+  }
+
+  // Route: POST /api/alerts/webhooks/:id/test - Send a test message
+  if (url.pathname.match(/^\/api\/alerts\/webhooks\/.+\/test$/) && req.method === "POST") {
+    return requireAccess(session, 'operator') ?? await handleTestAlertWebhook(url.pathname, env);
+  }
+
+  // Route: PUT|DELETE /api/alerts/webhooks/:id - Update or delete webhook
+  if (url.pathname.startsWith("/api/alerts/webhooks/")) {
+    const id = url.pathname.split("/api/alerts/webhooks/")[1];
+    if (req.method === "PUT") return requireAccess(session, 'operator') ?? await handleSaveAlertWebhook(req, env, id);
+    if (req.method === "DELETE") return requireAccess(session, 'operator') ?? await handleDeleteAlertWebhook(id, env);
+  }
+
+  // Route: GET /api/tokens - List API tokens
+  if (url.pathname === "/api/tokens" && req.method === "GET") {
+    return requireAccess(session, 'admin') ?? await handleGetApiTokens(env);
+  }
+
+  // Route: POST /api/tokens - Create API token
+  if (url.pathname === "/api/tokens" && req.method === "POST") {
+    return requireAccess(session, 'admin') ?? await handleCreateApiToken(req, env, session, audit);
+  }
+
+  // Route: DELETE /api/tokens/:id - Revoke API token
+  if (url.pathname.startsWith("/api/tokens/") && req.method === "DELETE") {
+    return requireAccess(session, 'admin') ?? await handleDeleteApiToken(url.pathname.split("/api/tokens/")[1], env, audit);
+  }
+
+  // Route: POST /api/admin/reencrypt-keys - Encrypt / re-wrap stored keys under the current master key
+  if (url.pathname === "/api/admin/reencrypt-keys" && req.method === "POST") {
+    return requireAccess(session, 'admin') ?? await handleReencryptKeys(env, audit);
+  }
+
+  // Route: GET /api/audit - Audit log
+  if (url.pathname === "/api/audit" && req.method === "GET") {
+    return requireAccess(session, 'admin') ?? await handleGetAuditLog(url, env);
+  }
+
+  // Route: GET /api/users - List users
+  if (url.pathname === "/api/users" && req.method === "GET") {
+    return requireAccess(session, 'admin') ?? await handleGetUsers(env);
+  }
+
+  // Route: POST /api/users - Create user
+  if (url.pathname === "/api/users" && req.method === "POST") {
+    return requireAccess(session, 'admin') ?? await handleCreateUser(req, env, audit);
+  }
+
+  // Route: PUT|DELETE /api/users/:id - Update or delete user
+  if (url.pathname.startsWith("/api/users/")) {
+    const id = url.pathname.split("/api/users/")[1];
+    if (req.method === "PUT") return requireAccess(session, 'admin') ?? await handleUpdateUser(req, env, id, audit);
+    if (req.method === "DELETE") return requireAccess(session, 'admin') ?? await handleDeleteUser(env, id, session, audit);
+  }
+
+  // 404 for all other routes
+  return new Response("Not Found", { status: 404 });
+}
+
+// ==================== Entry Points ====================
+
+/**
+ * Logs and handles one request, turning any uncaught error into a 500 JSON response.
+ */
+export async function handleRequest(request: Request, env: Env): Promise<Response> {
+  try {
+    console.log(`[${new Date().toISOString()}] Request: ${request.method} ${new URL(request.url).pathname}`);
+    const response = await handler(request, env);
+    console.log(`[${new Date().toISOString()}] Response: ${response.status}`);
+    return response;
+  } catch (error) {
+    // The details stay in the log: public routes answer anonymous callers too
+    console.error('[FATAL ERROR]', error instanceof Error ? error.stack : error);
+    return createErrorResponse('Internal Server Error', 500);
+  }
+}
+
+/**
+ * The periodic job, run every CONFIG.CRON_INTERVAL_MINUTES by the Workers cron trigger, Deno.cron or server.ts:
+ * re-encryption, pruning, a refresh chunk, the key lifecycle, the trash and alerts.
+ */
+export async function runScheduled(env: Env): Promise<void> {
+  const audit: AuditContext = { actorId: null, actorName: 'scheduled', tokenId: null, ip: null, userAgent: null };
+
+  const schemaError = await checkSchema(env.store);
+  if (schemaError) {
+    console.error(`Skipping scheduled run: ${schemaError}`);
+    return;
+  }
+
+  try {
+    const reencrypted = await reencryptKeys(env.store, await getKeyCipher(env));
+    if (reencrypted > 0) {
+      console.log(`Re-encrypted ${reencrypted} API keys under the current master key`);
+      await recordAudit(env.store, audit, 'keys.reencrypt', [], { reencrypted });
+    }
+  } catch (error) {
+    console.error('Error re-encrypting keys:', error);
+  }
+
+  try {
+    await env.store.pruneAuditLog(Date.now() - getAuditRetentionDays(env) * 24 * 60 * 60 * 1000);
+  } catch (error) {
+    console.error('Error pruning audit log:', error);
+  }
+
+  try {
+    await env.store.pruneRefreshRuns(Date.now() - CONFIG.REFRESH_RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  } catch (error) {
+    console.error('Error pruning refresh runs:', error);
+  }
+
+  let cache: { data: AggregatedResponse; refreshedAt: number } | null = null;
+  try {
+    cache = await refreshData(env, 'scheduled');
+  } catch (error) {
+    console.error('Error refreshing data:', error);
+  }
+
+  try {
+    await applyKeyLifecycle(env, audit);
+  } catch (error) {
+    console.error('Error applying key lifecycle:', error);
+  }
+
+  try {
+    await purgeExpiredTrash(env, audit);
+  } catch (error) {
+    console.error('Error purging trash:', error);
+  }
+  if (!cache) return;
+
+  try {
+    await evaluateAlerts(env.store, cache.data);
+  } catch (error) {
+    console.error('Error evaluating alerts:', error);
+  }
+}
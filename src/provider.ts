@@ -0,0 +1,73 @@
+// provider.ts - Usage provider interface; each upstream API is mapped by one of the implementations in src/providers/
+
+import { anthropicProvider } from './providers/anthropic.ts';
+import { deepseekProvider } from './providers/deepseek.ts';
+import { factoryProvider } from './providers/factory.ts';
+import { openaiProvider } from './providers/openai.ts';
+import { openrouterProvider } from './providers/openrouter.ts';
+import type { ProviderId, UsageTier, UsageUnit } from './types.ts';
+
+// ==================== Type Definitions ====================
+
+/**
+ * One key's usage as every provider reports it. The field names are Factory's, which came first;
+ * for other providers the amounts are in `unit` rather than tokens.
+ */
+export interface NormalizedUsage {
+  unit: UsageUnit;
+  startDate: number | null; // Usage window in epoch ms; null for a balance that has no window
+  endDate: number | null;
+  orgTotalTokensUsed: number;
+  totalAllowance: number | null; // Null when the provider reports spend but no limit
+  usedRatio: number | null; // Null without a limit, so the key is never counted as 0% used
+  tiers?: Record<string, UsageTier>; // Providers with several allowances; the figures above are the primary one's
+}
+
+export interface ProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Maps one provider's usage or balance API onto NormalizedUsage. Providers only describe the
+ * request and read the response; retries, timeouts and rate limiting stay in upstream-client.ts.
+ */
+export interface UsageProvider {
+  id: ProviderId;
+  name: string; // Shown in the dashboard
+  baseUrl: string; // Without a trailing slash; PROVIDER_BASE_URLS may replace it
+  /** Whether a key looks like one of this provider's; see PROVIDER_DETECTION_ORDER. */
+  matchesKey(key: string): boolean;
+  /** The usage request for a key. `now` lets month-to-date providers pick their window. */
+  buildRequest(key: string, baseUrl: string, now: number): ProviderRequest;
+  /** Reads a successful response body; null when it does not have the expected shape. */
+  parseUsage(body: unknown, now: number): NormalizedUsage | null;
+}
+
+// ==================== Registry ====================
+
+export const PROVIDERS: Record<ProviderId, UsageProvider> = {
+  factory: factoryProvider,
+  openai: openaiProvider,
+  anthropic: anthropicProvider,
+  openrouter: openrouterProvider,
+  deepseek: deepseekProvider,
+};
+
+export const PROVIDER_IDS = Object.keys(PROVIDERS) as ProviderId[];
+
+// More specific prefixes first: OpenRouter and Anthropic keys also start with "sk-", and DeepSeek's
+// only differ from OpenAI's by their fixed length
+const PROVIDER_DETECTION_ORDER: ProviderId[] = ['factory', 'anthropic', 'openrouter', 'deepseek', 'openai'];
+
+// Keys predating providers were all Factory keys, so unrecognized keys stay with Factory
+export const DEFAULT_PROVIDER: ProviderId = 'factory';
+
+export const isProviderId = (value: unknown): value is ProviderId => (PROVIDER_IDS as unknown[]).includes(value);
+
+/**
+ * Guesses a key's provider from its prefix.
+ */
+export function detectProvider(key: string): ProviderId {
+  return PROVIDER_DETECTION_ORDER.find(id => PROVIDERS[id].matchesKey(key)) ?? DEFAULT_PROVIDER;
+}
@@ -0,0 +1,45 @@
+// providers/anthropic.ts - Anthropic organization cost report for the current month, in USD
+
+import type { UsageProvider } from '../provider.ts';
+import { isObject, toAmount, utcMonthWindow } from './common.ts';
+
+// ==================== Provider ====================
+
+const API_VERSION = '2023-06-01';
+
+/**
+ * GET /v1/organizations/cost_report returns daily buckets, `{ data: [{ results: [{ amount }] }] }`,
+ * where `amount` is a decimal string in cents. There is no balance API, so this reports
+ * month-to-date spend without a limit, and it only accepts Admin API keys (sk-ant-admin...).
+ */
+export const anthropicProvider: UsageProvider = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  baseUrl: 'https://api.anthropic.com',
+
+  matchesKey: key => key.startsWith('sk-ant-'),
+
+  buildRequest(key, baseUrl, now) {
+    const { start } = utcMonthWindow(now);
+    // 31 daily buckets cover any month in one page
+    const query = new URLSearchParams({ starting_at: new Date(start).toISOString(), bucket_width: '1d', limit: '31' });
+    return {
+      url: `${baseUrl}/v1/organizations/cost_report?${query}`,
+      headers: { 'x-api-key': key, 'anthropic-version': API_VERSION },
+    };
+  },
+
+  parseUsage(body, now) {
+    if (!isObject(body) || !Array.isArray(body.data)) return null;
+
+    let cents = 0;
+    for (const bucket of body.data) {
+      for (const result of isObject(bucket) && Array.isArray(bucket.results) ? bucket.results : []) {
+        cents += (isObject(result) && toAmount(result.amount)) || 0;
+      }
+    }
+
+    const { start, end } = utcMonthWindow(now);
+    return { unit: 'USD', startDate: start, endDate: end, orgTotalTokensUsed: cents / 100, totalAllowance: null, usedRatio: null };
+  },
+};
@@ -0,0 +1,22 @@
+// providers/common.ts - Parsing helpers shared by the provider implementations
+
+/**
+ * Reads a number that providers may send as a JSON number or a decimal string.
+ */
+export function toAmount(value: unknown): number | null {
+  const amount = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof amount === 'number' && Number.isFinite(amount) ? amount : null;
+}
+
+/**
+ * First and last millisecond of the UTC calendar month containing `now`, the window of the
+ * month-to-date cost providers.
+ */
+export function utcMonthWindow(now: number): { start: number; end: number } {
+  const date = new Date(now);
+  const start = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  return { start, end: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1) - 1 };
+}
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
@@ -0,0 +1,43 @@
+// providers/deepseek.ts - DeepSeek account balance, in CNY or USD
+
+import type { UsageProvider } from '../provider.ts';
+import { isObject, toAmount } from './common.ts';
+
+// ==================== Provider ====================
+
+/**
+ * GET /user/balance returns `{ is_available, balance_infos: [{ currency, total_balance, ... }] }`
+ * with amounts as decimal strings. Only the balance is reported, so it counts as the whole
+ * allowance with nothing used.
+ */
+export const deepseekProvider: UsageProvider = {
+  id: 'deepseek',
+  name: 'DeepSeek',
+  baseUrl: 'https://api.deepseek.com',
+
+  // "sk-" followed by 32 hex digits; other "sk-" keys are OpenAI's
+  matchesKey: key => /^sk-[0-9a-f]{32}$/.test(key),
+
+  buildRequest: (key, baseUrl) => ({
+    url: `${baseUrl}/user/balance`,
+    headers: { 'Authorization': `Bearer ${key}`, 'Accept': 'application/json' },
+  }),
+
+  parseUsage(body) {
+    if (!isObject(body) || !Array.isArray(body.balance_infos)) return null;
+
+    // An account holds one currency; an empty list means nothing was ever topped up
+    const info = body.balance_infos.find(isObject);
+    const balance = info ? toAmount(info.total_balance) : 0;
+    if (balance === null) return null;
+
+    return {
+      unit: info?.currency === 'USD' ? 'USD' : 'CNY',
+      startDate: null,
+      endDate: null,
+      orgTotalTokensUsed: 0,
+      totalAllowance: balance,
+      usedRatio: 0,
+    };
+  },
+};
@@ -0,0 +1,57 @@
+// providers/factory.ts - Factory AI organization chat usage, in tokens
+
+import type { UsageProvider } from '../provider.ts';
+import type { UsageTier } from '../types.ts';
+import { isObject, toAmount } from './common.ts';
+
+// ==================== Type Definitions ====================
+
+/**
+ * `usage` holds the window plus one bucket per tier (standard, premium, ...); every object in it
+ * with token figures counts as a tier, so new tiers show up without a code change.
+ */
+interface ApiResponse {
+  usage: {
+    startDate: number;
+    endDate: number;
+    [tier: string]: unknown;
+  };
+}
+
+// The tier whose figures stand for the key (status, forecasts, alerts) when it is present
+const PRIMARY_TIER = 'standard';
+
+// ==================== Provider ====================
+
+export const factoryProvider: UsageProvider = {
+  id: 'factory',
+  name: 'Factory',
+  baseUrl: 'https://app.factory.ai',
+
+  matchesKey: key => key.startsWith('fk-'),
+
+  buildRequest: (key, baseUrl) => ({
+    url: `${baseUrl}/api/organization/members/chat-usage`,
+    headers: { 'Authorization': `Bearer ${key}` },
+  }),
+
+  parseUsage(body) {
+    const usage = (body as ApiResponse)?.usage;
+    if (!isObject(usage)) return null;
+
+    const tiers: Record<string, UsageTier> = {};
+    for (const [name, bucket] of Object.entries(usage)) {
+      if (!isObject(bucket) || (toAmount(bucket.totalAllowance) === null && toAmount(bucket.orgTotalTokensUsed) === null)) continue;
+      const used = toAmount(bucket.orgTotalTokensUsed) || 0;
+      const allowance = toAmount(bucket.totalAllowance) || 0;
+      // Buckets without a ratio get one from their own figures
+      tiers[name] = { orgTotalTokensUsed: used, totalAllowance: allowance, usedRatio: toAmount(bucket.usedRatio) ?? (allowance > 0 ? used / allowance : 0) };
+    }
+
+    // Without a standard tier the first one reported stands in
+    const primary = tiers[PRIMARY_TIER] ?? Object.values(tiers)[0];
+    if (!primary) return null;
+
+    return { unit: 'tokens', startDate: usage.startDate, endDate: usage.endDate, ...primary, tiers };
+  },
+};
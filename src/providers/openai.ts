@@ -0,0 +1,43 @@
+// providers/openai.ts - OpenAI organization costs for the current month, in USD
+
+import type { UsageProvider } from '../provider.ts';
+import { isObject, toAmount, utcMonthWindow } from './common.ts';
+
+// ==================== Provider ====================
+
+/**
+ * GET /v1/organization/costs returns daily buckets, `{ data: [{ results: [{ amount: { value } }] }] }`.
+ * OpenAI has no balance API, so this reports month-to-date spend without a limit, and it only
+ * accepts organization admin keys (sk-admin-...); project keys get a 401 or 403.
+ */
+export const openaiProvider: UsageProvider = {
+  id: 'openai',
+  name: 'OpenAI',
+  baseUrl: 'https://api.openai.com',
+
+  matchesKey: key => key.startsWith('sk-'),
+
+  buildRequest(key, baseUrl, now) {
+    const { start } = utcMonthWindow(now);
+    // 31 daily buckets cover any month in one page
+    const query = new URLSearchParams({ start_time: String(start / 1000), bucket_width: '1d', limit: '31' });
+    return {
+      url: `${baseUrl}/v1/organization/costs?${query}`,
+      headers: { 'Authorization': `Bearer ${key}` },
+    };
+  },
+
+  parseUsage(body, now) {
+    if (!isObject(body) || !Array.isArray(body.data)) return null;
+
+    let spent = 0;
+    for (const bucket of body.data) {
+      for (const result of isObject(bucket) && Array.isArray(bucket.results) ? bucket.results : []) {
+        spent += (isObject(result) && isObject(result.amount) && toAmount(result.amount.value)) || 0;
+      }
+    }
+
+    const { start, end } = utcMonthWindow(now);
+    return { unit: 'USD', startDate: start, endDate: end, orgTotalTokensUsed: spent, totalAllowance: null, usedRatio: null };
+  },
+};
@@ -0,0 +1,39 @@
+// providers/openrouter.ts - OpenRouter account credits, in USD
+
+import type { UsageProvider } from '../provider.ts';
+import { isObject, toAmount } from './common.ts';
+
+// ==================== Provider ====================
+
+/**
+ * GET /api/v1/credits returns `{ data: { total_credits, total_usage } }`: everything ever purchased
+ * and spent on the account, so there is no usage window.
+ */
+export const openrouterProvider: UsageProvider = {
+  id: 'openrouter',
+  name: 'OpenRouter',
+  baseUrl: 'https://openrouter.ai',
+
+  matchesKey: key => key.startsWith('sk-or-'),
+
+  buildRequest: (key, baseUrl) => ({
+    url: `${baseUrl}/api/v1/credits`,
+    headers: { 'Authorization': `Bearer ${key}` },
+  }),
+
+  parseUsage(body) {
+    const data = isObject(body) && isObject(body.data) ? body.data : null;
+    const credits = toAmount(data?.total_credits);
+    const used = toAmount(data?.total_usage);
+    if (credits === null || used === null) return null;
+
+    return {
+      unit: 'USD',
+      startDate: null,
+      endDate: null,
+      orgTotalTokensUsed: used,
+      totalAllowance: credits,
+      usedRatio: credits > 0 ? used / credits : 0,
+    };
+  },
+};
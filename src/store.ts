@@ -0,0 +1,135 @@
+// store.ts - Storage interface of the core; each runtime passes in one of the implementations in src/stores/
+
+import type {
+  AggregatedResponse, AlertRule, AlertWebhook, ApiKeyResult, ApiToken, AuditEntry, AuditQuery, KeyErrorClass,
+  KeyLifecycleState, KeyMetadata, RefreshRun, UsageSnapshot, User, UserRecord, UserRole,
+} from './types.ts';
+
+// ==================== Type Definitions ====================
+
+/**
+ * A key as stored. `key` is the encrypted value (or plaintext written before encryption existed);
+ * stores never encrypt, decrypt or hash keys themselves.
+ */
+export interface StoredKey extends KeyMetadata {
+  id: string;
+  key: string;
+  keyHash: string | null;
+  lifecycle: KeyLifecycleState;
+  lifecycleChangedAt: number | null;
+  createdAt: number;
+  deletedAt: number | null; // Set while the key is in the trash
+}
+
+export type NewStoredKey = Pick<StoredKey, 'id' | 'key' | 'keyHash'> & KeyMetadata;
+
+/** Which keys `listKeys` returns: the live ones, the trash, or both. */
+export type KeyScope = 'active' | 'trash' | 'all';
+
+/** The latest refresh result of a key and the failure history the lifecycle reads. */
+export interface KeyResultRecord {
+  keyId: string;
+  result: ApiKeyResult; // Without the key's metadata, which is joined in when read
+  refreshedAt: number;
+  lastSuccessAt: number | null;
+  consecutiveFailures: number;
+  errorClass: KeyErrorClass | null;
+  errorSince: number | null;
+  exhaustedSince: number | null;
+}
+
+export type AlertStateKey = { ruleId: string; target: string };
+
+// ==================== Key Store ====================
+
+/**
+ * Everything the core persists. Implementations only store and query; encryption, result
+ * merging and every other rule stay in the core so all backends behave the same.
+ */
+export interface KeyStore {
+  /** Newest applied migration number, or null for stores without migrations. */
+  getSchemaVersion(): Promise<number | null>;
+
+  // Keys
+  /** Keys in the given scope, newest first; `ids` limits the result to those keys. */
+  listKeys(scope?: KeyScope, ids?: string[]): Promise<StoredKey[]>;
+  /** Keys in any scope whose hash is in `hashes` or whose stored value is in `plaintext`. */
+  findKeys(hashes: string[], plaintext: string[]): Promise<Pick<StoredKey, 'key' | 'keyHash'>[]>;
+  /** Adds all of the keys or, where the backend has transactions, none of them. */
+  addKeys(keys: NewStoredKey[]): Promise<void>;
+  /** Updates the given fields of a live key; returns whether the key exists. */
+  updateKeyMetadata(id: string, metadata: Partial<KeyMetadata>): Promise<boolean>;
+  updateKeySecrets(updates: Pick<StoredKey, 'id' | 'key' | 'keyHash'>[]): Promise<void>;
+  /** Moves a live key into the trash; returns whether it was found. */
+  deleteKey(id: string, deletedAt: number): Promise<boolean>;
+  /** Moves a key out of the trash; returns whether it was found. */
+  restoreDeletedKey(id: string): Promise<boolean>;
+  /** Removes a key with its refresh result and usage snapshots. */
+  purgeKey(id: string): Promise<void>;
+  setKeyLifecycle(changes: { id: string; to: KeyLifecycleState }[], changedAt: number): Promise<void>;
+
+  // Refresh results and data cache
+  getKeyResults(ids?: string[]): Promise<KeyResultRecord[]>;
+  saveKeyResults(records: KeyResultRecord[]): Promise<void>;
+  getDataCache(name: string): Promise<{ data: AggregatedResponse; refreshedAt: number } | null>;
+  saveDataCache(name: string, data: AggregatedResponse, refreshedAt: number): Promise<void>;
+  getRefreshCursor(name: string): Promise<string | null>;
+  saveRefreshCursor(name: string, cursor: string): Promise<void>;
+  addRefreshRun(run: RefreshRun): Promise<void>;
+  /** Newest first. */
+  getRefreshRuns(limit: number): Promise<RefreshRun[]>;
+  pruneRefreshRuns(before: number): Promise<void>;
+
+  // Locks
+  /** Takes the lock when it is free or expired; returns whether it was taken. */
+  acquireLock(name: string, holder: string, ttlMs: number): Promise<boolean>;
+  isLockHeld(name: string): Promise<boolean>;
+  /** Releases the lock if `holder` still holds it. */
+  releaseLock(name: string, holder: string): Promise<void>;
+
+  // Usage snapshots
+  saveUsageSnapshots(snapshots: (UsageSnapshot & { keyId: string })[]): Promise<void>;
+  /** Snapshots of one key captured between `from` and `to` inclusive, oldest first. */
+  getUsageHistory(keyId: string, from: number, to: number): Promise<UsageSnapshot[]>;
+  /** The earliest snapshot of each key and usage window captured at or after `since`. */
+  getEarliestSnapshotsSince(since: number): Promise<UsageSnapshot[]>;
+  pruneUsageSnapshots(before: number): Promise<void>;
+
+  // Alerts
+  /** Oldest first. */
+  getAlertRules(): Promise<AlertRule[]>;
+  saveAlertRule(rule: AlertRule): Promise<void>;
+  /** Deletes the rule and its alert states; returns whether it existed. */
+  deleteAlertRule(id: string): Promise<boolean>;
+  /** Oldest first. */
+  getAlertWebhooks(): Promise<AlertWebhook[]>;
+  saveAlertWebhook(webhook: AlertWebhook): Promise<void>;
+  deleteAlertWebhook(id: string): Promise<boolean>;
+  /** Last firing time of each alert, keyed by `ruleId|target`. */
+  getAlertStates(): Promise<Map<string, number>>;
+  updateAlertStates(fired: AlertStateKey[], resolved: AlertStateKey[], firedAt: number): Promise<void>;
+
+  // Users and API tokens
+  /** Oldest first. */
+  getUsers(): Promise<User[]>;
+  getUserByUsername(username: string): Promise<UserRecord | null>;
+  getUserById(id: string): Promise<UserRecord | null>;
+  countUsers(): Promise<number>;
+  /** Creates the user or updates its role and password; the username never changes. */
+  saveUser(user: UserRecord): Promise<void>;
+  /** Deletes the user and its API tokens; returns whether the user existed. */
+  deleteUser(id: string): Promise<boolean>;
+  /** Newest first, with the creator's username. */
+  getApiTokens(): Promise<ApiToken[]>;
+  /** The token with its creator's current role; null when the creator no longer exists. */
+  getApiTokenByHash(tokenHash: string): Promise<(ApiToken & { role: UserRole }) | null>;
+  addApiToken(token: ApiToken, tokenHash: string): Promise<void>;
+  touchApiToken(id: string, usedAt: number): Promise<void>;
+  deleteApiToken(id: string): Promise<boolean>;
+
+  // Audit log
+  addAuditEntry(entry: Omit<AuditEntry, 'id'>): Promise<void>;
+  /** Newest first. */
+  queryAuditLog(query: AuditQuery): Promise<{ entries: AuditEntry[]; total: number }>;
+  pruneAuditLog(before: number): Promise<void>;
+}
@@ -0,0 +1,642 @@
+// d1.ts - KeyStore on Cloudflare D1, the schema in migrations/
+// Also runs on a local SQLite file through the D1-compatible adapter in sqlite.ts
+
+import type { AlertStateKey, KeyResultRecord, KeyScope, KeyStore, NewStoredKey, StoredKey } from '../store.ts';
+import type {
+  AggregatedResponse, AlertRule, AlertWebhook, ApiToken, AuditAction, AuditEntry, AuditQuery, AuditTarget,
+  KeyLifecycleState, KeyMetadata, RefreshRun, TokenScope, UsageSnapshot, User, UserRecord, UserRole,
+} from '../types.ts';
+
+export const MIGRATIONS_TABLE = 'd1_migrations'; // Must match migrations_table in wrangler.toml
+
+// ==================== Type Definitions ====================
+
+// The parts of the D1 API used here; D1Database satisfies it, and so does SqliteD1Database
+export interface D1Statement {
+  bind(...values: unknown[]): D1Statement;
+  first<T = Record<string, unknown>>(): Promise<T | null>;
+  all<T = Record<string, unknown>>(): Promise<{ results: T[] }>;
+  run(): Promise<{ meta: { changes: number } }>;
+}
+
+export interface D1Like {
+  prepare(query: string): D1Statement;
+  batch<T = unknown>(statements: D1Statement[]): Promise<{ results: T[]; meta: { changes: number } }[]>;
+}
+
+const KEY_SCOPE_CONDITIONS: Record<KeyScope, string> = {
+  active: 'deleted_at IS NULL',
+  trash: 'deleted_at IS NOT NULL',
+  all: '1 = 1',
+};
+
+type StoredKeyRow = Omit<StoredKey, 'tags'> & { tags: string };
+
+type ApiTokenRow = {
+  id: string; name: string; token_prefix: string; scopes: string; user_id: string;
+  username: string | null; role: UserRole | null; expires_at: number | null; last_used_at: number | null;
+};
+
+function toApiToken(row: ApiTokenRow): ApiToken {
+  return {
+    id: row.id,
+    name: row.name,
+    tokenPrefix: row.token_prefix,
+    scopes: row.scopes.split(' ').filter(Boolean) as TokenScope[],
+    userId: row.user_id,
+    username: row.username ?? undefined,
+    expiresAt: row.expires_at,
+    lastUsedAt: row.last_used_at,
+  };
+}
+
+export class D1KeyStore implements KeyStore {
+  constructor(private readonly db: D1Like) {}
+
+  /**
+   * 读取已应用的最新迁移编号（文件名前缀），迁移表不存在时返回 0（使用 D1）
+   */
+  async getSchemaVersion(): Promise<number> {
+    try {
+      const result = await this.db.prepare(
+        `SELECT name FROM ${MIGRATIONS_TABLE}`
+      ).all<{ name: string }>();
+      return Math.max(0, ...(result.results || []).map(row => parseInt(row.name, 10)).filter(Number.isFinite));
+    } catch (error) {
+      if (String(error).includes('no such table')) return 0;
+      throw error;
+    }
+  }
+
+  /**
+   * 获取指定范围内的 Key，按创建时间倒序，不解密（使用 D1）
+   */
+  async listKeys(scope: KeyScope = 'active', ids?: string[]): Promise<StoredKey[]> {
+    if (ids?.length === 0) return [];
+
+    const result = await this.db.prepare(
+      `SELECT id, key, key_hash AS keyHash, label, owner, notes, tags, provider,
+              lifecycle_state AS lifecycle, lifecycle_changed_at AS lifecycleChangedAt,
+              CAST(strftime('%s', created_at) AS INTEGER) * 1000 AS createdAt, deleted_at AS deletedAt
+       FROM api_keys
+       WHERE ${KEY_SCOPE_CONDITIONS[scope]}${ids ? ' AND id IN (SELECT value FROM json_each(?))' : ''}
+       ORDER BY created_at DESC`
+    ).bind(...(ids ? [JSON.stringify(ids)] : [])).all<StoredKeyRow>();
+
+    return (result.results || []).map(row => ({ ...row, tags: JSON.parse(row.tags || '[]') as string[] }));
+  }
+
+  /**
+   * 按带密钥哈希或明文查找已存在的 Key，包括回收站中的 Key（使用 D1）
+   */
+  async findKeys(hashes: string[], plaintext: string[]): Promise<Pick<StoredKey, 'key' | 'keyHash'>[]> {
+    if (hashes.length === 0 && plaintext.length === 0) return [];
+
+    const result = await this.db.prepare(
+      `SELECT key, key_hash AS keyHash FROM api_keys
+       WHERE key_hash IN (SELECT value FROM json_each(?)) OR key IN (SELECT value FROM json_each(?))`
+    ).bind(JSON.stringify(hashes), JSON.stringify(plaintext)).all<Pick<StoredKey, 'key' | 'keyHash'>>();
+    return result.results || [];
+  }
+
+  /**
+   * 批量添加 API Key，在同一个 D1 batch 事务中写入，全部成功或全部失败（使用 D1 batch）
+   */
+  async addKeys(keys: NewStoredKey[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    const stmt = this.db.prepare(
+      'INSERT INTO api_keys (id, key, key_hash, label, owner, notes, tags, provider) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    );
+    await this.db.batch(keys.map(k => stmt.bind(
+      k.id, k.key, k.keyHash, k.label ?? null, k.owner ?? null, k.notes ?? null, JSON.stringify(k.tags ?? []), k.provider
+    )));
+  }
+
+  /**
+   * 更新 API Key 的元数据，只修改传入的字段（使用 D1）
+   */
+  async updateKeyMetadata(id: string, metadata: Partial<KeyMetadata>): Promise<boolean> {
+    const fields = (['label', 'owner', 'notes', 'tags', 'provider'] as const).filter(field => metadata[field] !== undefined);
+    if (fields.length === 0) return (await this.db.prepare('SELECT 1 FROM api_keys WHERE id = ? AND deleted_at IS NULL').bind(id).first()) !== null;
+
+    const result = await this.db.prepare(
+      `UPDATE api_keys SET ${fields.map(field => `${field} = ?`).join(', ')} WHERE id = ? AND deleted_at IS NULL`
+    ).bind(...fields.map(field => field === 'tags' ? JSON.stringify(metadata.tags) : metadata[field]), id).run();
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * 批量替换 Key 的密文与哈希，用于主密钥轮换（使用 D1 batch）
+   */
+  async updateKeySecrets(updates: Pick<StoredKey, 'id' | 'key' | 'keyHash'>[]): Promise<void> {
+    if (updates.length === 0) return;
+
+    const stmt = this.db.prepare('UPDATE api_keys SET key = ?, key_hash = ? WHERE id = ?');
+    await this.db.batch(updates.map(u => stmt.bind(u.key, u.keyHash, u.id)));
+  }
+
+  /**
+   * 将 API Key 移入回收站（软删除），返回是否找到未删除的 Key（使用 D1）
+   */
+  async deleteKey(id: string, deletedAt: number): Promise<boolean> {
+    const result = await this.db.prepare(
+      'UPDATE api_keys SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL'
+    ).bind(deletedAt, id).run();
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * 从回收站恢复 API Key，返回是否找到回收站中的 Key（使用 D1）
+   */
+  async restoreDeletedKey(id: string): Promise<boolean> {
+    const result = await this.db.prepare(
+      'UPDATE api_keys SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL'
+    ).bind(id).run();
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * 彻底删除指定的 API Key 及其用量快照与最近查询结果（使用 D1）
+   */
+  async purgeKey(id: string): Promise<void> {
+    await this.db.batch([
+      this.db.prepare('DELETE FROM usage_snapshots WHERE key_id = ?').bind(id),
+      this.db.prepare('DELETE FROM key_results WHERE key_id = ?').bind(id),
+      this.db.prepare('DELETE FROM api_keys WHERE id = ?').bind(id),
+    ]);
+  }
+
+  /**
+   * 批量修改 Key 的生命周期状态（使用 D1 batch）
+   */
+  async setKeyLifecycle(changes: { id: string; to: KeyLifecycleState }[], changedAt: number): Promise<void> {
+    if (changes.length === 0) return;
+
+    const stmt = this.db.prepare('UPDATE api_keys SET lifecycle_state = ?, lifecycle_changed_at = ? WHERE id = ?');
+    await this.db.batch(changes.map(change => stmt.bind(change.to, changedAt, change.id)));
+  }
+
+  /**
+   * 获取 Key 最近一次的查询结果及失败记录，`ids` 为空时返回全部（使用 D1）
+   */
+  async getKeyResults(ids?: string[]): Promise<KeyResultRecord[]> {
+    if (ids?.length === 0) return [];
+
+    const result = await this.db.prepare(
+      `SELECT key_id AS keyId, result, refreshed_at AS refreshedAt, last_success_at AS lastSuccessAt,
+              consecutive_failures AS consecutiveFailures, error_class AS errorClass, error_since AS errorSince,
+              exhausted_since AS exhaustedSince
+       FROM key_results${ids ? ' WHERE key_id IN (SELECT value FROM json_each(?))' : ''}`
+    ).bind(...(ids ? [JSON.stringify(ids)] : [])).all<Omit<KeyResultRecord, 'result'> & { result: string }>();
+
+    return (result.results || []).map(row => ({ ...row, result: JSON.parse(row.result) }));
+  }
+
+  /**
+   * 批量写入 Key 最近一次的查询结果（使用 D1 batch）
+   */
+  async saveKeyResults(records: KeyResultRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const stmt = this.db.prepare(
+      `INSERT OR REPLACE INTO key_results
+         (key_id, result, refreshed_at, last_success_at, consecutive_failures, error_class, error_since, exhausted_since)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    await this.db.batch(records.map(r => stmt.bind(
+      r.keyId, JSON.stringify(r.result), r.refreshedAt, r.lastSuccessAt, r.consecutiveFailures, r.errorClass, r.errorSince, r.exhaustedSince
+    )));
+  }
+
+  /**
+   * 读取缓存的聚合数据（使用 D1）
+   */
+  async getDataCache(name: string): Promise<{ data: AggregatedResponse; refreshedAt: number } | null> {
+    const row = await this.db.prepare(
+      'SELECT payload, refreshed_at FROM data_cache WHERE name = ?'
+    ).bind(name).first<{ payload: string; refreshed_at: number }>();
+
+    return row ? { data: JSON.parse(row.payload), refreshedAt: row.refreshed_at } : null;
+  }
+
+  /**
+   * 写入缓存的聚合数据（使用 D1）
+   */
+  async saveDataCache(name: string, data: AggregatedResponse, refreshedAt: number): Promise<void> {
+    await this.db.prepare(
+      `INSERT INTO data_cache (name, payload, refreshed_at) VALUES (?, ?, ?)
+       ON CONFLICT(name) DO UPDATE SET payload = excluded.payload, refreshed_at = excluded.refreshed_at`
+    ).bind(name, JSON.stringify(data), refreshedAt).run();
+  }
+
+  /**
+   * 读取分批刷新的游标（使用 D1）
+   */
+  async getRefreshCursor(name: string): Promise<string | null> {
+    const row = await this.db.prepare(
+      'SELECT cursor FROM refresh_state WHERE name = ?'
+    ).bind(name).first<{ cursor: string }>();
+    return row?.cursor ?? null;
+  }
+
+  /**
+   * 保存分批刷新的游标（使用 D1）
+   */
+  async saveRefreshCursor(name: string, cursor: string): Promise<void> {
+    await this.db.prepare(
+      `INSERT INTO refresh_state (name, cursor, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT(name) DO UPDATE SET cursor = excluded.cursor, updated_at = excluded.updated_at`
+    ).bind(name, cursor, Date.now()).run();
+  }
+
+  /**
+   * 记录一次刷新的统计（使用 D1）
+   */
+  async addRefreshRun(run: RefreshRun): Promise<void> {
+    await this.db.prepare(
+      `INSERT INTO refresh_runs (source, started_at, duration_ms, keys_processed, errors, pending, error)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).bind(run.source, run.startedAt, run.durationMs, run.keysProcessed, run.errors, run.pending, run.error).run();
+  }
+
+  /**
+   * 获取最近的刷新统计，按时间倒序（使用 D1）
+   */
+  async getRefreshRuns(limit: number): Promise<RefreshRun[]> {
+    const result = await this.db.prepare(
+      `SELECT id, source, started_at AS startedAt, duration_ms AS durationMs, keys_processed AS keysProcessed,
+              errors, pending, error
+       FROM refresh_runs ORDER BY started_at DESC LIMIT ?`
+    ).bind(limit).all<RefreshRun>();
+    return result.results || [];
+  }
+
+  /**
+   * 删除早于指定时间的刷新统计（使用 D1）
+   */
+  async pruneRefreshRuns(before: number): Promise<void> {
+    await this.db.prepare(
+      'DELETE FROM refresh_runs WHERE started_at < ?'
+    ).bind(before).run();
+  }
+
+  /**
+   * 尝试获取锁；锁不存在或已过期时成功（使用 D1）
+   */
+  async acquireLock(name: string, holder: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const result = await this.db.prepare(
+      `INSERT INTO locks (name, holder, expires_at) VALUES (?, ?, ?)
+       ON CONFLICT(name) DO UPDATE SET holder = excluded.holder, expires_at = excluded.expires_at
+       WHERE locks.expires_at < ?`
+    ).bind(name, holder, now + ttlMs, now).run();
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * 检查锁是否被持有且未过期（使用 D1）
+   */
+  async isLockHeld(name: string): Promise<boolean> {
+    const row = await this.db.prepare(
+      'SELECT 1 FROM locks WHERE name = ? AND expires_at >= ?'
+    ).bind(name, Date.now()).first();
+    return row !== null;
+  }
+
+  /**
+   * 释放自己持有的锁（使用 D1）
+   */
+  async releaseLock(name: string, holder: string): Promise<void> {
+    await this.db.prepare(
+      'DELETE FROM locks WHERE name = ? AND holder = ?'
+    ).bind(name, holder).run();
+  }
+
+  /**
+   * 批量写入用量快照（使用 D1 batch）
+   */
+  async saveUsageSnapshots(snapshots: (UsageSnapshot & { keyId: string })[]): Promise<void> {
+    if (snapshots.length === 0) return;
+
+    const stmt = this.db.prepare(
+      `INSERT INTO usage_snapshots
+         (key_id, start_date, end_date, org_total_tokens_used, total_allowance, used_ratio, captured_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    );
+    await this.db.batch(snapshots.map(s => stmt.bind(
+      s.keyId, s.startDate, s.endDate, s.orgTotalTokensUsed, s.totalAllowance, s.usedRatio, s.capturedAt
+    )));
+  }
+
+  /**
+   * 获取指定 Key 在时间区间内的用量快照（使用 D1）
+   */
+  async getUsageHistory(keyId: string, from: number, to: number): Promise<UsageSnapshot[]> {
+    const result = await this.db.prepare(
+      `SELECT captured_at AS capturedAt, start_date AS startDate, end_date AS endDate,
+              org_total_tokens_used AS orgTotalTokensUsed, total_allowance AS totalAllowance,
+              used_ratio AS usedRatio
+       FROM usage_snapshots
+       WHERE key_id = ? AND captured_at BETWEEN ? AND ?
+       ORDER BY captured_at ASC`
+    ).bind(keyId, from, to).all<UsageSnapshot>();
+
+    return result.results || [];
+  }
+
+  /**
+   * 获取每个 Key 在指定时间之后、各用量窗口内最早的一条快照（使用 D1）
+   */
+  async getEarliestSnapshotsSince(since: number): Promise<UsageSnapshot[]> {
+    const result = await this.db.prepare(
+      `SELECT key_id AS keyId, MIN(captured_at) AS capturedAt, start_date AS startDate, end_date AS endDate,
+              org_total_tokens_used AS orgTotalTokensUsed, total_allowance AS totalAllowance,
+              used_ratio AS usedRatio
+       FROM usage_snapshots
+       WHERE captured_at >= ?
+       GROUP BY key_id, start_date`
+    ).bind(since).all<UsageSnapshot>();
+
+    return result.results || [];
+  }
+
+  /**
+   * 清理早于指定时间的用量快照（使用 D1）
+   */
+  async pruneUsageSnapshots(before: number): Promise<void> {
+    await this.db.prepare(
+      'DELETE FROM usage_snapshots WHERE captured_at < ?'
+    ).bind(before).run();
+  }
+
+  /**
+   * 获取所有告警规则（使用 D1）
+   */
+  async getAlertRules(): Promise<AlertRule[]> {
+    const result = await this.db.prepare(
+      'SELECT id, name, type, threshold, match, enabled FROM alert_rules ORDER BY created_at ASC'
+    ).all<AlertRule & { enabled: number }>();
+
+    return (result.results || []).map(r => ({ ...r, enabled: !!r.enabled }));
+  }
+
+  /**
+   * 新增或更新告警规则（使用 D1）
+   */
+  async saveAlertRule(rule: AlertRule): Promise<void> {
+    await this.db.prepare(
+      `INSERT INTO alert_rules (id, name, type, threshold, match, enabled) VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         name = excluded.name, type = excluded.type, threshold = excluded.threshold,
+         match = excluded.match, enabled = excluded.enabled`
+    ).bind(rule.id, rule.name, rule.type, rule.threshold, rule.match, rule.enabled ? 1 : 0).run();
+  }
+
+  /**
+   * 删除告警规则及其去重状态（使用 D1）
+   */
+  async deleteAlertRule(id: string): Promise<boolean> {
+    const [, result] = await this.db.batch([
+      this.db.prepare('DELETE FROM alert_state WHERE rule_id = ?').bind(id),
+      this.db.prepare('DELETE FROM alert_rules WHERE id = ?').bind(id),
+    ]);
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * 获取所有告警 Webhook（使用 D1）
+   */
+  async getAlertWebhooks(): Promise<AlertWebhook[]> {
+    const result = await this.db.prepare(
+      'SELECT id, type, url, secret, chat_id AS chatId, enabled FROM alert_webhooks ORDER BY created_at ASC'
+    ).all<AlertWebhook & { enabled: number }>();
+
+    return (result.results || []).map(w => ({ ...w, enabled: !!w.enabled }));
+  }
+
+  /**
+   * 新增或更新告警 Webhook（使用 D1）
+   */
+  async saveAlertWebhook(webhook: AlertWebhook): Promise<void> {
+    await this.db.prepare(
+      `INSERT INTO alert_webhooks (id, type, url, secret, chat_id, enabled) VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         type = excluded.type, url = excluded.url, secret = excluded.secret,
+         chat_id = excluded.chat_id, enabled = excluded.enabled`
+    ).bind(webhook.id, webhook.type, webhook.url, webhook.secret, webhook.chatId, webhook.enabled ? 1 : 0).run();
+  }
+
+  /**
+   * 删除告警 Webhook（使用 D1）
+   */
+  async deleteAlertWebhook(id: string): Promise<boolean> {
+    const result = await this.db.prepare(
+      'DELETE FROM alert_webhooks WHERE id = ?'
+    ).bind(id).run();
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * 获取告警去重状态，键为 `ruleId|target`，值为上次触发时间（使用 D1）
+   */
+  async getAlertStates(): Promise<Map<string, number>> {
+    const result = await this.db.prepare(
+      'SELECT rule_id, target, fired_at FROM alert_state'
+    ).all<{ rule_id: string; target: string; fired_at: number }>();
+
+    return new Map((result.results || []).map(r => [`${r.rule_id}|${r.target}`, r.fired_at]));
+  }
+
+  /**
+   * 写入已触发的告警并清除已恢复的告警状态（使用 D1 batch）
+   */
+  async updateAlertStates(fired: AlertStateKey[], resolved: AlertStateKey[], firedAt: number): Promise<void> {
+    const upsert = this.db.prepare(
+      `INSERT INTO alert_state (rule_id, target, fired_at) VALUES (?, ?, ?)
+       ON CONFLICT(rule_id, target) DO UPDATE SET fired_at = excluded.fired_at`
+    );
+    const remove = this.db.prepare('DELETE FROM alert_state WHERE rule_id = ? AND target = ?');
+    const statements = [
+      ...fired.map(f => upsert.bind(f.ruleId, f.target, firedAt)),
+      ...resolved.map(r => remove.bind(r.ruleId, r.target)),
+    ];
+    if (statements.length > 0) await this.db.batch(statements);
+  }
+
+  /**
+   * 获取所有用户（不含密码信息，使用 D1）
+   */
+  async getUsers(): Promise<User[]> {
+    const result = await this.db.prepare(
+      'SELECT id, username, role FROM users ORDER BY created_at ASC'
+    ).all<User>();
+
+    return result.results || [];
+  }
+
+  /**
+   * 根据用户名获取用户及其密码哈希（使用 D1）
+   */
+  async getUserByUsername(username: string): Promise<UserRecord | null> {
+    return await this.db.prepare(
+      'SELECT id, username, role, password_hash, salt, iterations FROM users WHERE username = ?'
+    ).bind(username).first<UserRecord>();
+  }
+
+  /**
+   * 根据 ID 获取用户及其密码哈希（使用 D1）
+   */
+  async getUserById(id: string): Promise<UserRecord | null> {
+    return await this.db.prepare(
+      'SELECT id, username, role, password_hash, salt, iterations FROM users WHERE id = ?'
+    ).bind(id).first<UserRecord>();
+  }
+
+  /**
+   * 统计用户数量（使用 D1）
+   */
+  async countUsers(): Promise<number> {
+    const result = await this.db.prepare(
+      'SELECT COUNT(*) as count FROM users'
+    ).first<{ count: number }>();
+
+    return result?.count || 0;
+  }
+
+  /**
+   * 新增或更新用户（使用 D1）
+   */
+  async saveUser(user: UserRecord): Promise<void> {
+    await this.db.prepare(
+      `INSERT INTO users (id, username, role, password_hash, salt, iterations) VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         role = excluded.role, password_hash = excluded.password_hash,
+         salt = excluded.salt, iterations = excluded.iterations`
+    ).bind(user.id, user.username, user.role, user.password_hash, user.salt, user.iterations).run();
+  }
+
+  /**
+   * 删除用户（使用 D1）
+   */
+  async deleteUser(id: string): Promise<boolean> {
+    const [result] = await this.db.batch([
+      this.db.prepare('DELETE FROM users WHERE id = ?').bind(id),
+      this.db.prepare('DELETE FROM api_tokens WHERE user_id = ?').bind(id),
+    ]);
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * 获取所有 API Token（不含哈希，使用 D1）
+   */
+  async getApiTokens(): Promise<ApiToken[]> {
+    const result = await this.db.prepare(
+      `SELECT t.id, t.name, t.token_prefix, t.scopes, t.user_id, u.username, u.role, t.expires_at, t.last_used_at
+       FROM api_tokens t LEFT JOIN users u ON u.id = t.user_id
+       ORDER BY t.created_at DESC`
+    ).all<ApiTokenRow>();
+
+    return (result.results || []).map(toApiToken);
+  }
+
+  /**
+   * 根据 Token 哈希获取 Token 及创建者当前角色（使用 D1）
+   * 创建者已被删除的 Token 不会返回
+   */
+  async getApiTokenByHash(tokenHash: string): Promise<(ApiToken & { role: UserRole }) | null> {
+    const row = await this.db.prepare(
+      `SELECT t.id, t.name, t.token_prefix, t.scopes, t.user_id, u.username, u.role, t.expires_at, t.last_used_at
+       FROM api_tokens t JOIN users u ON u.id = t.user_id
+       WHERE t.token_hash = ?`
+    ).bind(tokenHash).first<ApiTokenRow>();
+
+    return row ? { ...toApiToken(row), role: row.role as UserRole } : null;
+  }
+
+  /**
+   * 新增 API Token（使用 D1）
+   */
+  async addApiToken(token: ApiToken, tokenHash: string): Promise<void> {
+    await this.db.prepare(
+      `INSERT INTO api_tokens (id, name, token_hash, token_prefix, scopes, user_id, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).bind(token.id, token.name, tokenHash, token.tokenPrefix, token.scopes.join(' '), token.userId, token.expiresAt).run();
+  }
+
+  /**
+   * 更新 API Token 最近使用时间（使用 D1）
+   */
+  async touchApiToken(id: string, usedAt: number): Promise<void> {
+    await this.db.prepare(
+      'UPDATE api_tokens SET last_used_at = ? WHERE id = ?'
+    ).bind(usedAt, id).run();
+  }
+
+  /**
+   * 吊销（删除）API Token（使用 D1）
+   */
+  async deleteApiToken(id: string): Promise<boolean> {
+    const result = await this.db.prepare(
+      'DELETE FROM api_tokens WHERE id = ?'
+    ).bind(id).run();
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * 追加一条审计日志（使用 D1）
+   */
+  async addAuditEntry(entry: Omit<AuditEntry, 'id'>): Promise<void> {
+    await this.db.prepare(
+      `INSERT INTO audit_log (created_at, actor_id, actor_name, token_id, action, targets, details, ip, user_agent)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      entry.createdAt, entry.actorId, entry.actorName, entry.tokenId, entry.action,
+      JSON.stringify(entry.targets), entry.details ? JSON.stringify(entry.details) : null, entry.ip, entry.userAgent
+    ).run();
+  }
+
+  /**
+   * 分页查询审计日志，按时间倒序（使用 D1）
+   */
+  async queryAuditLog(query: AuditQuery): Promise<{ entries: AuditEntry[]; total: number }> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (query.action) { conditions.push('action = ?'); params.push(query.action); }
+    if (query.actor) { conditions.push('actor_name = ?'); params.push(query.actor); }
+    if (query.from !== undefined) { conditions.push('created_at >= ?'); params.push(query.from); }
+    if (query.to !== undefined) { conditions.push('created_at <= ?'); params.push(query.to); }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const [rows, count] = await this.db.batch<Record<string, unknown>>([
+      this.db.prepare(
+        `SELECT id, created_at, actor_id, actor_name, token_id, action, targets, details, ip, user_agent
+         FROM audit_log ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`
+      ).bind(...params, query.limit, query.offset),
+      this.db.prepare(`SELECT COUNT(*) as count FROM audit_log ${where}`).bind(...params),
+    ]);
+
+    const entries = (rows.results || []).map(row => ({
+      id: row.id as number,
+      createdAt: row.created_at as number,
+      actorId: row.actor_id as string | null,
+      actorName: row.actor_name as string | null,
+      tokenId: row.token_id as string | null,
+      action: row.action as AuditAction,
+      targets: JSON.parse(row.targets as string) as AuditTarget[],
+      details: row.details ? JSON.parse(row.details as string) : null,
+      ip: row.ip as string | null,
+      userAgent: row.user_agent as string | null,
+    }));
+    return { entries, total: (count.results?.[0]?.count as number) || 0 };
+  }
+
+  /**
+   * 删除早于指定时间的审计日志（使用 D1）
+   */
+  async pruneAuditLog(before: number): Promise<void> {
+    await this.db.prepare(
+      'DELETE FROM audit_log WHERE created_at < ?'
+    ).bind(before).run();
+  }
+}
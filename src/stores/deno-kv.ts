@@ -0,0 +1,63 @@
+// deno-kv.ts - KvBackend on Deno KV, used by the Deno Deploy entry point (main.ts)
+
+import type { KvBackend, KvEntry, KvKey } from './kv.ts';
+
+// ==================== Type Definitions ====================
+
+// The parts of the Deno.Kv API used here, so this file type-checks outside Deno as well
+interface DenoKvEntry<T> {
+  key: readonly unknown[];
+  value: T | null;
+  versionstamp: string | null;
+}
+
+type DenoKvSelector = { prefix: KvKey } | { prefix: KvKey; start: KvKey } | { prefix: KvKey; end: KvKey } | { start: KvKey; end: KvKey };
+
+interface DenoKvAtomic {
+  check(...checks: { key: KvKey; versionstamp: string | null }[]): DenoKvAtomic;
+  set(key: KvKey, value: unknown): DenoKvAtomic;
+  commit(): Promise<{ ok: boolean }>;
+}
+
+export interface DenoKv {
+  get<T>(key: KvKey): Promise<DenoKvEntry<T>>;
+  set(key: KvKey, value: unknown): Promise<unknown>;
+  delete(key: KvKey): Promise<void>;
+  list<T>(selector: DenoKvSelector, options?: { limit?: number }): AsyncIterable<DenoKvEntry<T>>;
+  atomic(): DenoKvAtomic;
+}
+
+// ==================== Deno KV Backend ====================
+
+export class DenoKvBackend implements KvBackend {
+  constructor(private readonly kv: DenoKv) {}
+
+  async get<T>(key: KvKey): Promise<KvEntry<T> | null> {
+    const entry = await this.kv.get<T>(key);
+    return entry.versionstamp === null ? null : { key, value: entry.value, version: entry.versionstamp };
+  }
+
+  async set(key: KvKey, value: unknown): Promise<void> {
+    await this.kv.set(key, value);
+  }
+
+  async setIfVersion(key: KvKey, value: unknown, version: string | null): Promise<boolean> {
+    const result = await this.kv.atomic().check({ key, versionstamp: version }).set(key, value).commit();
+    return result.ok;
+  }
+
+  async delete(key: KvKey): Promise<void> {
+    await this.kv.delete(key);
+  }
+
+  async list<T>(prefix: KvKey, range: { start?: KvKey; end?: KvKey; limit?: number } = {}): Promise<KvEntry<T>[]> {
+    const { start, end, limit } = range;
+    const selector: DenoKvSelector = start && end ? { start, end } : start ? { prefix, start } : end ? { prefix, end } : { prefix };
+
+    const entries: KvEntry<T>[] = [];
+    for await (const entry of this.kv.list<T>(selector, { limit })) {
+      entries.push({ key: entry.key as KvKey, value: entry.value, version: entry.versionstamp });
+    }
+    return entries;
+  }
+}
@@ -0,0 +1,651 @@
+// kv.ts - KeyStore on an ordered key-value store (Deno KV, and any other backend implementing KvBackend)
+
+import type { AlertStateKey, KeyResultRecord, KeyScope, KeyStore, NewStoredKey, StoredKey } from '../store.ts';
+import type {
+  AggregatedResponse, AlertRule, AlertWebhook, ApiToken, AuditEntry, AuditQuery, KeyLifecycleState, KeyMetadata,
+  RefreshRun, UsageSnapshot, User, UserRecord, UserRole,
+} from '../types.ts';
+
+// ==================== Type Definitions ====================
+
+export type KvKey = string[];
+
+export interface KvEntry<T> {
+  key: KvKey;
+  value: T;
+  version: string; // Changes on every write; used for compare-and-set
+}
+
+/**
+ * The operations KvKeyStore needs from a backend. Keys are compared part by part as strings,
+ * which is why numbers are stored zero-padded.
+ */
+export interface KvBackend {
+  get<T>(key: KvKey): Promise<KvEntry<T> | null>;
+  set(key: KvKey, value: unknown): Promise<void>;
+  /** Writes only if the entry still has `version` (null: does not exist yet); returns whether it was written. */
+  setIfVersion(key: KvKey, value: unknown, version: string | null): Promise<boolean>;
+  delete(key: KvKey): Promise<void>;
+  /** Entries under `prefix` in key order, from `start` (inclusive) to `end` (exclusive) and at most `limit` of them when given. */
+  list<T>(prefix: KvKey, range?: { start?: KvKey; end?: KvKey; limit?: number }): Promise<KvEntry<T>[]>;
+}
+
+type WithCreatedAt<T> = T & { createdAt: number };
+
+type StoredToken = WithCreatedAt<Omit<ApiToken, 'username'> & { tokenHash: string }>;
+
+/** The snapshot buckets one key has, so reads fetch buckets directly instead of listing them. */
+interface SnapshotIndex {
+  buckets: number[]; // Bucket start times, ascending
+}
+
+/** Progress of a pruning pass; `resumeAt` is the next key ID to prune, or null once the pass is done. */
+interface SnapshotPruneState {
+  before: number;
+  resumeAt: string | null;
+}
+
+interface DataCacheHeader {
+  refreshedAt: number;
+  generation: string;
+}
+
+// ==================== Configuration ====================
+
+const CACHE_PART_LENGTH = 20000; // Deno KV values are capped at 64 KiB; 20k UTF-16 units stay under it
+const NUMBER_WIDTH = 16;
+// Snapshots are stored per key in 6-hour buckets: 360 snapshots at a one-minute interval still fit in a Deno KV value
+const SNAPSHOT_BUCKET_MS = 6 * 60 * 60 * 1000;
+const SNAPSHOT_PRUNE_BATCH = 50; // Keys pruned per call, so one run stays within the Workers KV operation limit
+
+// ==================== Utility Functions ====================
+
+const pad = (value: number) => String(Math.max(0, Math.floor(value))).padStart(NUMBER_WIDTH, '0');
+
+/** Numeric ID for rows that have an auto-increment ID in SQL: time-ordered, random in the last digits. */
+const nextId = () => Date.now() * 1000 + Math.floor(Math.random() * 1000);
+
+const toBucket = (capturedAt: number) => Math.floor(capturedAt / SNAPSHOT_BUCKET_MS) * SNAPSHOT_BUCKET_MS;
+
+const byCreatedAt = <T extends { createdAt: number }>(a: T, b: T) => a.createdAt - b.createdAt;
+
+/**
+ * Keys written by the old Deno build are plain strings holding the unencrypted key. Keys stored
+ * before providers existed are Factory keys, as the SQL migration assumes.
+ */
+function toStoredKey(entry: KvEntry<StoredKey | string>): StoredKey {
+  if (typeof entry.value !== 'string') return { ...entry.value, provider: entry.value.provider ?? 'factory' };
+  return {
+    id: entry.key[1], key: entry.value, keyHash: null, label: null, owner: null, notes: null, tags: [], provider: 'factory',
+    lifecycle: 'active', lifecycleChangedAt: null, createdAt: 0, deletedAt: null,
+  };
+}
+
+function inScope(key: StoredKey, scope: KeyScope): boolean {
+  if (scope === 'all') return true;
+  return scope === 'trash' ? key.deletedAt !== null : key.deletedAt === null;
+}
+
+// ==================== KV Key Store ====================
+
+/**
+ * KeyStore over KvBackend. Unlike D1 there are no transactions: multi-entry writes happen one
+ * entry at a time, and queries the SQL stores answer with an index scan list every key here
+ * instead; on Workers KV such a listing costs one operation per 1000 entries (see
+ * WorkersKvBackend). Usage snapshots are grouped into per-key buckets with an index entry, so a
+ * forecast reads the buckets of its lookback period, up to five per key, rather than every
+ * snapshot. That read is what limits a Workers KV deployment to about 150 keys.
+ */
+export class KvKeyStore implements KeyStore {
+  constructor(private readonly kv: KvBackend) {}
+
+  async getSchemaVersion(): Promise<null> {
+    return null;
+  }
+
+  private async getKey(id: string): Promise<KvEntry<StoredKey> | null> {
+    const entry = await this.kv.get<StoredKey | string>(['api_keys', id]);
+    return entry ? { ...entry, value: toStoredKey(entry) } : null;
+  }
+
+  /**
+   * 获取指定范围内的 Key，按创建时间倒序，不解密（使用 KV）
+   */
+  async listKeys(scope: KeyScope = 'active', ids?: string[]): Promise<StoredKey[]> {
+    const keys = ids
+      ? (await Promise.all(ids.map(id => this.getKey(id)))).filter(Boolean).map(entry => entry.value)
+      : (await this.kv.list<StoredKey | string>(['api_keys'])).map(toStoredKey);
+    return keys.filter(key => inScope(key, scope)).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * 按带密钥哈希或明文查找已存在的 Key，包括回收站中的 Key（使用 KV）
+   */
+  async findKeys(hashes: string[], plaintext: string[]): Promise<Pick<StoredKey, 'key' | 'keyHash'>[]> {
+    if (hashes.length === 0 && plaintext.length === 0) return [];
+
+    const hashSet = new Set(hashes);
+    const plaintextSet = new Set(plaintext);
+    return (await this.listKeys('all'))
+      .filter(key => hashSet.has(key.keyHash) || plaintextSet.has(key.key))
+      .map(({ key, keyHash }) => ({ key, keyHash }));
+  }
+
+  /**
+   * 逐条添加 API Key（使用 KV）
+   */
+  async addKeys(keys: NewStoredKey[]): Promise<void> {
+    const createdAt = Date.now();
+    for (const key of keys) {
+      const stored: StoredKey = {
+        ...key, label: key.label ?? null, owner: key.owner ?? null, notes: key.notes ?? null, tags: key.tags ?? [],
+        lifecycle: 'active', lifecycleChangedAt: null, createdAt, deletedAt: null,
+      };
+      await this.kv.set(['api_keys', key.id], stored);
+    }
+  }
+
+  /**
+   * 更新 API Key 的元数据，只修改传入的字段（使用 KV）
+   */
+  async updateKeyMetadata(id: string, metadata: Partial<KeyMetadata>): Promise<boolean> {
+    const entry = await this.getKey(id);
+    if (!entry || entry.value.deletedAt !== null) return false;
+
+    const fields = (['label', 'owner', 'notes', 'tags', 'provider'] as const).filter(field => metadata[field] !== undefined);
+    if (fields.length > 0) {
+      await this.kv.set(entry.key, { ...entry.value, ...Object.fromEntries(fields.map(field => [field, metadata[field]])) });
+    }
+    return true;
+  }
+
+  /**
+   * 逐条替换 Key 的密文与哈希，用于主密钥轮换（使用 KV）
+   */
+  async updateKeySecrets(updates: Pick<StoredKey, 'id' | 'key' | 'keyHash'>[]): Promise<void> {
+    for (const { id, key, keyHash } of updates) {
+      const entry = await this.getKey(id);
+      if (entry) await this.kv.set(entry.key, { ...entry.value, key, keyHash });
+    }
+  }
+
+  /**
+   * 将 API Key 移入回收站（软删除），返回是否找到未删除的 Key（使用 KV）
+   */
+  async deleteKey(id: string, deletedAt: number): Promise<boolean> {
+    const entry = await this.getKey(id);
+    if (!entry || entry.value.deletedAt !== null) return false;
+
+    await this.kv.set(entry.key, { ...entry.value, deletedAt });
+    return true;
+  }
+
+  /**
+   * 从回收站恢复 API Key，返回是否找到回收站中的 Key（使用 KV）
+   */
+  async restoreDeletedKey(id: string): Promise<boolean> {
+    const entry = await this.getKey(id);
+    if (!entry || entry.value.deletedAt === null) return false;
+
+    await this.kv.set(entry.key, { ...entry.value, deletedAt: null });
+    return true;
+  }
+
+  /**
+   * 彻底删除指定的 API Key 及其用量快照与最近查询结果（使用 KV）
+   */
+  async purgeKey(id: string): Promise<void> {
+    const index = await this.kv.get<SnapshotIndex>(['usage_snapshot_index', id]);
+    for (const bucket of index?.value.buckets ?? []) await this.kv.delete(['usage_snapshot_buckets', id, pad(bucket)]);
+    await this.kv.delete(['usage_snapshot_index', id]);
+    for (const snapshot of await this.kv.list(['usage_snapshots', id])) await this.kv.delete(snapshot.key);
+    await this.kv.delete(['key_results', id]);
+    await this.kv.delete(['api_keys', id]);
+  }
+
+  /**
+   * 逐条修改 Key 的生命周期状态（使用 KV）
+   */
+  async setKeyLifecycle(changes: { id: string; to: KeyLifecycleState }[], changedAt: number): Promise<void> {
+    for (const change of changes) {
+      const entry = await this.getKey(change.id);
+      if (entry) await this.kv.set(entry.key, { ...entry.value, lifecycle: change.to, lifecycleChangedAt: changedAt });
+    }
+  }
+
+  /**
+   * 获取 Key 最近一次的查询结果及失败记录，`ids` 为空时返回全部（使用 KV）
+   */
+  async getKeyResults(ids?: string[]): Promise<KeyResultRecord[]> {
+    if (!ids) return (await this.kv.list<KeyResultRecord>(['key_results'])).map(entry => entry.value);
+
+    const entries = await Promise.all(ids.map(id => this.kv.get<KeyResultRecord>(['key_results', id])));
+    return entries.filter(Boolean).map(entry => entry.value);
+  }
+
+  /**
+   * 逐条写入 Key 最近一次的查询结果（使用 KV）
+   */
+  async saveKeyResults(records: KeyResultRecord[]): Promise<void> {
+    for (const record of records) await this.kv.set(['key_results', record.keyId], record);
+  }
+
+  /**
+   * 读取缓存的聚合数据；数据按代分段存储，读到正在被替换的旧代时重读一次（使用 KV）
+   */
+  async getDataCache(name: string): Promise<{ data: AggregatedResponse; refreshedAt: number } | null> {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const header = await this.kv.get<DataCacheHeader>(['data_cache', name]);
+      if (!header) return null;
+
+      const parts = await this.kv.list<string>(['data_cache_parts', name, header.value.generation]);
+      try {
+        return { data: JSON.parse(parts.map(part => part.value).join('')), refreshedAt: header.value.refreshedAt };
+      } catch {
+        // The generation was replaced while its parts were being read
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 写入缓存的聚合数据：先写新一代的分段，再切换头记录，最后删除旧分段（使用 KV）
+   */
+  async saveDataCache(name: string, data: AggregatedResponse, refreshedAt: number): Promise<void> {
+    const generation = crypto.randomUUID();
+    const payload = JSON.stringify(data);
+    for (let i = 0; i * CACHE_PART_LENGTH < payload.length; i++) {
+      await this.kv.set(['data_cache_parts', name, generation, pad(i)], payload.slice(i * CACHE_PART_LENGTH, (i + 1) * CACHE_PART_LENGTH));
+    }
+    const header: DataCacheHeader = { refreshedAt, generation };
+    await this.kv.set(['data_cache', name], header);
+
+    for (const part of await this.kv.list(['data_cache_parts', name])) {
+      if (part.key[2] !== generation) await this.kv.delete(part.key);
+    }
+  }
+
+  /**
+   * 读取分批刷新的游标（使用 KV）
+   */
+  async getRefreshCursor(name: string): Promise<string | null> {
+    return (await this.kv.get<string>(['refresh_state', name]))?.value ?? null;
+  }
+
+  /**
+   * 保存分批刷新的游标（使用 KV）
+   */
+  async saveRefreshCursor(name: string, cursor: string): Promise<void> {
+    await this.kv.set(['refresh_state', name], cursor);
+  }
+
+  /**
+   * 记录一次刷新的统计（使用 KV）
+   */
+  async addRefreshRun(run: RefreshRun): Promise<void> {
+    const id = nextId();
+    await this.kv.set(['refresh_runs', pad(run.startedAt), pad(id)], { ...run, id });
+  }
+
+  /**
+   * 获取最近的刷新统计，按时间倒序（使用 KV）
+   */
+  async getRefreshRuns(limit: number): Promise<RefreshRun[]> {
+    return (await this.kv.list<RefreshRun>(['refresh_runs'])).map(entry => entry.value).reverse().slice(0, limit);
+  }
+
+  /**
+   * 删除早于指定时间的刷新统计（使用 KV）
+   */
+  async pruneRefreshRuns(before: number): Promise<void> {
+    for (const entry of await this.kv.list(['refresh_runs'], { end: ['refresh_runs', pad(before)] })) await this.kv.delete(entry.key);
+  }
+
+  /**
+   * 尝试获取锁；锁不存在或已过期时通过比较版本写入（使用 KV）
+   */
+  async acquireLock(name: string, holder: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const entry = await this.kv.get<{ holder: string; expiresAt: number }>(['locks', name]);
+    if (entry && entry.value.expiresAt >= now) return false;
+
+    return await this.kv.setIfVersion(['locks', name], { holder, expiresAt: now + ttlMs }, entry?.version ?? null);
+  }
+
+  /**
+   * 检查锁是否被持有且未过期（使用 KV）
+   */
+  async isLockHeld(name: string): Promise<boolean> {
+    const entry = await this.kv.get<{ holder: string; expiresAt: number }>(['locks', name]);
+    return !!entry && entry.value.expiresAt >= Date.now();
+  }
+
+  /**
+   * 释放自己持有的锁（使用 KV）
+   */
+  async releaseLock(name: string, holder: string): Promise<void> {
+    const entry = await this.kv.get<{ holder: string; expiresAt: number }>(['locks', name]);
+    if (entry?.value.holder === holder) await this.kv.delete(entry.key);
+  }
+
+  /**
+   * 按 Key 和时间桶追加用量快照（使用 KV）
+   */
+  async saveUsageSnapshots(snapshots: (UsageSnapshot & { keyId: string })[]): Promise<void> {
+    const buckets = new Map<string, { keyId: string; bucket: number; snapshots: UsageSnapshot[] }>();
+    for (const { keyId, ...snapshot } of snapshots) {
+      const bucket = toBucket(snapshot.capturedAt);
+      const group = buckets.get(`${keyId}|${bucket}`) ?? { keyId, bucket, snapshots: [] };
+      group.snapshots.push(snapshot);
+      buckets.set(`${keyId}|${bucket}`, group);
+    }
+
+    for (const { keyId, bucket, snapshots: added } of buckets.values()) {
+      const existing = await this.kv.get<UsageSnapshot[]>(['usage_snapshot_buckets', keyId, pad(bucket)]);
+      const merged = [...(existing?.value ?? []), ...added].sort((a, b) => a.capturedAt - b.capturedAt);
+      await this.kv.set(['usage_snapshot_buckets', keyId, pad(bucket)], merged);
+      if (existing) continue;
+
+      const index = (await this.kv.get<SnapshotIndex>(['usage_snapshot_index', keyId]))?.value ?? { buckets: [] };
+      if (!index.buckets.includes(bucket)) {
+        await this.kv.set(['usage_snapshot_index', keyId], { buckets: [...index.buckets, bucket].sort((a, b) => a - b) });
+      }
+    }
+  }
+
+  /**
+   * 获取指定 Key 在时间区间内的用量快照（使用 KV）
+   */
+  async getUsageHistory(keyId: string, from: number, to: number): Promise<UsageSnapshot[]> {
+    const index = await this.kv.get<SnapshotIndex>(['usage_snapshot_index', keyId]);
+    const snapshots = await this.getSnapshotBuckets(keyId, (index?.value.buckets ?? []).filter(b => b >= toBucket(from) && b <= to));
+    return snapshots.filter(s => s.capturedAt >= from && s.capturedAt <= to);
+  }
+
+  /**
+   * 获取每个 Key 在指定时间之后、各用量窗口内最早的一条快照（使用 KV）
+   */
+  async getEarliestSnapshotsSince(since: number): Promise<UsageSnapshot[]> {
+    const earliest = new Map<string, UsageSnapshot>();
+    for (const index of await this.kv.list<SnapshotIndex>(['usage_snapshot_index'])) {
+      const keyId = index.key[1];
+      const snapshots = await this.getSnapshotBuckets(keyId, index.value.buckets.filter(b => b >= toBucket(since)));
+      for (const snapshot of snapshots) {
+        const group = `${keyId}|${snapshot.startDate}`;
+        if (snapshot.capturedAt >= since && !earliest.has(group)) earliest.set(group, { keyId, ...snapshot });
+      }
+    }
+    return [...earliest.values()];
+  }
+
+  /**
+   * 分批清理早于指定时间的用量快照，一次最多处理 SNAPSHOT_PRUNE_BATCH 个 Key（使用 KV）
+   */
+  async pruneUsageSnapshots(before: number): Promise<void> {
+    // Snapshots written one entry each before buckets existed are no longer read
+    for (const entry of await this.kv.list(['usage_snapshots'], { limit: SNAPSHOT_PRUNE_BATCH })) await this.kv.delete(entry.key);
+
+    const state = (await this.kv.get<SnapshotPruneState>(['usage_snapshot_prune']))?.value;
+    if (state && state.resumeAt === null && state.before >= before) return;
+    // An unfinished pass is completed with its own cutoff before a newer one starts
+    const pass = state && state.resumeAt !== null ? state : { before, resumeAt: '' };
+
+    const indexes = await this.kv.list<SnapshotIndex>(['usage_snapshot_index'], {
+      start: ['usage_snapshot_index', pass.resumeAt], limit: SNAPSHOT_PRUNE_BATCH + 1,
+    });
+    for (const { key: [, keyId], value: { buckets } } of indexes.slice(0, SNAPSHOT_PRUNE_BATCH)) {
+      const kept: number[] = [];
+      for (const bucket of buckets) {
+        if (bucket + SNAPSHOT_BUCKET_MS <= pass.before) {
+          await this.kv.delete(['usage_snapshot_buckets', keyId, pad(bucket)]);
+        } else if (bucket < pass.before) {
+          // The bucket the cutoff falls in keeps its newer snapshots
+          const entry = await this.kv.get<UsageSnapshot[]>(['usage_snapshot_buckets', keyId, pad(bucket)]);
+          const remaining = (entry?.value ?? []).filter(s => s.capturedAt >= pass.before);
+          if (remaining.length > 0) {
+            await this.kv.set(['usage_snapshot_buckets', keyId, pad(bucket)], remaining);
+            kept.push(bucket);
+          } else {
+            await this.kv.delete(['usage_snapshot_buckets', keyId, pad(bucket)]);
+          }
+        } else {
+          kept.push(bucket);
+        }
+      }
+      if (kept.length === buckets.length) continue;
+      if (kept.length > 0) await this.kv.set(['usage_snapshot_index', keyId], { buckets: kept });
+      else await this.kv.delete(['usage_snapshot_index', keyId]);
+    }
+
+    const next = indexes[SNAPSHOT_PRUNE_BATCH];
+    await this.kv.set(['usage_snapshot_prune'], { before: pass.before, resumeAt: next ? next.key[1] : null });
+  }
+
+  /** Snapshots in the given buckets of one key, oldest first. */
+  private async getSnapshotBuckets(keyId: string, buckets: number[]): Promise<UsageSnapshot[]> {
+    const snapshots: UsageSnapshot[] = [];
+    for (const bucket of buckets) {
+      const entry = await this.kv.get<UsageSnapshot[]>(['usage_snapshot_buckets', keyId, pad(bucket)]);
+      snapshots.push(...(entry?.value ?? []));
+    }
+    return snapshots;
+  }
+
+  /**
+   * 获取所有告警规则（使用 KV）
+   */
+  async getAlertRules(): Promise<AlertRule[]> {
+    const rules = (await this.kv.list<WithCreatedAt<AlertRule>>(['alert_rules'])).map(entry => entry.value);
+    return rules.sort(byCreatedAt).map(({ createdAt: _createdAt, ...rule }) => rule);
+  }
+
+  /**
+   * 新增或更新告警规则（使用 KV）
+   */
+  async saveAlertRule(rule: AlertRule): Promise<void> {
+    const existing = await this.kv.get<WithCreatedAt<AlertRule>>(['alert_rules', rule.id]);
+    await this.kv.set(['alert_rules', rule.id], { ...rule, createdAt: existing?.value.createdAt ?? Date.now() });
+  }
+
+  /**
+   * 删除告警规则及其去重状态（使用 KV）
+   */
+  async deleteAlertRule(id: string): Promise<boolean> {
+    for (const entry of await this.kv.list(['alert_state', id])) await this.kv.delete(entry.key);
+
+    if (!(await this.kv.get(['alert_rules', id]))) return false;
+    await this.kv.delete(['alert_rules', id]);
+    return true;
+  }
+
+  /**
+   * 获取所有告警 Webhook（使用 KV）
+   */
+  async getAlertWebhooks(): Promise<AlertWebhook[]> {
+    const webhooks = (await this.kv.list<WithCreatedAt<AlertWebhook>>(['alert_webhooks'])).map(entry => entry.value);
+    return webhooks.sort(byCreatedAt).map(({ createdAt: _createdAt, ...webhook }) => webhook);
+  }
+
+  /**
+   * 新增或更新告警 Webhook（使用 KV）
+   */
+  async saveAlertWebhook(webhook: AlertWebhook): Promise<void> {
+    const existing = await this.kv.get<WithCreatedAt<AlertWebhook>>(['alert_webhooks', webhook.id]);
+    await this.kv.set(['alert_webhooks', webhook.id], { ...webhook, createdAt: existing?.value.createdAt ?? Date.now() });
+  }
+
+  /**
+   * 删除告警 Webhook（使用 KV）
+   */
+  async deleteAlertWebhook(id: string): Promise<boolean> {
+    if (!(await this.kv.get(['alert_webhooks', id]))) return false;
+    await this.kv.delete(['alert_webhooks', id]);
+    return true;
+  }
+
+  /**
+   * 获取告警去重状态，键为 `ruleId|target`，值为上次触发时间（使用 KV）
+   */
+  async getAlertStates(): Promise<Map<string, number>> {
+    const entries = await this.kv.list<number>(['alert_state']);
+    return new Map(entries.map(entry => [`${entry.key[1]}|${entry.key[2]}`, entry.value]));
+  }
+
+  /**
+   * 写入已触发的告警并清除已恢复的告警状态（使用 KV）
+   */
+  async updateAlertStates(fired: AlertStateKey[], resolved: AlertStateKey[], firedAt: number): Promise<void> {
+    for (const f of fired) await this.kv.set(['alert_state', f.ruleId, f.target], firedAt);
+    for (const r of resolved) await this.kv.delete(['alert_state', r.ruleId, r.target]);
+  }
+
+  private async listUsers(): Promise<WithCreatedAt<UserRecord>[]> {
+    return (await this.kv.list<WithCreatedAt<UserRecord>>(['users'])).map(entry => entry.value).sort(byCreatedAt);
+  }
+
+  /**
+   * 获取所有用户（不含密码信息，使用 KV）
+   */
+  async getUsers(): Promise<User[]> {
+    return (await this.listUsers()).map(({ id, username, role }) => ({ id, username, role }));
+  }
+
+  /**
+   * 根据用户名获取用户及其密码哈希（使用 KV）
+   */
+  async getUserByUsername(username: string): Promise<UserRecord | null> {
+    const user = (await this.listUsers()).find(u => u.username === username);
+    if (!user) return null;
+
+    const { createdAt: _createdAt, ...record } = user;
+    return record;
+  }
+
+  /**
+   * 根据 ID 获取用户及其密码哈希（使用 KV）
+   */
+  async getUserById(id: string): Promise<UserRecord | null> {
+    const entry = await this.kv.get<WithCreatedAt<UserRecord>>(['users', id]);
+    if (!entry) return null;
+
+    const { createdAt: _createdAt, ...record } = entry.value;
+    return record;
+  }
+
+  /**
+   * 统计用户数量（使用 KV）
+   */
+  async countUsers(): Promise<number> {
+    return (await this.kv.list(['users'])).length;
+  }
+
+  /**
+   * 新增或更新用户，更新时保留原用户名（使用 KV）
+   */
+  async saveUser(user: UserRecord): Promise<void> {
+    const existing = await this.kv.get<WithCreatedAt<UserRecord>>(['users', user.id]);
+    await this.kv.set(['users', user.id], {
+      ...user,
+      username: existing?.value.username ?? user.username,
+      createdAt: existing?.value.createdAt ?? Date.now(),
+    });
+  }
+
+  /**
+   * 删除用户及其 API Token（使用 KV）
+   */
+  async deleteUser(id: string): Promise<boolean> {
+    if (!(await this.kv.get(['users', id]))) return false;
+
+    await this.kv.delete(['users', id]);
+    for (const token of await this.kv.list<StoredToken>(['api_tokens'])) {
+      if (token.value.userId === id) await this.kv.delete(token.key);
+    }
+    return true;
+  }
+
+  private async listTokens(): Promise<StoredToken[]> {
+    return (await this.kv.list<StoredToken>(['api_tokens'])).map(entry => entry.value).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * 获取所有 API Token（不含哈希，使用 KV）
+   */
+  async getApiTokens(): Promise<ApiToken[]> {
+    const users = new Map((await this.listUsers()).map(user => [user.id, user]));
+    return (await this.listTokens()).map(({ tokenHash: _tokenHash, createdAt: _createdAt, ...token }) => ({
+      ...token,
+      username: users.get(token.userId)?.username,
+    }));
+  }
+
+  /**
+   * 根据 Token 哈希获取 Token 及创建者当前角色（使用 KV）
+   * 创建者已被删除的 Token 不会返回
+   */
+  async getApiTokenByHash(tokenHash: string): Promise<(ApiToken & { role: UserRole }) | null> {
+    const stored = (await this.listTokens()).find(token => token.tokenHash === tokenHash);
+    const user = stored ? await this.getUserById(stored.userId) : null;
+    if (!user) return null;
+
+    const { tokenHash: _tokenHash, createdAt: _createdAt, ...token } = stored;
+    return { ...token, username: user.username, role: user.role };
+  }
+
+  /**
+   * 新增 API Token（使用 KV）
+   */
+  async addApiToken(token: ApiToken, tokenHash: string): Promise<void> {
+    const { username: _username, ...rest } = token;
+    const stored: StoredToken = { ...rest, tokenHash, createdAt: Date.now() };
+    await this.kv.set(['api_tokens', token.id], stored);
+  }
+
+  /**
+   * 更新 API Token 最近使用时间（使用 KV）
+   */
+  async touchApiToken(id: string, usedAt: number): Promise<void> {
+    const entry = await this.kv.get<StoredToken>(['api_tokens', id]);
+    if (entry) await this.kv.set(entry.key, { ...entry.value, lastUsedAt: usedAt });
+  }
+
+  /**
+   * 吊销（删除）API Token（使用 KV）
+   */
+  async deleteApiToken(id: string): Promise<boolean> {
+    if (!(await this.kv.get(['api_tokens', id]))) return false;
+    await this.kv.delete(['api_tokens', id]);
+    return true;
+  }
+
+  /**
+   * 追加一条审计日志（使用 KV）
+   */
+  async addAuditEntry(entry: Omit<AuditEntry, 'id'>): Promise<void> {
+    const id = nextId();
+    await this.kv.set(['audit_log', pad(entry.createdAt), pad(id)], { ...entry, id });
+  }
+
+  /**
+   * 分页查询审计日志，按时间倒序；时间区间按键范围读取，其余条件在内存中过滤（使用 KV）
+   */
+  async queryAuditLog(query: AuditQuery): Promise<{ entries: AuditEntry[]; total: number }> {
+    const entries = await this.kv.list<AuditEntry>(['audit_log'], {
+      start: query.from !== undefined ? ['audit_log', pad(query.from)] : undefined,
+      end: query.to !== undefined ? ['audit_log', pad(query.to + 1)] : undefined,
+    });
+
+    const matching = entries
+      .map(entry => entry.value)
+      .filter(entry => (!query.action || entry.action === query.action) && (!query.actor || entry.actorName === query.actor))
+      .reverse();
+    return { entries: matching.slice(query.offset, query.offset + query.limit), total: matching.length };
+  }
+
+  /**
+   * 删除早于指定时间的审计日志（使用 KV）
+   */
+  async pruneAuditLog(before: number): Promise<void> {
+    for (const entry of await this.kv.list(['audit_log'], { end: ['audit_log', pad(before)] })) await this.kv.delete(entry.key);
+  }
+}
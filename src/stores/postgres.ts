@@ -0,0 +1,742 @@
+// postgres.ts - KeyStore on Postgres, the schema in migrations/postgres/
+
+import type { AlertStateKey, KeyResultRecord, KeyScope, KeyStore, NewStoredKey, StoredKey } from '../store.ts';
+import type {
+  AggregatedResponse, AlertRule, AlertWebhook, ApiToken, AuditAction, AuditEntry, AuditQuery, AuditTarget,
+  KeyLifecycleState, KeyMetadata, ProviderId, RefreshRun, TokenScope, UsageSnapshot, User, UserRecord, UserRole,
+} from '../types.ts';
+
+// ==================== Type Definitions ====================
+
+// The parts of the node-postgres API used here; a pg.Pool or pg.Client satisfies it
+export interface PgClient {
+  query<T = Record<string, unknown>>(text: string, params?: unknown[]): Promise<{ rows: T[]; rowCount: number | null }>;
+}
+
+export interface PgMigration {
+  name: string; // File name, e.g. 0014_initial_schema.sql
+  sql: string;
+}
+
+type Row = Record<string, unknown>;
+
+// ==================== Configuration ====================
+
+const MIGRATIONS_TABLE = 'schema_migrations';
+
+const KEY_SCOPE_CONDITIONS: Record<KeyScope, string> = {
+  active: 'deleted_at IS NULL',
+  trash: 'deleted_at IS NOT NULL',
+  all: 'TRUE',
+};
+
+const API_TOKEN_COLUMNS = `t.id, t.name, t.token_prefix, t.scopes, t.user_id, u.username, u.role, t.expires_at, t.last_used_at`;
+
+// ==================== Utility Functions ====================
+
+/** BIGINT columns come back from node-postgres as strings. */
+const toNumber = (value: unknown): number | null => value === null || value === undefined ? null : Number(value);
+
+function toStoredKey(row: Row): StoredKey {
+  return {
+    id: row.id as string,
+    key: row.key as string,
+    keyHash: row.key_hash as string | null,
+    label: row.label as string | null,
+    owner: row.owner as string | null,
+    notes: row.notes as string | null,
+    tags: JSON.parse((row.tags as string) || '[]') as string[],
+    provider: row.provider as ProviderId,
+    lifecycle: row.lifecycle_state as KeyLifecycleState,
+    lifecycleChangedAt: toNumber(row.lifecycle_changed_at),
+    createdAt: toNumber(row.created_at),
+    deletedAt: toNumber(row.deleted_at),
+  };
+}
+
+function toUsageSnapshot(row: Row): UsageSnapshot {
+  return {
+    capturedAt: toNumber(row.captured_at),
+    startDate: row.start_date as string,
+    endDate: row.end_date as string,
+    orgTotalTokensUsed: toNumber(row.org_total_tokens_used),
+    totalAllowance: toNumber(row.total_allowance),
+    usedRatio: toNumber(row.used_ratio),
+  };
+}
+
+function toApiToken(row: Row): ApiToken {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    tokenPrefix: row.token_prefix as string,
+    scopes: (row.scopes as string).split(' ').filter(Boolean) as TokenScope[],
+    userId: row.user_id as string,
+    username: (row.username as string | null) ?? undefined,
+    expiresAt: toNumber(row.expires_at),
+    lastUsedAt: toNumber(row.last_used_at),
+  };
+}
+
+// ==================== Migrations ====================
+
+/**
+ * Applies the migrations not yet recorded in schema_migrations, in file name order. Each file
+ * runs as one multi-statement query together with its bookkeeping row, so Postgres applies it
+ * atomically; returns the names applied
+ */
+export async function migratePostgres(client: PgClient, migrations: PgMigration[]): Promise<string[]> {
+  await client.query(
+    `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+       name TEXT PRIMARY KEY NOT NULL,
+       applied_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+     )`
+  );
+  const applied = new Set((await client.query<{ name: string }>(`SELECT name FROM ${MIGRATIONS_TABLE}`)).rows.map(row => row.name));
+
+  const pending = migrations
+    .filter(migration => !applied.has(migration.name))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const migration of pending) {
+    try {
+      await client.query(
+        `${migration.sql};\nINSERT INTO ${MIGRATIONS_TABLE} (name) VALUES ('${migration.name.replace(/'/g, "''")}')`
+      );
+    } catch (error) {
+      throw new Error(`Migration ${migration.name} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return pending.map(migration => migration.name);
+}
+
+// ==================== Postgres Key Store ====================
+
+/**
+ * KeyStore over Postgres. Writes that touch several rows are single statements (unnest arrays,
+ * data-modifying CTEs) rather than BEGIN/COMMIT blocks, so each stays atomic on a pg.Pool,
+ * where consecutive queries may run on different connections.
+ */
+export class PostgresKeyStore implements KeyStore {
+  constructor(private readonly db: PgClient) {}
+
+  /**
+   * 读取已应用的最新迁移编号（文件名前缀），迁移表不存在时返回 0（使用 Postgres）
+   */
+  async getSchemaVersion(): Promise<number> {
+    const { rows: [table] } = await this.db.query<{ exists: boolean }>(
+      `SELECT to_regclass('${MIGRATIONS_TABLE}') IS NOT NULL AS exists`
+    );
+    if (!table.exists) return 0;
+
+    const result = await this.db.query<{ name: string }>(`SELECT name FROM ${MIGRATIONS_TABLE}`);
+    return Math.max(0, ...result.rows.map(row => parseInt(row.name, 10)).filter(Number.isFinite));
+  }
+
+  /**
+   * 获取指定范围内的 Key，按创建时间倒序，不解密（使用 Postgres）
+   */
+  async listKeys(scope: KeyScope = 'active', ids?: string[]): Promise<StoredKey[]> {
+    if (ids?.length === 0) return [];
+
+    const result = await this.db.query(
+      `SELECT id, key, key_hash, label, owner, notes, tags, provider, lifecycle_state, lifecycle_changed_at,
+              (EXTRACT(EPOCH FROM created_at) * 1000)::BIGINT AS created_at, deleted_at
+       FROM api_keys
+       WHERE ${KEY_SCOPE_CONDITIONS[scope]}${ids ? ' AND id = ANY($1)' : ''}
+       ORDER BY created_at DESC`,
+      ids ? [ids] : []
+    );
+    return result.rows.map(toStoredKey);
+  }
+
+  /**
+   * 按带密钥哈希或明文查找已存在的 Key，包括回收站中的 Key（使用 Postgres）
+   */
+  async findKeys(hashes: string[], plaintext: string[]): Promise<Pick<StoredKey, 'key' | 'keyHash'>[]> {
+    if (hashes.length === 0 && plaintext.length === 0) return [];
+
+    const result = await this.db.query<Pick<StoredKey, 'key' | 'keyHash'>>(
+      'SELECT key, key_hash AS "keyHash" FROM api_keys WHERE key_hash = ANY($1) OR key = ANY($2)',
+      [hashes, plaintext]
+    );
+    return result.rows;
+  }
+
+  /**
+   * 批量添加 API Key，单条 INSERT 写入，全部成功或全部失败（使用 Postgres）
+   */
+  async addKeys(keys: NewStoredKey[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    await this.db.query(
+      `INSERT INTO api_keys (id, key, key_hash, label, owner, notes, tags, provider)
+       SELECT * FROM unnest($1::TEXT[], $2::TEXT[], $3::TEXT[], $4::TEXT[], $5::TEXT[], $6::TEXT[], $7::TEXT[], $8::TEXT[])`,
+      [
+        keys.map(k => k.id), keys.map(k => k.key), keys.map(k => k.keyHash), keys.map(k => k.label ?? null),
+        keys.map(k => k.owner ?? null), keys.map(k => k.notes ?? null), keys.map(k => JSON.stringify(k.tags ?? [])),
+        keys.map(k => k.provider),
+      ]
+    );
+  }
+
+  /**
+   * 更新 API Key 的元数据，只修改传入的字段（使用 Postgres）
+   */
+  async updateKeyMetadata(id: string, metadata: Partial<KeyMetadata>): Promise<boolean> {
+    const fields = (['label', 'owner', 'notes', 'tags', 'provider'] as const).filter(field => metadata[field] !== undefined);
+    if (fields.length === 0) return (await this.db.query('SELECT 1 FROM api_keys WHERE id = $1 AND deleted_at IS NULL', [id])).rows.length > 0;
+
+    const result = await this.db.query(
+      `UPDATE api_keys SET ${fields.map((field, i) => `${field} = $${i + 1}`).join(', ')}
+       WHERE id = $${fields.length + 1} AND deleted_at IS NULL`,
+      [...fields.map(field => field === 'tags' ? JSON.stringify(metadata.tags) : metadata[field]), id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * 批量替换 Key 的密文与哈希，用于主密钥轮换（使用 Postgres）
+   */
+  async updateKeySecrets(updates: Pick<StoredKey, 'id' | 'key' | 'keyHash'>[]): Promise<void> {
+    if (updates.length === 0) return;
+
+    await this.db.query(
+      `UPDATE api_keys SET key = u.key, key_hash = u.key_hash
+       FROM unnest($1::TEXT[], $2::TEXT[], $3::TEXT[]) AS u(id, key, key_hash)
+       WHERE api_keys.id = u.id`,
+      [updates.map(u => u.id), updates.map(u => u.key), updates.map(u => u.keyHash)]
+    );
+  }
+
+  /**
+   * 将 API Key 移入回收站（软删除），返回是否找到未删除的 Key（使用 Postgres）
+   */
+  async deleteKey(id: string, deletedAt: number): Promise<boolean> {
+    const result = await this.db.query(
+      'UPDATE api_keys SET deleted_at = $1 WHERE id = $2 AND deleted_at IS NULL',
+      [deletedAt, id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * 从回收站恢复 API Key，返回是否找到回收站中的 Key（使用 Postgres）
+   */
+  async restoreDeletedKey(id: string): Promise<boolean> {
+    const result = await this.db.query(
+      'UPDATE api_keys SET deleted_at = NULL WHERE id = $1 AND deleted_at IS NOT NULL',
+      [id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * 彻底删除指定的 API Key 及其用量快照与最近查询结果（使用 Postgres）
+   */
+  async purgeKey(id: string): Promise<void> {
+    await this.db.query(
+      `WITH snapshots AS (DELETE FROM usage_snapshots WHERE key_id = $1),
+            results AS (DELETE FROM key_results WHERE key_id = $1)
+       DELETE FROM api_keys WHERE id = $1`,
+      [id]
+    );
+  }
+
+  /**
+   * 批量修改 Key 的生命周期状态（使用 Postgres）
+   */
+  async setKeyLifecycle(changes: { id: string; to: KeyLifecycleState }[], changedAt: number): Promise<void> {
+    if (changes.length === 0) return;
+
+    await this.db.query(
+      `UPDATE api_keys SET lifecycle_state = c.state, lifecycle_changed_at = $3
+       FROM unnest($1::TEXT[], $2::TEXT[]) AS c(id, state)
+       WHERE api_keys.id = c.id`,
+      [changes.map(c => c.id), changes.map(c => c.to), changedAt]
+    );
+  }
+
+  /**
+   * 获取 Key 最近一次的查询结果及失败记录，`ids` 为空时返回全部（使用 Postgres）
+   */
+  async getKeyResults(ids?: string[]): Promise<KeyResultRecord[]> {
+    if (ids?.length === 0) return [];
+
+    const result = await this.db.query(
+      `SELECT key_id, result, refreshed_at, last_success_at, consecutive_failures, error_class, error_since, exhausted_since
+       FROM key_results${ids ? ' WHERE key_id = ANY($1)' : ''}`,
+      ids ? [ids] : []
+    );
+    return result.rows.map(row => ({
+      keyId: row.key_id as string,
+      result: JSON.parse(row.result as string),
+      refreshedAt: toNumber(row.refreshed_at),
+      lastSuccessAt: toNumber(row.last_success_at),
+      consecutiveFailures: row.consecutive_failures as number,
+      errorClass: row.error_class as KeyResultRecord['errorClass'],
+      errorSince: toNumber(row.error_since),
+      exhaustedSince: toNumber(row.exhausted_since),
+    }));
+  }
+
+  /**
+   * 批量写入 Key 最近一次的查询结果（使用 Postgres）
+   */
+  async saveKeyResults(records: KeyResultRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    await this.db.query(
+      `INSERT INTO key_results
+         (key_id, result, refreshed_at, last_success_at, consecutive_failures, error_class, error_since, exhausted_since)
+       SELECT * FROM unnest($1::TEXT[], $2::TEXT[], $3::BIGINT[], $4::BIGINT[], $5::INTEGER[], $6::TEXT[], $7::BIGINT[], $8::BIGINT[])
+       ON CONFLICT (key_id) DO UPDATE SET
+         result = excluded.result, refreshed_at = excluded.refreshed_at, last_success_at = excluded.last_success_at,
+         consecutive_failures = excluded.consecutive_failures, error_class = excluded.error_class,
+         error_since = excluded.error_since, exhausted_since = excluded.exhausted_since`,
+      [
+        records.map(r => r.keyId), records.map(r => JSON.stringify(r.result)), records.map(r => r.refreshedAt),
+        records.map(r => r.lastSuccessAt), records.map(r => r.consecutiveFailures), records.map(r => r.errorClass),
+        records.map(r => r.errorSince), records.map(r => r.exhaustedSince),
+      ]
+    );
+  }
+
+  /**
+   * 读取缓存的聚合数据（使用 Postgres）
+   */
+  async getDataCache(name: string): Promise<{ data: AggregatedResponse; refreshedAt: number } | null> {
+    const { rows: [row] } = await this.db.query(
+      'SELECT payload, refreshed_at FROM data_cache WHERE name = $1',
+      [name]
+    );
+    return row ? { data: JSON.parse(row.payload as string), refreshedAt: toNumber(row.refreshed_at) } : null;
+  }
+
+  /**
+   * 写入缓存的聚合数据（使用 Postgres）
+   */
+  async saveDataCache(name: string, data: AggregatedResponse, refreshedAt: number): Promise<void> {
+    await this.db.query(
+      `INSERT INTO data_cache (name, payload, refreshed_at) VALUES ($1, $2, $3)
+       ON CONFLICT (name) DO UPDATE SET payload = excluded.payload, refreshed_at = excluded.refreshed_at`,
+      [name, JSON.stringify(data), refreshedAt]
+    );
+  }
+
+  /**
+   * 读取分批刷新的游标（使用 Postgres）
+   */
+  async getRefreshCursor(name: string): Promise<string | null> {
+    const { rows: [row] } = await this.db.query<{ cursor: string }>(
+      'SELECT cursor FROM refresh_state WHERE name = $1',
+      [name]
+    );
+    return row?.cursor ?? null;
+  }
+
+  /**
+   * 保存分批刷新的游标（使用 Postgres）
+   */
+  async saveRefreshCursor(name: string, cursor: string): Promise<void> {
+    await this.db.query(
+      `INSERT INTO refresh_state (name, cursor, updated_at) VALUES ($1, $2, $3)
+       ON CONFLICT (name) DO UPDATE SET cursor = excluded.cursor, updated_at = excluded.updated_at`,
+      [name, cursor, Date.now()]
+    );
+  }
+
+  /**
+   * 记录一次刷新的统计（使用 Postgres）
+   */
+  async addRefreshRun(run: RefreshRun): Promise<void> {
+    await this.db.query(
+      `INSERT INTO refresh_runs (source, started_at, duration_ms, keys_processed, errors, pending, error)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [run.source, run.startedAt, run.durationMs, run.keysProcessed, run.errors, run.pending, run.error]
+    );
+  }
+
+  /**
+   * 获取最近的刷新统计，按时间倒序（使用 Postgres）
+   */
+  async getRefreshRuns(limit: number): Promise<RefreshRun[]> {
+    const result = await this.db.query(
+      `SELECT id, source, started_at, duration_ms, keys_processed, errors, pending, error
+       FROM refresh_runs ORDER BY started_at DESC LIMIT $1`,
+      [limit]
+    );
+    return result.rows.map(row => ({
+      id: toNumber(row.id),
+      source: row.source as RefreshRun['source'],
+      startedAt: toNumber(row.started_at),
+      durationMs: row.duration_ms as number,
+      keysProcessed: row.keys_processed as number,
+      errors: row.errors as number,
+      pending: row.pending as number,
+      error: row.error as string | null,
+    }));
+  }
+
+  /**
+   * 删除早于指定时间的刷新统计（使用 Postgres）
+   */
+  async pruneRefreshRuns(before: number): Promise<void> {
+    await this.db.query('DELETE FROM refresh_runs WHERE started_at < $1', [before]);
+  }
+
+  /**
+   * 尝试获取锁；锁不存在或已过期时成功（使用 Postgres）
+   */
+  async acquireLock(name: string, holder: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const result = await this.db.query(
+      `INSERT INTO locks (name, holder, expires_at) VALUES ($1, $2, $3)
+       ON CONFLICT (name) DO UPDATE SET holder = excluded.holder, expires_at = excluded.expires_at
+       WHERE locks.expires_at < $4`,
+      [name, holder, now + ttlMs, now]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * 检查锁是否被持有且未过期（使用 Postgres）
+   */
+  async isLockHeld(name: string): Promise<boolean> {
+    const result = await this.db.query(
+      'SELECT 1 FROM locks WHERE name = $1 AND expires_at >= $2',
+      [name, Date.now()]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * 释放自己持有的锁（使用 Postgres）
+   */
+  async releaseLock(name: string, holder: string): Promise<void> {
+    await this.db.query('DELETE FROM locks WHERE name = $1 AND holder = $2', [name, holder]);
+  }
+
+  /**
+   * 批量写入用量快照（使用 Postgres）
+   */
+  async saveUsageSnapshots(snapshots: (UsageSnapshot & { keyId: string })[]): Promise<void> {
+    if (snapshots.length === 0) return;
+
+    await this.db.query(
+      `INSERT INTO usage_snapshots
+         (key_id, start_date, end_date, org_total_tokens_used, total_allowance, used_ratio, captured_at)
+       SELECT * FROM unnest($1::TEXT[], $2::TEXT[], $3::TEXT[], $4::DOUBLE PRECISION[], $5::DOUBLE PRECISION[], $6::DOUBLE PRECISION[], $7::BIGINT[])`,
+      [
+        snapshots.map(s => s.keyId), snapshots.map(s => s.startDate), snapshots.map(s => s.endDate),
+        snapshots.map(s => s.orgTotalTokensUsed), snapshots.map(s => s.totalAllowance),
+        snapshots.map(s => s.usedRatio), snapshots.map(s => s.capturedAt),
+      ]
+    );
+  }
+
+  /**
+   * 获取指定 Key 在时间区间内的用量快照（使用 Postgres）
+   */
+  async getUsageHistory(keyId: string, from: number, to: number): Promise<UsageSnapshot[]> {
+    const result = await this.db.query(
+      `SELECT captured_at, start_date, end_date, org_total_tokens_used, total_allowance, used_ratio
+       FROM usage_snapshots
+       WHERE key_id = $1 AND captured_at BETWEEN $2 AND $3
+       ORDER BY captured_at ASC`,
+      [keyId, from, to]
+    );
+    return result.rows.map(toUsageSnapshot);
+  }
+
+  /**
+   * 获取每个 Key 在指定时间之后、各用量窗口内最早的一条快照（使用 Postgres）
+   */
+  async getEarliestSnapshotsSince(since: number): Promise<UsageSnapshot[]> {
+    const result = await this.db.query(
+      `SELECT DISTINCT ON (key_id, start_date)
+              key_id, captured_at, start_date, end_date, org_total_tokens_used, total_allowance, used_ratio
+       FROM usage_snapshots
+       WHERE captured_at >= $1
+       ORDER BY key_id, start_date, captured_at ASC`,
+      [since]
+    );
+    return result.rows.map(row => ({ keyId: row.key_id as string, ...toUsageSnapshot(row) }));
+  }
+
+  /**
+   * 清理早于指定时间的用量快照（使用 Postgres）
+   */
+  async pruneUsageSnapshots(before: number): Promise<void> {
+    await this.db.query('DELETE FROM usage_snapshots WHERE captured_at < $1', [before]);
+  }
+
+  /**
+   * 获取所有告警规则（使用 Postgres）
+   */
+  async getAlertRules(): Promise<AlertRule[]> {
+    const result = await this.db.query<AlertRule>(
+      'SELECT id, name, type, threshold, match, enabled FROM alert_rules ORDER BY created_at ASC'
+    );
+    return result.rows;
+  }
+
+  /**
+   * 新增或更新告警规则（使用 Postgres）
+   */
+  async saveAlertRule(rule: AlertRule): Promise<void> {
+    await this.db.query(
+      `INSERT INTO alert_rules (id, name, type, threshold, match, enabled) VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (id) DO UPDATE SET
+         name = excluded.name, type = excluded.type, threshold = excluded.threshold,
+         match = excluded.match, enabled = excluded.enabled`,
+      [rule.id, rule.name, rule.type, rule.threshold, rule.match, rule.enabled]
+    );
+  }
+
+  /**
+   * 删除告警规则及其去重状态（使用 Postgres）
+   */
+  async deleteAlertRule(id: string): Promise<boolean> {
+    const result = await this.db.query(
+      `WITH state AS (DELETE FROM alert_state WHERE rule_id = $1)
+       DELETE FROM alert_rules WHERE id = $1`,
+      [id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * 获取所有告警 Webhook（使用 Postgres）
+   */
+  async getAlertWebhooks(): Promise<AlertWebhook[]> {
+    const result = await this.db.query<AlertWebhook>(
+      'SELECT id, type, url, secret, chat_id AS "chatId", enabled FROM alert_webhooks ORDER BY created_at ASC'
+    );
+    return result.rows;
+  }
+
+  /**
+   * 新增或更新告警 Webhook（使用 Postgres）
+   */
+  async saveAlertWebhook(webhook: AlertWebhook): Promise<void> {
+    await this.db.query(
+      `INSERT INTO alert_webhooks (id, type, url, secret, chat_id, enabled) VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (id) DO UPDATE SET
+         type = excluded.type, url = excluded.url, secret = excluded.secret,
+         chat_id = excluded.chat_id, enabled = excluded.enabled`,
+      [webhook.id, webhook.type, webhook.url, webhook.secret, webhook.chatId, webhook.enabled]
+    );
+  }
+
+  /**
+   * 删除告警 Webhook（使用 Postgres）
+   */
+  async deleteAlertWebhook(id: string): Promise<boolean> {
+    const result = await this.db.query('DELETE FROM alert_webhooks WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * 获取告警去重状态，键为 `ruleId|target`，值为上次触发时间（使用 Postgres）
+   */
+  async getAlertStates(): Promise<Map<string, number>> {
+    const result = await this.db.query('SELECT rule_id, target, fired_at FROM alert_state');
+    return new Map(result.rows.map(r => [`${r.rule_id}|${r.target}`, toNumber(r.fired_at)]));
+  }
+
+  /**
+   * 写入已触发的告警并清除已恢复的告警状态（使用 Postgres）
+   */
+  async updateAlertStates(fired: AlertStateKey[], resolved: AlertStateKey[], firedAt: number): Promise<void> {
+    if (fired.length === 0 && resolved.length === 0) return;
+
+    await this.db.query(
+      `WITH fired AS (
+         INSERT INTO alert_state (rule_id, target, fired_at)
+         SELECT rule_id, target, $3::BIGINT FROM unnest($1::TEXT[], $2::TEXT[]) AS f(rule_id, target)
+         ON CONFLICT (rule_id, target) DO UPDATE SET fired_at = excluded.fired_at
+       )
+       DELETE FROM alert_state s USING unnest($4::TEXT[], $5::TEXT[]) AS r(rule_id, target)
+       WHERE s.rule_id = r.rule_id AND s.target = r.target`,
+      [fired.map(f => f.ruleId), fired.map(f => f.target), firedAt, resolved.map(r => r.ruleId), resolved.map(r => r.target)]
+    );
+  }
+
+  /**
+   * 获取所有用户（不含密码信息，使用 Postgres）
+   */
+  async getUsers(): Promise<User[]> {
+    const result = await this.db.query<User>('SELECT id, username, role FROM users ORDER BY created_at ASC');
+    return result.rows;
+  }
+
+  /**
+   * 根据用户名获取用户及其密码哈希（使用 Postgres）
+   */
+  async getUserByUsername(username: string): Promise<UserRecord | null> {
+    const { rows: [row] } = await this.db.query<UserRecord>(
+      'SELECT id, username, role, password_hash, salt, iterations FROM users WHERE username = $1',
+      [username]
+    );
+    return row ?? null;
+  }
+
+  /**
+   * 根据 ID 获取用户及其密码哈希（使用 Postgres）
+   */
+  async getUserById(id: string): Promise<UserRecord | null> {
+    const { rows: [row] } = await this.db.query<UserRecord>(
+      'SELECT id, username, role, password_hash, salt, iterations FROM users WHERE id = $1',
+      [id]
+    );
+    return row ?? null;
+  }
+
+  /**
+   * 统计用户数量（使用 Postgres）
+   */
+  async countUsers(): Promise<number> {
+    const { rows: [row] } = await this.db.query<{ count: number }>('SELECT COUNT(*)::INTEGER AS count FROM users');
+    return row?.count || 0;
+  }
+
+  /**
+   * 新增或更新用户（使用 Postgres）
+   */
+  async saveUser(user: UserRecord): Promise<void> {
+    await this.db.query(
+      `INSERT INTO users (id, username, role, password_hash, salt, iterations) VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (id) DO UPDATE SET
+         role = excluded.role, password_hash = excluded.password_hash,
+         salt = excluded.salt, iterations = excluded.iterations`,
+      [user.id, user.username, user.role, user.password_hash, user.salt, user.iterations]
+    );
+  }
+
+  /**
+   * 删除用户及其创建的 API Token（使用 Postgres）
+   */
+  async deleteUser(id: string): Promise<boolean> {
+    const result = await this.db.query(
+      `WITH tokens AS (DELETE FROM api_tokens WHERE user_id = $1)
+       DELETE FROM users WHERE id = $1`,
+      [id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * 获取所有 API Token（不含哈希，使用 Postgres）
+   */
+  async getApiTokens(): Promise<ApiToken[]> {
+    const result = await this.db.query(
+      `SELECT ${API_TOKEN_COLUMNS}
+       FROM api_tokens t LEFT JOIN users u ON u.id = t.user_id
+       ORDER BY t.created_at DESC`
+    );
+    return result.rows.map(toApiToken);
+  }
+
+  /**
+   * 根据 Token 哈希获取 Token 及创建者当前角色（使用 Postgres）
+   * 创建者已被删除的 Token 不会返回
+   */
+  async getApiTokenByHash(tokenHash: string): Promise<(ApiToken & { role: UserRole }) | null> {
+    const { rows: [row] } = await this.db.query(
+      `SELECT ${API_TOKEN_COLUMNS}
+       FROM api_tokens t JOIN users u ON u.id = t.user_id
+       WHERE t.token_hash = $1`,
+      [tokenHash]
+    );
+    return row ? { ...toApiToken(row), role: row.role as UserRole } : null;
+  }
+
+  /**
+   * 新增 API Token（使用 Postgres）
+   */
+  async addApiToken(token: ApiToken, tokenHash: string): Promise<void> {
+    await this.db.query(
+      `INSERT INTO api_tokens (id, name, token_hash, token_prefix, scopes, user_id, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [token.id, token.name, tokenHash, token.tokenPrefix, token.scopes.join(' '), token.userId, token.expiresAt]
+    );
+  }
+
+  /**
+   * 更新 API Token 最近使用时间（使用 Postgres）
+   */
+  async touchApiToken(id: string, usedAt: number): Promise<void> {
+    await this.db.query('UPDATE api_tokens SET last_used_at = $1 WHERE id = $2', [usedAt, id]);
+  }
+
+  /**
+   * 吊销（删除）API Token（使用 Postgres）
+   */
+  async deleteApiToken(id: string): Promise<boolean> {
+    const result = await this.db.query('DELETE FROM api_tokens WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * 追加一条审计日志（使用 Postgres）
+   */
+  async addAuditEntry(entry: Omit<AuditEntry, 'id'>): Promise<void> {
+    await this.db.query(
+      `INSERT INTO audit_log (created_at, actor_id, actor_name, token_id, action, targets, details, ip, user_agent)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        entry.createdAt, entry.actorId, entry.actorName, entry.tokenId, entry.action,
+        JSON.stringify(entry.targets), entry.details ? JSON.stringify(entry.details) : null, entry.ip, entry.userAgent,
+      ]
+    );
+  }
+
+  /**
+   * 分页查询审计日志，按时间倒序（使用 Postgres）
+   */
+  async queryAuditLog(query: AuditQuery): Promise<{ entries: AuditEntry[]; total: number }> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    const addCondition = (column: string, operator: string, value: string | number) => {
+      params.push(value);
+      conditions.push(`${column} ${operator} $${params.length}`);
+    };
+    if (query.action) addCondition('action', '=', query.action);
+    if (query.actor) addCondition('actor_name', '=', query.actor);
+    if (query.from !== undefined) addCondition('created_at', '>=', query.from);
+    if (query.to !== undefined) addCondition('created_at', '<=', query.to);
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const rows = await this.db.query(
+      `SELECT id, created_at, actor_id, actor_name, token_id, action, targets, details, ip, user_agent
+       FROM audit_log ${where} ORDER BY created_at DESC, id DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, query.limit, query.offset]
+    );
+    const { rows: [count] } = await this.db.query<{ count: number }>(
+      `SELECT COUNT(*)::INTEGER AS count FROM audit_log ${where}`,
+      params
+    );
+
+    const entries = rows.rows.map(row => ({
+      id: toNumber(row.id),
+      createdAt: toNumber(row.created_at),
+      actorId: row.actor_id as string | null,
+      actorName: row.actor_name as string | null,
+      tokenId: row.token_id as string | null,
+      action: row.action as AuditAction,
+      targets: JSON.parse(row.targets as string) as AuditTarget[],
+      details: row.details ? JSON.parse(row.details as string) : null,
+      ip: row.ip as string | null,
+      userAgent: row.user_agent as string | null,
+    }));
+    return { entries, total: count?.count || 0 };
+  }
+
+  /**
+   * 删除早于指定时间的审计日志（使用 Postgres）
+   */
+  async pruneAuditLog(before: number): Promise<void> {
+    await this.db.query('DELETE FROM audit_log WHERE created_at < $1', [before]);
+  }
+}
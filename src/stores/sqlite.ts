@@ -0,0 +1,123 @@
+// sqlite.ts - D1-compatible adapter over a local SQLite file (better-sqlite3, bun:sqlite or node:sqlite),
+// so D1KeyStore and the migrations in migrations/ run unchanged outside Cloudflare
+
+import { MIGRATIONS_TABLE, type D1Like, type D1Statement } from './d1.ts';
+
+// ==================== Type Definitions ====================
+
+// The synchronous driver API shared by better-sqlite3, bun:sqlite and node:sqlite
+export interface SqliteDriverStatement {
+  all(...params: unknown[]): unknown[];
+  get(...params: unknown[]): unknown;
+  run(...params: unknown[]): { changes: number | bigint };
+}
+
+export interface SqliteDriver {
+  prepare(sql: string): SqliteDriverStatement;
+  exec(sql: string): unknown;
+}
+
+export interface SqliteMigration {
+  name: string; // File name, e.g. 0001_create_api_keys_table.sql
+  sql: string;
+}
+
+// Statements whose results are read; everything else goes through run() to report changes
+const READ_STATEMENT = /^\s*(SELECT|WITH|PRAGMA)\b/i;
+
+// ==================== D1 Adapter ====================
+
+class SqliteD1Statement implements D1Statement {
+  constructor(
+    private readonly driver: SqliteDriver,
+    readonly sql: string,
+    readonly params: unknown[] = []
+  ) {}
+
+  bind(...values: unknown[]): SqliteD1Statement {
+    return new SqliteD1Statement(this.driver, this.sql, values);
+  }
+
+  async first<T>(): Promise<T | null> {
+    return (this.driver.prepare(this.sql).get(...this.params) as T) ?? null;
+  }
+
+  async all<T>(): Promise<{ results: T[] }> {
+    return this.execute() as { results: T[] };
+  }
+
+  async run(): Promise<{ meta: { changes: number } }> {
+    return this.execute();
+  }
+
+  /**
+   * Runs the statement synchronously, reading rows for queries and the change count otherwise
+   */
+  execute(): { results: unknown[]; meta: { changes: number } } {
+    const stmt = this.driver.prepare(this.sql);
+    if (READ_STATEMENT.test(this.sql)) {
+      const results = stmt.all(...this.params);
+      return { results, meta: { changes: 0 } };
+    }
+    return { results: [], meta: { changes: Number(stmt.run(...this.params).changes) } };
+  }
+}
+
+export class SqliteD1Database implements D1Like {
+  constructor(private readonly driver: SqliteDriver) {}
+
+  prepare(query: string): SqliteD1Statement {
+    return new SqliteD1Statement(this.driver, query);
+  }
+
+  /**
+   * Runs the statements in one transaction, all or nothing, like D1 batch
+   */
+  async batch<T>(statements: D1Statement[]): Promise<{ results: T[]; meta: { changes: number } }[]> {
+    this.driver.exec('BEGIN');
+    try {
+      const results = (statements as SqliteD1Statement[]).map(stmt => stmt.execute() as { results: T[]; meta: { changes: number } });
+      this.driver.exec('COMMIT');
+      return results;
+    } catch (error) {
+      this.driver.exec('ROLLBACK');
+      throw error;
+    }
+  }
+}
+
+// ==================== Migrations ====================
+
+/**
+ * Applies the migrations not yet recorded, in file name order, bookkeeping them in the same
+ * table as `wrangler d1 migrations apply`; returns the names applied
+ */
+export function migrateSqlite(driver: SqliteDriver, migrations: SqliteMigration[]): string[] {
+  driver.exec(
+    `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+       id INTEGER PRIMARY KEY AUTOINCREMENT,
+       name TEXT UNIQUE,
+       applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+     )`
+  );
+  const applied = new Set(
+    (driver.prepare(`SELECT name FROM ${MIGRATIONS_TABLE}`).all() as { name: string }[]).map(row => row.name)
+  );
+
+  const pending = migrations
+    .filter(migration => !applied.has(migration.name))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const migration of pending) {
+    driver.exec('BEGIN');
+    try {
+      driver.exec(migration.sql);
+      driver.prepare(`INSERT INTO ${MIGRATIONS_TABLE} (name) VALUES (?)`).run(migration.name);
+      driver.exec('COMMIT');
+    } catch (error) {
+      driver.exec('ROLLBACK');
+      throw new Error(`Migration ${migration.name} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return pending.map(migration => migration.name);
+}
@@ -0,0 +1,107 @@
+// workers-kv.ts - KvBackend on Cloudflare Workers KV, selected with STORAGE = "kv" in wrangler.toml
+
+import type { KvBackend, KvEntry, KvKey } from './kv.ts';
+
+// ==================== Configuration ====================
+
+const PARALLEL_GETS = 50; // Concurrent reads while listing; the local runtime has no bulk get
+const METADATA_LIMIT = 1024; // Bytes of serialized metadata Workers KV keeps per entry
+
+// ==================== Type Definitions ====================
+
+/** The calls the backend makes on a KV namespace, so fakes and other runtimes' bindings fit too. */
+export interface KvNamespaceLike {
+  get(key: string, type: 'text'): Promise<string | null>;
+  put(key: string, value: string, options?: { metadata?: unknown }): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(options: { prefix: string; cursor?: string }): Promise<KVNamespaceListResult<unknown>>;
+}
+
+// ==================== Utility Functions ====================
+
+// Key parts are URI-encoded so "/" can separate them; padded numbers keep their order
+const encodeKey = (key: KvKey) => key.map(encodeURIComponent).join('/');
+const decodeKey = (name: string): KvKey => name.split('/').map(decodeURIComponent);
+
+/** Metadata holding a copy of the value when it fits, so listing returns the value without a read. */
+function toMetadata(value: unknown): { value: unknown } | undefined {
+  const metadata = { value };
+  return new TextEncoder().encode(JSON.stringify(metadata)).length <= METADATA_LIMIT ? metadata : undefined;
+}
+
+const hasValueCopy = (metadata: unknown): metadata is { value: unknown } => typeof metadata === 'object' && metadata !== null && 'value' in metadata;
+
+// ==================== Workers KV Backend ====================
+
+/**
+ * KvBackend over a Workers KV namespace. Workers KV is eventually consistent and has no
+ * compare-and-set: writes can take up to a minute to reach other locations, and setIfVersion
+ * only compares against the value this location reads, so the refresh lock here narrows
+ * concurrent refreshes rather than ruling them out. The version of an entry is its JSON text.
+ *
+ * Workers KV has no bulk read, so values up to about 1 KiB (keys, refresh results, snapshot
+ * indexes) are also written as the entry's metadata, which list() returns: listing them costs
+ * one operation per 1000 entries. Larger values are read one get each.
+ */
+export class WorkersKvBackend implements KvBackend {
+  constructor(private readonly kv: KvNamespaceLike) {}
+
+  async get<T>(key: KvKey): Promise<KvEntry<T> | null> {
+    const text = await this.kv.get(encodeKey(key), 'text');
+    return text === null ? null : { key, value: JSON.parse(text), version: text };
+  }
+
+  async set(key: KvKey, value: unknown): Promise<void> {
+    await this.kv.put(encodeKey(key), JSON.stringify(value), { metadata: toMetadata(value) });
+  }
+
+  async setIfVersion(key: KvKey, value: unknown, version: string | null): Promise<boolean> {
+    const current = await this.kv.get(encodeKey(key), 'text');
+    if (current !== version) return false;
+    await this.kv.put(encodeKey(key), JSON.stringify(value), { metadata: toMetadata(value) });
+    return true;
+  }
+
+  async delete(key: KvKey): Promise<void> {
+    await this.kv.delete(encodeKey(key));
+  }
+
+  async list<T>(prefix: KvKey, range: { start?: KvKey; end?: KvKey; limit?: number } = {}): Promise<KvEntry<T>[]> {
+    const start = range.start && encodeKey(range.start);
+    const end = range.end && encodeKey(range.end);
+    const limit = range.limit ?? Infinity;
+
+    // Workers KV lists by prefix only, so a range is narrowed to the prefix its bounds share and
+    // listing stops once names reach the end; only names in range are then read
+    let listPrefix = `${encodeKey(prefix)}/`;
+    if (start !== undefined && end !== undefined) {
+      let shared = 0;
+      while (shared < start.length && start[shared] === end[shared]) shared++;
+      if (shared > listPrefix.length) listPrefix = start.slice(0, shared);
+    }
+
+    const listed: { name: string; metadata?: unknown }[] = [];
+    let cursor: string | undefined;
+    let done = false;
+    do {
+      const page = await this.kv.list({ prefix: listPrefix, cursor });
+      for (const { name, metadata } of page.keys) {
+        if (end !== undefined && name >= end) done = true;
+        if (done || listed.length >= limit) break;
+        if (start === undefined || name >= start) listed.push({ name, metadata });
+      }
+      cursor = 'cursor' in page ? page.cursor : undefined;
+    } while (cursor && !done && listed.length < limit);
+
+    // Entries without a copy in their metadata are read; null marks one deleted between list and get
+    const texts = listed.map(({ metadata }) => hasValueCopy(metadata) ? JSON.stringify(metadata.value) : undefined);
+    const unread = listed.flatMap(({ name }, i) => texts[i] === undefined ? [i] : []);
+    for (let i = 0; i < unread.length; i += PARALLEL_GETS) {
+      const batch = unread.slice(i, i + PARALLEL_GETS);
+      const read = await Promise.all(batch.map(index => this.kv.get(listed[index].name, 'text')));
+      batch.forEach((index, j) => { texts[index] = read[j]; });
+    }
+
+    return listed.flatMap(({ name }, i) => texts[i] === null ? [] : [{ key: decodeKey(name), value: JSON.parse(texts[i]), version: texts[i] }]);
+  }
+}
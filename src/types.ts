@@ -0,0 +1,335 @@
+// types.ts - Domain types shared by the core and the storage backends
+
+import type { UpstreamErrorCode } from './upstream-client.ts';
+
+export type ProviderId = 'factory' | 'openai' | 'anthropic' | 'openrouter' | 'deepseek';
+
+/** What usage amounts are counted in: Factory tokens, or money for the other providers. */
+export type UsageUnit = 'tokens' | 'USD' | 'CNY';
+
+export interface KeyMetadata {
+  label: string | null;
+  owner: string | null;
+  notes: string | null;
+  tags: string[];
+  provider: ProviderId;
+}
+
+export interface ApiKey extends KeyMetadata {
+  id: string;
+  key: string;
+}
+
+export type KeyErrorClass = 'revoked' | 'rate_limited' | 'upstream_down' | 'malformed' | 'timeout';
+
+export type KeyHealth = 'healthy' | 'exhausted' | KeyErrorClass;
+
+export type KeyLifecycleState = 'active' | 'suspect' | 'quarantined' | 'archived';
+
+export interface KeyLifecycleInfo {
+  lifecycle?: KeyLifecycleState;
+  lifecycleChangedAt?: number | null;
+}
+
+/** Key ID, metadata and lifecycle, read without decrypting the key. */
+export type KeyListEntry = { id: string } & KeyMetadata & KeyLifecycleInfo;
+
+/** A soft-deleted key in the trash; `key` is masked. */
+export interface DeletedKey extends ApiKey {
+  deletedAt: number;
+}
+
+export interface KeyLifecycleSignal {
+  id: string;
+  lifecycle: KeyLifecycleState;
+  lifecycleChangedAt: number | null;
+  createdAt: number;
+  consecutiveFailures: number | null;
+  lastSuccessAt: number | null;
+  exhaustedSince: number | null;
+  errorClass: KeyErrorClass | null; // Of the latest refresh
+}
+
+export interface LifecyclePolicy {
+  suspectFailures: number;
+  quarantineHours: number;
+  archiveDays: number;
+  purgeDays: number;
+}
+
+/** Health classification and failure history, attached when results are read back from the store. */
+export interface KeyHealthInfo {
+  health?: KeyHealth;
+  lastSuccessAt?: number | null;
+  consecutiveFailures?: number;
+  errorSince?: number | null; // When the current error class was first seen
+}
+
+export interface ApiUsageData extends Partial<KeyMetadata>, KeyHealthInfo, KeyLifecycleInfo {
+  id: string;
+  key: string;
+  unit?: UsageUnit; // Missing on results cached before providers existed, which are all tokens
+  startDate: string; // Empty for balances without a usage window
+  endDate: string;
+  orgTotalTokensUsed: number; // In `unit`
+  totalAllowance: number | null; // Null when the provider reports spend but no limit
+  usedRatio: number | null; // Null without a limit
+  tiers?: Record<string, UsageTier>; // Factory's usage tiers by name; the figures above are the primary tier's
+  forecast?: UsageForecast;
+}
+
+/**
+ * One Factory usage tier (standard, premium, ...), each with its own allowance.
+ */
+export interface UsageTier {
+  orgTotalTokensUsed: number;
+  totalAllowance: number;
+  usedRatio: number;
+}
+
+export interface UsageForecast {
+  burnRatePerHour: number;
+  exhaustsAt: string | null; // Beijing time, null when nothing is being consumed
+  withinWindow?: boolean; // Per key: whether exhaustion happens before the usage window ends
+}
+
+export interface ApiErrorData extends Partial<KeyMetadata>, KeyHealthInfo, KeyLifecycleInfo {
+  id: string;
+  key: string;
+  error: string; // Human-readable, e.g. "HTTP 503"
+  code?: UpstreamErrorCode; // Missing on results cached before error codes existed
+}
+
+export type ApiKeyResult = ApiUsageData | ApiErrorData;
+
+export interface UsageTierTotals {
+  total_orgTotalTokensUsed: number;
+  total_totalAllowance: number;
+  totalRemaining: number;
+}
+
+export interface UsageTotals extends UsageTierTotals {
+  tiers?: Record<string, UsageTierTotals>; // Per tier name, when any key reports tiers
+}
+
+export interface AggregatedResponse {
+  update_time: string;
+  total_count: number;
+  totals: UsageTotals; // Token usage (Factory keys), which the pool forecast and alerts also use
+  totals_by_unit?: Partial<Record<UsageUnit, UsageTotals>>; // One entry per unit in use; amounts of different units never add up
+  forecast?: UsageForecast;
+  data: ApiKeyResult[];
+  filtered_count?: number; // Set when /api/data query parameters are applied
+  next_cursor?: string | null;
+  age?: number; // Seconds since the cached data was refreshed
+  stale?: boolean;
+  refresh?: RefreshProgress; // Set on forced refreshes
+}
+
+/**
+ * A forced refresh covers one chunk per request; the client repeats it with `since` until nothing
+ * is pending, so the whole data set ends up fresh without exceeding the per-request limits.
+ */
+export interface RefreshProgress {
+  since: number; // Start of the sweep in epoch ms; keys refreshed after it are done
+  pending: number; // In-service keys the sweep has not reached yet
+}
+
+export type KeyStatus = 'valid' | 'error' | 'exhausted';
+
+export type ExportFormat = 'csv' | 'json' | 'txt';
+
+export type DataSortField = 'remaining' | 'used' | 'allowance' | 'usedRatio' | 'exhaustsAt' | 'label';
+
+export interface DataQuery {
+  status?: KeyStatus;
+  health?: KeyHealth[];
+  lifecycle?: KeyLifecycleState[];
+  provider?: ProviderId[];
+  errorDays?: number; // Only keys whose current error class has lasted at least this long
+  tag?: string;
+  search?: string; // Matches label, owner, notes and tags
+  keyPrefix?: string; // Matches the start of the masked key
+  minRemaining?: number; // Only valid keys with at least this much left, in their own unit
+  sort: DataSortField;
+  order: 'asc' | 'desc';
+  limit?: number;
+  offset: number;
+}
+
+export type UserRole = 'viewer' | 'operator' | 'admin';
+
+export interface User {
+  id: string;
+  username: string;
+  role: UserRole;
+}
+
+export interface UserRecord extends User {
+  password_hash: string;
+  salt: string;
+  iterations: number;
+}
+
+export interface Session {
+  uid: string;
+  username: string;
+  role: UserRole;
+  scopes?: TokenScope[]; // Only set when authenticated with an API token
+  tokenId?: string;
+}
+
+export type TokenScope = 'usage:read' | 'keys:write' | 'keys:export';
+
+export type AuditAction =
+  | 'login' | 'login.failed'
+  | 'keys.add' | 'keys.update' | 'keys.delete' | 'keys.batch_delete' | 'keys.list' | 'keys.export' | 'keys.reveal' | 'keys.reencrypt'
+  | 'keys.lifecycle' | 'keys.restore' | 'keys.purge' | 'keys.trash_restore'
+  | 'user.create' | 'user.update' | 'user.delete'
+  | 'token.create' | 'token.revoke';
+
+export interface AuditTarget {
+  id: string;
+  key?: string; // Always masked
+}
+
+export interface AuditEntry {
+  id: number;
+  createdAt: number;
+  actorId: string | null;
+  actorName: string | null;
+  tokenId: string | null;
+  action: AuditAction;
+  targets: AuditTarget[];
+  details: Record<string, unknown> | null;
+  ip: string | null;
+  userAgent: string | null;
+}
+
+/** Who performed a request and from where, captured once per request for audit entries. */
+export interface AuditContext {
+  actorId: string | null;
+  actorName: string | null;
+  tokenId: string | null;
+  ip: string | null;
+  userAgent: string | null;
+}
+
+export interface AuditQuery {
+  action?: string;
+  actor?: string;
+  from?: number;
+  to?: number;
+  limit: number;
+  offset: number;
+}
+
+export type RefreshSource = 'scheduled' | 'manual';
+
+export interface RefreshRun {
+  id?: number;
+  source: RefreshSource;
+  startedAt: number;
+  durationMs: number;
+  keysProcessed: number;
+  errors: number; // Keys whose Factory request failed
+  pending: number; // Keys still due when the run finished
+  error: string | null;
+}
+
+export interface RefreshQueueEntry {
+  id: string;
+  lifecycle: KeyLifecycleState;
+  refreshedAt: number | null; // Null until the key has been refreshed once
+}
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: TokenScope[];
+  userId: string;
+  username?: string;
+  expiresAt: number | null;
+  lastUsedAt: number | null;
+}
+
+export interface UsageSnapshot {
+  keyId?: string;
+  capturedAt: number;
+  startDate: string;
+  endDate: string;
+  orgTotalTokensUsed: number;
+  totalAllowance: number | null;
+  usedRatio: number | null;
+}
+
+export type AlertRuleType = 'key_used_ratio' | 'pool_remaining' | 'key_error';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  type: AlertRuleType;
+  threshold: number | null;
+  match: string | null;
+  enabled: boolean;
+}
+
+export type NotifierType = 'generic' | 'slack' | 'feishu' | 'dingtalk' | 'telegram';
+
+export interface AlertWebhook {
+  id: string;
+  type: NotifierType;
+  url: string; // Telegram: optional Bot API base URL
+  secret: string | null; // DingTalk/Feishu signing secret or Telegram bot token
+  chatId: string | null; // Telegram only
+  enabled: boolean;
+}
+
+export interface AlertEvent {
+  ruleId: string;
+  ruleName: string;
+  type: AlertRuleType;
+  target: string; // Key ID or 'pool'
+  key?: string; // Masked key
+  value: number | string;
+  threshold: number | null;
+  message: string;
+}
+
+export type ImportFormat = 'csv' | 'json' | 'env';
+
+export type ImportOutcome = 'added' | 'duplicate' | 'invalid_format' | 'unauthorized' | 'error' | 'unchecked';
+
+/** A key read from an import file, with the raw fields next to it on the same line. */
+export interface ImportEntry {
+  line: number; // Line number in the file, or the 1-based item number for JSON
+  key: string;
+  fields: Record<string, unknown>;
+}
+
+export interface ImportLineResult {
+  line: number;
+  key: string | null; // Masked
+  status: ImportOutcome; // In a dry run, 'added' means the key would be added
+  id?: string;
+  error?: string;
+}
+
+export interface BatchImportResult {
+  success: boolean;
+  dryRun: boolean;
+  added: number;
+  skipped: number;
+  results: ImportLineResult[];
+  next_cursor?: string | null; // Dry runs: repeat with this cursor to check the next keys; null once all are checked
+}
+
+export type KeyActionStatus = 'deleted' | 'restored' | 'purged' | 'not_found' | 'error';
+
+/** Per-id outcome of a batch delete, restore or purge. */
+export interface KeyActionResult {
+  id: string;
+  status: KeyActionStatus;
+  error?: string;
+}
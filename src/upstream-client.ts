@@ -0,0 +1,202 @@
+// upstream-client.ts - Usage API client shared by every provider: timeouts, backoff and adaptive concurrency
+
+import type { NormalizedUsage, UsageProvider } from './provider.ts';
+import type { ProviderId } from './types.ts';
+
+// ==================== Type Definitions ====================
+
+export type UpstreamErrorCode =
+  | 'unauthorized' // 401 after retries
+  | 'forbidden' // 403
+  | 'rate_limited' // 429 after retries, or a Retry-After longer than we are willing to wait
+  | 'upstream_error' // 5xx after retries
+  | 'http_error' // Any other non-2xx status
+  | 'timeout'
+  | 'network_error'
+  | 'invalid_response';
+
+export interface UpstreamError {
+  code: UpstreamErrorCode;
+  message: string; // Human-readable, e.g. "HTTP 503"
+  status?: number;
+}
+
+export type UsageResult = { usage: NormalizedUsage } | UpstreamError;
+
+export interface UpstreamClientOptions {
+  baseUrls: Partial<Record<ProviderId, string>>; // Replaces a provider's default base URL, e.g. for a proxy
+  userAgent: string;
+  timeoutMs: number; // Per attempt
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number; // Backoff ceiling, and the longest Retry-After worth waiting for
+}
+
+interface AttemptResult {
+  result: UsageResult;
+  retryAfterMs: number | null;
+}
+
+// ==================== Configuration ====================
+
+export const UPSTREAM_CLIENT_DEFAULTS: UpstreamClientOptions = {
+  baseUrls: {},
+  userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/141.0.0.0 Safari/537.36',
+  timeoutMs: 10 * 1000,
+  maxRetries: 2, // 3 attempts per key keeps a refresh chunk under the Workers subrequest cap
+  baseDelayMs: 500,
+  maxDelayMs: 8 * 1000,
+};
+
+// 401 is included because Factory occasionally rejects valid keys for a moment
+const RETRYABLE_CODES: UpstreamErrorCode[] = ['unauthorized', 'rate_limited', 'upstream_error', 'timeout', 'network_error'];
+
+// ==================== Adaptive Concurrency ====================
+
+/**
+ * Concurrency limit shared by the requests of one batch. Halves on every rate-limited response,
+ * grows by one after a full window of successes, and keeps new requests paused until the
+ * upstream's Retry-After has passed.
+ */
+export class AdaptiveConcurrency {
+  private current: number;
+  private successes = 0;
+  private pausedUntil = 0;
+
+  constructor(private readonly max: number, private readonly min = 1) {
+    this.current = max;
+  }
+
+  get limit(): number {
+    return this.current;
+  }
+
+  /** Milliseconds left before new requests may start. */
+  get pauseMs(): number {
+    return Math.max(0, this.pausedUntil - Date.now());
+  }
+
+  onSuccess(): void {
+    this.successes++;
+    if (this.successes >= this.current) {
+      this.successes = 0;
+      this.current = Math.min(this.max, this.current + 1);
+    }
+  }
+
+  onRateLimited(retryAfterMs: number): void {
+    this.successes = 0;
+    this.current = Math.max(this.min, Math.floor(this.current / 2));
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + retryAfterMs);
+  }
+}
+
+// ==================== Utility Functions ====================
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Parses a Retry-After header (delta-seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with equal jitter: a random delay between half and all of base * 2^attempt.
+ */
+function backoffDelay(attempt: number, options: UpstreamClientOptions): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return ceiling / 2 + Math.random() * ceiling / 2;
+}
+
+function classifyStatus(status: number): UpstreamErrorCode {
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'upstream_error';
+  return 'http_error';
+}
+
+// ==================== Type Guards ====================
+
+export const isUpstreamError = (result: UsageResult): result is UpstreamError => 'code' in result;
+
+// ==================== Requests ====================
+
+/**
+ * Makes a single request, aborted after `timeoutMs`.
+ */
+async function attemptFetch(provider: UsageProvider, key: string, options: UpstreamClientOptions): Promise<AttemptResult> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+  const now = Date.now();
+  const { url, headers } = provider.buildRequest(key, (options.baseUrls[provider.id] || provider.baseUrl).replace(/\/+$/, ''), now);
+
+  try {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': options.userAgent, ...headers },
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      return {
+        result: { code: classifyStatus(response.status), status: response.status, message: `HTTP ${response.status}` },
+        retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+      };
+    }
+
+    const body = await response.json().catch(() => null);
+    const usage = body === null ? null : provider.parseUsage(body, now);
+    if (!usage) {
+      return { result: { code: 'invalid_response', message: 'Invalid API response' }, retryAfterMs: null };
+    }
+    return { result: { usage }, retryAfterMs: null };
+  } catch (error) {
+    const timedOut = controller.signal.aborted;
+    return {
+      result: { code: timedOut ? 'timeout' : 'network_error', message: timedOut ? 'Request timed out' : 'Failed to fetch' },
+      retryAfterMs: null,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Fetches a key's usage from its provider. Retries 401, 429, 5xx, timeouts and network errors with
+ * exponential backoff and jitter, waiting for Retry-After instead when the upstream sends one.
+ * A Retry-After longer than `maxDelayMs` ends the retries. Rate-limited responses also shrink the
+ * shared concurrency limit so the rest of the batch slows down.
+ */
+export async function fetchUsage(
+  provider: UsageProvider,
+  key: string,
+  limiter?: AdaptiveConcurrency,
+  overrides: Partial<UpstreamClientOptions> = {}
+): Promise<UsageResult> {
+  const options = { ...UPSTREAM_CLIENT_DEFAULTS, ...overrides };
+
+  for (let attempt = 0; ; attempt++) {
+    const { result, retryAfterMs } = await attemptFetch(provider, key, options);
+    if (!isUpstreamError(result)) {
+      limiter?.onSuccess();
+      return result;
+    }
+
+    const delayMs = retryAfterMs ?? backoffDelay(attempt, options);
+    if (result.code === 'rate_limited') limiter?.onRateLimited(Math.min(delayMs, options.maxDelayMs));
+
+    if (attempt >= options.maxRetries || !RETRYABLE_CODES.includes(result.code) || delayMs > options.maxDelayMs) {
+      return result;
+    }
+    await sleep(Math.max(delayMs, limiter?.pauseMs ?? 0));
+  }
+}
@@ -0,0 +1,112 @@
+// alerts.test.ts - Alert rules firing through webhooks from the scheduled run, sent once per condition
+//
+//   npm test
+
+import assert from 'node:assert/strict';
+import { afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+
+import { createAppWithKeys, FACTORY_USAGE_PATH, factoryUsage, silenceLogs, useMockUpstream, type TestApp } from './helpers.ts';
+
+const MINUTE = 60 * 1000;
+
+const upstream = useMockUpstream();
+
+before(silenceLogs);
+beforeEach(() => mock.timers.enable({ apis: ['Date'], now: Date.UTC(2025, 5, 10) }));
+afterEach(() => mock.timers.reset());
+
+/** An app with one Factory key, a rule (by default a used ratio of 80%) and a generic webhook on the mock server. */
+async function createAlertingApp(
+  rule: Record<string, unknown> = { name: 'High usage', type: 'key_used_ratio', threshold: 0.8 },
+  vars: Record<string, string> = {}
+): Promise<TestApp> {
+  const { app, cookie } = await createAppWithKeys(['fk-alerting-key-0001'], { PROVIDER_BASE_URLS: upstream.providerBaseUrls, ...vars });
+
+  const created = await app.request('/api/alerts/rules', { cookie, body: rule });
+  assert.equal(created.status, 200);
+  const webhook = await app.request('/api/alerts/webhooks', { cookie, body: { type: 'generic', url: `${upstream.url}/hook` } });
+  assert.equal(webhook.status, 200);
+  upstream.routes.set('/hook', [{ body: { ok: true } }]);
+  return app;
+}
+
+/** Serves the next refresh with `used` of 1000 tokens and runs the scheduled job after the refresh interval. */
+async function refreshWithUsage(app: TestApp, used: number): Promise<void> {
+  upstream.routes.set(FACTORY_USAGE_PATH, [factoryUsage(used, 1000)]);
+  mock.timers.tick(10 * MINUTE);
+  await app.runScheduled();
+}
+
+const deliveries = () => upstream.requests.filter(request => request.path === '/hook');
+
+describe('alerts', () => {
+  it('sends an alert once while its condition keeps holding', async () => {
+    const app = await createAlertingApp();
+
+    await refreshWithUsage(app, 900);
+    assert.equal(deliveries().length, 1);
+    const [alert] = (deliveries()[0].body as { alerts: { ruleName: string; value: number }[] }).alerts;
+    assert.equal(alert.ruleName, 'High usage');
+    assert.equal(alert.value, 0.9);
+
+    await refreshWithUsage(app, 950);
+    await refreshWithUsage(app, 990);
+    assert.equal(deliveries().length, 1);
+  });
+
+  it('sends again once the condition cleared and returned', async () => {
+    const app = await createAlertingApp();
+
+    await refreshWithUsage(app, 900);
+    await refreshWithUsage(app, 100);
+    assert.equal(deliveries().length, 1);
+    assert.deepEqual([...(await app.env.store.getAlertStates()).keys()], []);
+
+    await refreshWithUsage(app, 900);
+    assert.equal(deliveries().length, 2);
+  });
+
+  it('repeats an alert that still holds after ALERT_REPEAT_HOURS', async () => {
+    const app = await createAlertingApp();
+
+    await refreshWithUsage(app, 900);
+    mock.timers.tick(23 * 60 * MINUTE);
+    await refreshWithUsage(app, 900);
+    assert.equal(deliveries().length, 1);
+
+    mock.timers.tick(60 * MINUTE);
+    await refreshWithUsage(app, 900);
+    assert.equal(deliveries().length, 2);
+  });
+
+  it('keeps alerting for quarantined keys, which are still refreshed', async () => {
+    // Starts from the real time: SQLite sets created_at from its own clock
+    mock.timers.reset();
+    mock.timers.enable({ apis: ['Date'], now: Date.now() });
+    const app = await createAlertingApp({ name: 'Errors', type: 'key_error' }, { LIFECYCLE_SUSPECT_FAILURES: '1', LIFECYCLE_QUARANTINE_HOURS: '1' });
+
+    await refreshWithUsage(app, 1000);
+    await refreshWithUsage(app, 1000);
+    mock.timers.tick(60 * MINUTE);
+    await app.runScheduled();
+    const [key] = await app.env.store.listKeys('all');
+    assert.equal(key.lifecycle, 'quarantined');
+    assert.equal(deliveries().length, 0);
+
+    upstream.routes.set(FACTORY_USAGE_PATH, [{ status: 403, body: { error: 'key revoked' } }]);
+    mock.timers.tick(6 * 60 * MINUTE);
+    await app.runScheduled();
+    assert.equal(deliveries().length, 1);
+    assert.equal((deliveries()[0].body as { alerts: { type: string }[] }).alerts[0].type, 'key_error');
+  });
+
+  it('does not alert for disabled rules', async () => {
+    const app = await createAlertingApp();
+    const cookie = await app.login('root', 'root-password');
+    const [rule] = await app.env.store.getAlertRules();
+    assert.equal((await app.request(`/api/alerts/rules/${rule.id}`, { method: 'PUT', cookie, body: { enabled: false } })).status, 200);
+
+    await refreshWithUsage(app, 900);
+    assert.equal(deliveries().length, 0);
+  });
+});
@@ -0,0 +1,99 @@
+// encryption.test.ts - API keys encrypted at rest, duplicate detection and master key rotation
+//
+//   npm test
+
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+
+import { createApp, createAppWithKeys, MASTER_KEY, OTHER_MASTER_KEY, silenceLogs, type TestApp } from './helpers.ts';
+
+before(silenceLogs);
+
+const KEYS = ['fk-encrypted-key-0001', 'fk-encrypted-key-0002'];
+
+/** The stored value of every key, by ID. */
+async function storedKeys(app: TestApp): Promise<Map<string, string>> {
+  return new Map((await app.env.store.listKeys('all')).map(key => [key.id, key.key]));
+}
+
+/** The plaintext keys the admin API returns, sorted. */
+async function readKeys(app: TestApp, cookie: string): Promise<string[]> {
+  const response = await app.request('/api/keys', { cookie });
+  assert.equal(response.status, 200);
+  return (await response.json() as { key: string }[]).map(k => k.key).sort();
+}
+
+describe('key encryption', () => {
+  it('stores keys as per-key envelopes and returns them decrypted', async () => {
+    const { app, cookie } = await createAppWithKeys(KEYS);
+
+    const stored = [...(await storedKeys(app)).values()];
+    assert.equal(stored.length, 2);
+    for (const value of stored) {
+      assert.match(value, /^enc:v1:[0-9a-f]{8}:[\w-]+:[\w-]+$/);
+      assert.ok(KEYS.every(key => !value.includes(key)));
+    }
+    // The same master key wraps a different data key for each row
+    assert.notEqual(stored[0].split(':')[3], stored[1].split(':')[3]);
+    assert.deepEqual(await readKeys(app, cookie), KEYS);
+  });
+
+  it('finds duplicates through the keyed hash, without decrypting', async () => {
+    const { app, cookie } = await createAppWithKeys([KEYS[0]]);
+
+    assert.equal((await app.request('/api/keys', { cookie, body: { key: KEYS[0] } })).status, 409);
+    const response = await app.request('/api/keys', { cookie, body: [KEYS[0], KEYS[1], KEYS[1]] });
+    const { results } = await response.json() as { results: { status: string }[] };
+    assert.deepEqual(results.map(r => r.status), ['duplicate', 'added', 'duplicate']);
+  });
+
+  it('rotates the master key with KEY_ENCRYPTION_KEY_PREVIOUS and reencrypt-keys', async () => {
+    const { app, cookie } = await createAppWithKeys(KEYS);
+    const original = await storedKeys(app);
+
+    app.env.KEY_ENCRYPTION_KEY = OTHER_MASTER_KEY;
+    app.env.KEY_ENCRYPTION_KEY_PREVIOUS = MASTER_KEY;
+    assert.deepEqual(await readKeys(app, cookie), KEYS);
+    // Keys wrapped by the previous master key still count as duplicates
+    assert.equal((await app.request('/api/keys', { cookie, body: { key: KEYS[0] } })).status, 409);
+
+    const response = await app.request('/api/admin/reencrypt-keys', { cookie, method: 'POST' });
+    assert.deepEqual(await response.json(), { success: true, reencrypted: 2 });
+    for (const [id, value] of await storedKeys(app)) {
+      assert.notEqual(value.split(':')[2], original.get(id).split(':')[2]);
+    }
+
+    delete app.env.KEY_ENCRYPTION_KEY_PREVIOUS;
+    assert.deepEqual(await readKeys(app, cookie), KEYS);
+    assert.deepEqual(await (await app.request('/api/admin/reencrypt-keys', { cookie, method: 'POST' })).json(), { success: true, reencrypted: 0 });
+  });
+
+  it('cannot read keys of a master key that is no longer configured', async () => {
+    const { app, cookie } = await createAppWithKeys(KEYS);
+
+    app.env.KEY_ENCRYPTION_KEY = OTHER_MASTER_KEY;
+    const response = await app.request('/api/keys', { cookie });
+    assert.equal(response.status, 500);
+    assert.match((await response.json() as { error: string }).error, /No master key available/);
+  });
+
+  it('encrypts rows stored in plaintext before encryption existed', async () => {
+    const app = createApp();
+    const cookie = await app.createAdmin();
+    await app.env.store.addKeys([{ id: 'legacy', key: KEYS[0], keyHash: null, label: null, owner: null, notes: null, tags: [], provider: 'factory' }]);
+    assert.deepEqual(await readKeys(app, cookie), [KEYS[0]]);
+    assert.equal((await app.request('/api/keys', { cookie, body: { key: KEYS[0] } })).status, 409);
+
+    await app.request('/api/admin/reencrypt-keys', { cookie, method: 'POST' });
+    assert.match((await storedKeys(app)).get('legacy'), /^enc:v1:/);
+    assert.deepEqual(await readKeys(app, cookie), [KEYS[0]]);
+  });
+
+  it('refuses a master key that is not 32 bytes', async () => {
+    const app = createApp({ KEY_ENCRYPTION_KEY: Buffer.alloc(16).toString('base64') });
+    const cookie = await app.createAdmin();
+    const response = await app.request('/api/keys', { cookie, body: { key: KEYS[0] } });
+    assert.match((await response.json() as { error: string }).error, /must be 32 bytes/);
+    assert.deepEqual(await app.env.store.listKeys('all'), []);
+  });
+});
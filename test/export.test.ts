@@ -0,0 +1,121 @@
+// export.test.ts - Exporting keys as CSV, JSON or text, with filters and the encrypted archive
+//
+//   npm test
+
+import assert from 'node:assert/strict';
+import { createDecipheriv, pbkdf2Sync } from 'node:crypto';
+import { before, describe, it } from 'node:test';
+
+import { ADMIN, createAppWithKeys, FACTORY_USAGE_PATH, factoryUsage, silenceLogs, useMockUpstream, type TestApp } from './helpers.ts';
+
+const upstream = useMockUpstream();
+
+before(silenceLogs);
+
+// Two tagged keys; the first has notes that need quoting in a CSV
+const KEYS = [
+  { key: 'fk-export-key-000001', label: 'first', tags: ['team-a', 'prod'], owner: 'alice', notes: 'says "hi", twice' },
+  { key: 'fk-export-key-000002', label: 'second', tags: ['team-b'] },
+];
+
+/** Posts an export request with the admin's password. */
+function requestExport(app: TestApp, cookie: string, body: Record<string, unknown>): Promise<Response> {
+  return app.request('/api/keys/export', { cookie, body: { password: ADMIN.password, ...body } });
+}
+
+/** Decrypts an archive the way `openssl enc -d -aes-256-cbc -pbkdf2 -iter 100000` does. */
+function decryptArchive(archive: Buffer, password: string): string {
+  assert.equal(archive.subarray(0, 8).toString(), 'Salted__');
+  const bits = pbkdf2Sync(password, archive.subarray(8, 16), 100000, 48, 'sha256');
+  const decipher = createDecipheriv('aes-256-cbc', bits.subarray(0, 32), bits.subarray(32, 48));
+  return Buffer.concat([decipher.update(archive.subarray(16)), decipher.final()]).toString();
+}
+
+describe('key export', () => {
+  it('asks for the password again', async () => {
+    const { app, cookie } = await createAppWithKeys(KEYS);
+    assert.equal((await app.request('/api/keys/export', { cookie, body: { format: 'txt' } })).status, 401);
+    assert.equal((await app.request('/api/keys/export', { cookie, body: { format: 'txt', password: 'wrong-password' } })).status, 401);
+    assert.equal((await requestExport(app, cookie, { format: 'txt' })).status, 200);
+  });
+
+  it('writes a CSV with the import columns first, quoting cells where needed', async () => {
+    const { app, cookie } = await createAppWithKeys(KEYS);
+    const response = await requestExport(app, cookie, { format: 'csv', filters: { tag: 'team-a' } });
+    assert.equal(response.headers.get('Content-Type'), 'text/csv; charset=utf-8');
+    assert.match(response.headers.get('Content-Disposition'), /^attachment; filename="api_keys_export_\d{4}-\d{2}-\d{2}\.csv"$/);
+    assert.equal(response.headers.get('X-Export-Count'), '1');
+
+    const [header, row, end] = (await response.text()).split('\r\n');
+    assert.equal(header, 'key,label,tags,owner,notes,id,provider,unit,lifecycle,status,health,used,allowance,remaining,used_ratio,start_date,end_date,error');
+    assert.match(row, /^fk-export-key-000001,first,team-a\|prod,alice,"says ""hi"", twice",key-[\w-]+,factory,,active,/);
+    assert.match(row, /,Not refreshed yet$/);
+    assert.equal(end, '');
+  });
+
+  it('writes JSON with tags as an array, and plain text with one key per line', async () => {
+    const { app, cookie } = await createAppWithKeys(KEYS);
+
+    const json = await (await requestExport(app, cookie, { format: 'json' })).json() as { key: string; tags: string[]; notes: string | null }[];
+    assert.deepEqual(json.map(({ key, tags, notes }) => ({ key, tags, notes })).sort((a, b) => a.key.localeCompare(b.key)), [
+      { key: 'fk-export-key-000001', tags: ['team-a', 'prod'], notes: 'says "hi", twice' },
+      { key: 'fk-export-key-000002', tags: ['team-b'], notes: null },
+    ]);
+
+    const text = await (await requestExport(app, cookie, { format: 'txt' })).text();
+    assert.deepEqual(text.split('\n').sort(), ['fk-export-key-000001', 'fk-export-key-000002']);
+  });
+
+  it('includes the latest usage and filters on it', async () => {
+    upstream.routes.set(FACTORY_USAGE_PATH, [factoryUsage(250, 1000)]);
+    const { app, cookie } = await createAppWithKeys(KEYS, { PROVIDER_BASE_URLS: upstream.providerBaseUrls });
+    await app.runScheduled();
+
+    const rows = await (await requestExport(app, cookie, { format: 'json', filters: { min_remaining: 700 } })).json() as Record<string, unknown>[];
+    assert.equal(rows.length, 2);
+    const { provider, unit, lifecycle, used, allowance, remaining, used_ratio, error } = rows[0];
+    assert.deepEqual({ provider, unit, lifecycle, used, allowance, remaining, used_ratio, error }, {
+      provider: 'factory', unit: 'tokens', lifecycle: 'active', used: 250, allowance: 1000, remaining: 750, used_ratio: 0.25, error: null,
+    });
+
+    const none = await requestExport(app, cookie, { format: 'txt', filters: { min_remaining: 800 } });
+    assert.equal(none.headers.get('X-Export-Count'), '0');
+    assert.equal(await none.text(), '');
+  });
+
+  it('rejects unknown formats and filters, and short archive passwords', async () => {
+    const { app, cookie } = await createAppWithKeys(KEYS);
+    const cases: [Record<string, unknown>, RegExp][] = [
+      [{ format: 'xml' }, /format must be one of/],
+      [{ format: 'csv', filters: { colour: 'red' } }, /Unknown filter: colour/],
+      [{ format: 'csv', filters: ['tag'] }, /filters must be an object/],
+      [{ format: 'csv', archivePassword: 'short' }, /archivePassword must be at least 8 characters/],
+    ];
+
+    for (const [body, error] of cases) {
+      const response = await requestExport(app, cookie, body);
+      assert.equal(response.status, 400, JSON.stringify(body));
+      assert.match((await response.json() as { error: string }).error, error);
+    }
+  });
+
+  it('wraps the file in an archive that openssl enc can decrypt', async () => {
+    const { app, cookie } = await createAppWithKeys(KEYS);
+    const response = await requestExport(app, cookie, { format: 'txt', filters: { tag: 'team-b' }, archivePassword: 'archive-password' });
+    assert.equal(response.headers.get('Content-Type'), 'application/octet-stream');
+    assert.match(response.headers.get('Content-Disposition'), /\.txt\.enc"$/);
+
+    const archive = Buffer.from(await response.arrayBuffer());
+    assert.equal(decryptArchive(archive, 'archive-password'), 'fk-export-key-000002');
+  });
+
+  it('records each export in the audit log with its filters', async () => {
+    const { app, cookie } = await createAppWithKeys(KEYS);
+    await requestExport(app, cookie, { format: 'csv', filters: { tag: 'team-b' }, archivePassword: 'archive-password' });
+
+    const { entries } = await (await app.request('/api/audit?action=keys.export', { cookie })).json() as { entries: { action: string; details: unknown }[] };
+    assert.deepEqual(entries.map(({ action, details }) => ({ action, details })), [
+      { action: 'keys.export', details: { format: 'csv', filters: { tag: 'team-b' }, encrypted: true, count: 1 } },
+    ]);
+  });
+});
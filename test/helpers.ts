@@ -0,0 +1,224 @@
+// helpers.ts - A dashboard on an in-memory SQLite store for the request-level tests
+//
+// Each test builds its own app and talks to it through handleRequest, the same entry point the
+// Workers, Deno and Node builds use, so routing, access checks and the store all take part.
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { createServer, type IncomingHttpHeaders } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { join } from 'node:path';
+import { after, before, beforeEach, mock } from 'node:test';
+
+import Database from 'better-sqlite3';
+
+import { handleRequest, runScheduled, type Env } from '../src/core.ts';
+import { PROVIDER_IDS } from '../src/provider.ts';
+import { D1KeyStore } from '../src/stores/d1.ts';
+import { migrateSqlite, SqliteD1Database, type SqliteMigration } from '../src/stores/sqlite.ts';
+
+// ==================== Configuration ====================
+
+const MIGRATIONS_DIR = new URL('../migrations', import.meta.url).pathname;
+
+export const MIGRATIONS: SqliteMigration[] = readdirSync(MIGRATIONS_DIR)
+  .filter(name => name.endsWith('.sql'))
+  .sort()
+  .map(name => ({ name, sql: readFileSync(join(MIGRATIONS_DIR, name), 'utf8') }));
+
+export const BOOTSTRAP_PASSWORD = 'bootstrap-password';
+export const ADMIN = { username: 'root', password: 'root-password' };
+
+// Master keys: 32 bytes each, base64
+export const MASTER_KEY = Buffer.alloc(32, 1).toString('base64');
+export const OTHER_MASTER_KEY = Buffer.alloc(32, 2).toString('base64');
+
+// ==================== Test App ====================
+
+export interface RequestOptions {
+  method?: string;
+  body?: unknown; // Objects are sent as JSON, strings as they are
+  cookie?: string;
+  token?: string;
+  headers?: Record<string, string>;
+}
+
+export interface TestApp {
+  env: Env;
+  db: Database.Database;
+  request(path: string, options?: RequestOptions): Promise<Response>;
+  /** Logs in and returns the session cookie ("session_token=..."). */
+  login(username: string, password: string): Promise<string>;
+  /** Creates the first admin through the bootstrap login and returns their session cookie. */
+  createAdmin(): Promise<string>;
+  /** Creates a user with the given role as `adminCookie` and returns the new user's ID and session cookie. */
+  createUser(adminCookie: string, username: string, role: string): Promise<{ id: string; cookie: string }>;
+  /** Adds keys as `cookie` and returns their IDs, in the order given. */
+  addKeys(cookie: string, keys: (string | Record<string, unknown>)[]): Promise<string[]>;
+  runScheduled(): Promise<void>;
+}
+
+/**
+ * Builds an app on a fresh in-memory database. `migrations` defaults to all of migrations/.
+ */
+export function createApp(vars: Partial<Omit<Env, 'store'>> = {}, migrations: SqliteMigration[] = MIGRATIONS): TestApp {
+  const db = new Database(':memory:');
+  migrateSqlite(db, migrations);
+
+  const env: Env = {
+    EXPORT_PASSWORD: BOOTSTRAP_PASSWORD,
+    SESSION_SECRET: 'test-session-secret',
+    KEY_ENCRYPTION_KEY: MASTER_KEY,
+    ...vars,
+    store: new D1KeyStore(new SqliteD1Database(db)),
+  };
+
+  const app: TestApp = {
+    env,
+    db,
+
+    request(path, { method, body, cookie, token, headers: extra } = {}) {
+      const headers = new Headers(extra);
+      if (cookie) headers.set('Cookie', cookie);
+      if (token) headers.set('Authorization', `Bearer ${token}`);
+      if (body !== undefined && typeof body !== 'string') headers.set('Content-Type', 'application/json');
+      return handleRequest(new Request(`http://dashboard.test${path}`, {
+        method: method ?? (body === undefined ? 'GET' : 'POST'),
+        headers,
+        body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body),
+      }), env);
+    },
+
+    async login(username, password) {
+      const response = await app.request('/api/login', { body: { username, password } });
+      if (response.status !== 200) throw new Error(`Login as ${username} failed with ${response.status}`);
+      return response.headers.get('Set-Cookie').split(';')[0];
+    },
+
+    async createAdmin() {
+      const bootstrap = await app.login(BOOTSTRAP_PASSWORD, BOOTSTRAP_PASSWORD);
+      const response = await app.request('/api/users', { cookie: bootstrap, body: { ...ADMIN, role: 'admin' } });
+      if (response.status !== 200) throw new Error(`Creating the admin failed with ${response.status}`);
+      return app.login(ADMIN.username, ADMIN.password);
+    },
+
+    async createUser(adminCookie, username, role) {
+      const password = `${username}-password`;
+      const response = await app.request('/api/users', { cookie: adminCookie, body: { username, password, role } });
+      if (response.status !== 200) throw new Error(`Creating ${username} failed with ${response.status}`);
+      const { user } = await response.json() as { user: { id: string } };
+      return { id: user.id, cookie: await app.login(username, password) };
+    },
+
+    async addKeys(cookie, keys) {
+      const response = await app.request('/api/keys', { cookie, body: keys });
+      if (response.status !== 200) throw new Error(`Adding keys failed with ${response.status}`);
+      const { results } = await response.json() as { results: { id?: string; status: string }[] };
+      return results.map(result => result.id);
+    },
+
+    runScheduled: () => runScheduled(env),
+  };
+  return app;
+}
+
+/**
+ * The setup most tests start from: an app whose first admin added `keys`. Also returns the admin's
+ * session cookie and the key IDs, in the order given.
+ */
+export async function createAppWithKeys(
+  keys: (string | Record<string, unknown>)[],
+  vars: Partial<Omit<Env, 'store'>> = {}
+): Promise<{ app: TestApp; cookie: string; ids: string[] }> {
+  const app = createApp(vars);
+  const cookie = await app.createAdmin();
+  return { app, cookie, ids: keys.length > 0 ? await app.addKeys(cookie, keys) : [] };
+}
+
+// ==================== Mock Upstream ====================
+
+export interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown; // Sent as JSON; strings are sent as they are
+}
+
+export interface MockRequest {
+  path: string;
+  query: URLSearchParams;
+  headers: IncomingHttpHeaders;
+  body: unknown; // Parsed JSON, or null without a body
+}
+
+export interface MockUpstream {
+  /** Responses by request path, served in order; the last one repeats. */
+  routes: Map<string, MockResponse[]>;
+  /** Every request received since the current test started. */
+  requests: MockRequest[];
+  readonly url: string;
+  /** PROVIDER_BASE_URLS pointing every provider at this server. */
+  readonly providerBaseUrls: string;
+}
+
+/**
+ * Runs one local HTTP server that plays the providers and receives webhooks for the calling test
+ * file. Call it at the top level: it starts the server before the tests, forgets the routes and
+ * requests before each one and stops the server afterwards.
+ */
+export function useMockUpstream(): MockUpstream {
+  const routes = new Map<string, MockResponse[]>();
+  const requests: MockRequest[] = [];
+  let url = '';
+
+  const server = createServer((req, res) => {
+    let text = '';
+    req.on('data', chunk => { text += chunk; });
+    req.on('end', () => {
+      const { pathname: path, searchParams: query } = new URL(req.url, 'http://localhost');
+      requests.push({ path, query, headers: req.headers, body: text ? JSON.parse(text) : null });
+      const queue = routes.get(path);
+      const response = (queue?.length > 1 ? queue.shift() : queue?.[0]) ?? { status: 404, body: { error: 'not found' } };
+      res.writeHead(response.status ?? 200, { 'Content-Type': 'application/json', ...response.headers });
+      res.end(typeof response.body === 'string' ? response.body : JSON.stringify(response.body ?? {}));
+    });
+  });
+
+  before(() => new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => {
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    resolve();
+  })));
+  beforeEach(() => {
+    routes.clear();
+    requests.length = 0;
+  });
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  return {
+    routes,
+    requests,
+    get url() { return url; },
+    get providerBaseUrls() { return JSON.stringify(Object.fromEntries(PROVIDER_IDS.map(id => [id, `${url}/`]))); },
+  };
+}
+
+export const FACTORY_USAGE_PATH = '/api/organization/members/chat-usage';
+
+/** A Factory usage response for the current month. */
+export function factoryUsage(used: number, allowance: number): MockResponse {
+  const now = new Date(Date.now());
+  return {
+    body: {
+      usage: {
+        startDate: Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1),
+        endDate: Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1) - 1,
+        standard: { orgTotalTokensUsed: used, totalAllowance: allowance, usedRatio: used / allowance },
+      },
+    },
+  };
+}
+
+// ==================== Utility Functions ====================
+
+/** Keeps the per-request logging of the core out of the test output. */
+export function silenceLogs(): void {
+  for (const method of ['log', 'warn', 'error'] as const) mock.method(console, method, () => {});
+}
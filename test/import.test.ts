@@ -0,0 +1,186 @@
+// import.test.ts - Importing CSV, JSON and .env files, and the dry run that checks keys upstream
+//
+//   npm test
+
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+
+import { createApp, createAppWithKeys, FACTORY_USAGE_PATH, factoryUsage, silenceLogs, useMockUpstream, type TestApp } from './helpers.ts';
+
+interface ImportResult {
+  dryRun: boolean;
+  added: number;
+  skipped: number;
+  results: { line: number; key: string | null; status: string; error?: string }[];
+  next_cursor?: string | null;
+}
+
+interface StoredKey {
+  key: string;
+  label: string | null;
+  tags: string[];
+  owner: string | null;
+  notes: string | null;
+  provider: string;
+}
+
+const upstream = useMockUpstream();
+
+before(silenceLogs);
+
+/** Posts an import file and returns the parsed result. */
+async function importFile(app: TestApp, cookie: string, content: string, params = ''): Promise<ImportResult> {
+  const response = await app.request(`/api/keys/import${params && `?${params}`}`, { cookie, body: content });
+  assert.equal(response.status, 200);
+  return await response.json() as ImportResult;
+}
+
+/** The stored keys with their metadata, decrypted, in the order of their keys. */
+async function storedKeys(app: TestApp, cookie: string): Promise<StoredKey[]> {
+  const keys = await (await app.request('/api/keys', { cookie })).json() as StoredKey[];
+  return keys
+    .map(({ key, label, tags, owner, notes, provider }) => ({ key, label, tags, owner, notes, provider }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+describe('key import', () => {
+  it('maps CSV columns by their header, with quoted commas, quotes and line breaks', async () => {
+    const app = createApp();
+    const cookie = await app.createAdmin();
+    const csv = [
+      'Name,Key,Tags,Notes,Ignored',
+      'first,fk-import-csv-key-0001,team-a|prod,"spare, for CI",x',
+      '"second ""quoted""",fk-import-csv-key-0002,,"two',
+      'lines",',
+    ].join('\r\n');
+
+    const result = await importFile(app, cookie, csv, 'format=csv');
+    assert.deepEqual(result.results.map(r => [r.line, r.status]), [[2, 'added'], [3, 'added']]);
+    assert.deepEqual(await storedKeys(app, cookie), [
+      { key: 'fk-import-csv-key-0001', label: 'first', tags: ['team-a', 'prod'], owner: null, notes: 'spare, for CI', provider: 'factory' },
+      { key: 'fk-import-csv-key-0002', label: 'second "quoted"', tags: [], owner: null, notes: 'two\r\nlines', provider: 'factory' },
+    ]);
+  });
+
+  it('reads a CSV without a header in IMPORT_CSV_COLUMNS order and joins extra columns into the notes', async () => {
+    const app = createApp();
+    const cookie = await app.createAdmin();
+    const csv = 'fk-import-csv-key-0003,label,ci,alice,first part,second part\n\nfk-import-csv-key-0004\n';
+
+    const result = await importFile(app, cookie, csv);
+    assert.deepEqual(result.results.map(r => [r.line, r.status]), [[1, 'added'], [3, 'added']]);
+    assert.deepEqual(await storedKeys(app, cookie), [
+      { key: 'fk-import-csv-key-0003', label: 'label', tags: ['ci'], owner: 'alice', notes: 'first part, second part', provider: 'factory' },
+      { key: 'fk-import-csv-key-0004', label: null, tags: [], owner: null, notes: null, provider: 'factory' },
+    ]);
+  });
+
+  it('reads .env files, taking the provider from the variable name', async () => {
+    const app = createApp();
+    const cookie = await app.createAdmin();
+    const env = [
+      '# Provider keys',
+      'export FACTORY_API_KEY="fk-import-env-key-0001"',
+      "OPENAI_API_KEY='sk-import-env-key-0002' # staging",
+      'DEEPSEEK_API_KEY=sk-import-env-key-0003 # not a DeepSeek key',
+      'DATABASE_URL=postgres://localhost/db',
+      '',
+      'not an assignment',
+    ].join('\n');
+
+    const result = await importFile(app, cookie, env, 'format=env');
+    assert.deepEqual(result.results.map(({ line, status, error }) => ({ line, status, error })), [
+      { line: 2, status: 'added', error: undefined },
+      { line: 3, status: 'added', error: undefined },
+      { line: 4, status: 'invalid_format', error: 'Key does not match the DeepSeek key format' },
+      { line: 7, status: 'invalid_format', error: 'Missing key' },
+    ]);
+    assert.deepEqual((await storedKeys(app, cookie)).map(({ key, provider }) => [key, provider]), [
+      ['fk-import-env-key-0001', 'factory'],
+      ['sk-import-env-key-0002', 'openai'],
+    ]);
+  });
+
+  it('detects JSON and .env files when no format is given', async () => {
+    const app = createApp();
+    const cookie = await app.createAdmin();
+
+    const json = await importFile(app, cookie, JSON.stringify(['fk-import-json-key-0001', { key: 'fk-import-json-key-0002', tags: ['a', 'b'] }]));
+    assert.equal(json.added, 2);
+    assert.equal((await importFile(app, cookie, 'FACTORY_API_KEY=fk-import-env-key-0004\n')).added, 1);
+    assert.deepEqual((await storedKeys(app, cookie)).map(({ key, tags }) => [key, tags]), [
+      ['fk-import-env-key-0004', []],
+      ['fk-import-json-key-0001', []],
+      ['fk-import-json-key-0002', ['a', 'b']],
+    ]);
+  });
+
+  it('reports repeats within the file, stored keys and bad metadata without storing those lines', async () => {
+    const { app, cookie } = await createAppWithKeys(['fk-import-stored-key-01']);
+    const csv = [
+      'key,provider,tags',
+      'fk-import-new-key-0001,,',
+      'fk-import-new-key-0001,,',
+      'fk-import-stored-key-01,,',
+      'fk-import-new-key-0002,nowhere,',
+      'sk-ant-import-key-0003,openai,',
+      'short,,',
+    ].join('\n');
+
+    const result = await importFile(app, cookie, csv);
+    assert.deepEqual(result.results.map(({ line, key, status, error }) => ({ line, key, status, error })), [
+      { line: 2, key: 'fk-i...0001', status: 'added', error: undefined },
+      { line: 3, key: 'fk-i...0001', status: 'duplicate', error: 'Same key as line 2' },
+      { line: 4, key: 'fk-i...y-01', status: 'duplicate', error: 'Key already exists (it may be in the trash)' },
+      { line: 5, key: 'fk-i...0002', status: 'invalid_format', error: result.results[3].error },
+      { line: 6, key: 'sk-a...0003', status: 'added', error: undefined },
+      { line: 7, key: 'shor...', status: 'invalid_format', error: 'Invalid key format' },
+    ]);
+    assert.match(result.results[3].error, /^provider must be one of/);
+    assert.deepEqual({ added: result.added, skipped: result.skipped }, { added: 2, skipped: 4 });
+    assert.equal((await storedKeys(app, cookie)).length, 3);
+  });
+
+  it('rejects unknown formats, empty files and JSON that is not an array', async () => {
+    const app = createApp();
+    const cookie = await app.createAdmin();
+    const cases: [string, string, RegExp][] = [
+      ['format=xml', 'fk-import-key-000001', /format must be one of/],
+      ['', '  \n', /empty/],
+      ['format=json', '{"key":"fk-import-key-000001"}', /must be an array/],
+      ['format=json', '[', /Invalid JSON/],
+      ['format=env', '# nothing but comments\nPATH=/usr/bin', /No keys found/],
+      ['dry_run=1&cursor=bogus', 'fk-import-key-000001', /Invalid cursor/],
+    ];
+
+    for (const [params, content, error] of cases) {
+      const response = await app.request(`/api/keys/import?${params}`, { cookie, body: content });
+      assert.equal(response.status, 400, params);
+      assert.match((await response.json() as { error: string }).error, error);
+    }
+  });
+
+  it('checks keys upstream in a dry run, one chunk per request, and stores nothing', async () => {
+    const app = createApp({ PROVIDER_BASE_URLS: upstream.providerBaseUrls, REFRESH_CHUNK_SIZE: '1' });
+    const cookie = await app.createAdmin();
+    upstream.routes.set(FACTORY_USAGE_PATH, [factoryUsage(100, 1000), { status: 403, body: { error: 'key revoked' } }, factoryUsage(200, 1000)]);
+    const file = ['fk-import-dry-key-0001', 'fk-import-dry-key-0001', 'fk-import-dry-key-0002', 'fk-import-dry-key-0003'].join('\n');
+
+    const statuses: string[][] = [];
+    let cursor: string | null = null;
+    do {
+      const result = await importFile(app, cookie, file, `dry_run=1${cursor ? `&cursor=${cursor}` : ''}`);
+      assert.equal(result.dryRun, true);
+      statuses.push(result.results.map(r => r.status));
+      cursor = result.next_cursor;
+    } while (cursor);
+
+    assert.deepEqual(statuses, [
+      ['added', 'duplicate', 'unchecked', 'unchecked'],
+      ['unchecked', 'duplicate', 'unauthorized', 'unchecked'],
+      ['unchecked', 'duplicate', 'unchecked', 'added'],
+    ]);
+    assert.equal(upstream.requests.length, 3);
+    assert.deepEqual(await storedKeys(app, cookie), []);
+  });
+});
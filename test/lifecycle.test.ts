@@ -0,0 +1,112 @@
+// lifecycle.test.ts - Keys moving between active, suspect, quarantined and archived in the scheduled run
+//
+//   npm test
+//
+// Time is mocked and the policy shortened to one failure, one hour of quarantine grace and one day
+// each for archiving and purging.
+
+import assert from 'node:assert/strict';
+import { afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+
+import { createAppWithKeys, FACTORY_USAGE_PATH, factoryUsage, silenceLogs, useMockUpstream, type TestApp } from './helpers.ts';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const upstream = useMockUpstream();
+
+before(silenceLogs);
+// Starts from the real time: SQLite sets created_at from its own clock
+beforeEach(() => mock.timers.enable({ apis: ['Date'], now: Date.now() }));
+afterEach(() => mock.timers.reset());
+
+/** An app with one Factory key on the shortened policy; returns the admin cookie and key ID too. */
+async function createLifecycleApp(): Promise<{ app: TestApp; cookie: string; id: string }> {
+  const { app, cookie, ids: [id] } = await createAppWithKeys(['fk-lifecycle-key-0001'], {
+    PROVIDER_BASE_URLS: upstream.providerBaseUrls,
+    LIFECYCLE_SUSPECT_FAILURES: '1',
+    LIFECYCLE_QUARANTINE_HOURS: '1',
+    LIFECYCLE_ARCHIVE_DAYS: '1',
+    LIFECYCLE_PURGE_DAYS: '1',
+  });
+  return { app, cookie, id };
+}
+
+const revoked = () => upstream.routes.set(FACTORY_USAGE_PATH, [{ status: 401, body: { error: 'invalid key' } }]);
+const usage = (used: number) => upstream.routes.set(FACTORY_USAGE_PATH, [factoryUsage(used, 1000)]);
+
+/** Advances the clock and runs the scheduled job. */
+async function runAfter(app: TestApp, ms: number): Promise<void> {
+  mock.timers.tick(ms);
+  await app.runScheduled();
+}
+
+/** The key's lifecycle state, or null once it has been purged. */
+async function lifecycleOf(app: TestApp, id: string): Promise<string | null> {
+  const [key] = await app.env.store.listKeys('all', [id]);
+  return key?.lifecycle ?? null;
+}
+
+describe('key lifecycle', () => {
+  it('quarantines, archives and finally purges a key the provider rejects', async () => {
+    const { app, id } = await createLifecycleApp();
+    revoked();
+
+    await runAfter(app, 10 * MINUTE);
+    assert.equal(await lifecycleOf(app, id), 'suspect');
+    await runAfter(app, 30 * MINUTE);
+    assert.equal(await lifecycleOf(app, id), 'suspect');
+    await runAfter(app, 40 * MINUTE);
+    assert.equal(await lifecycleOf(app, id), 'quarantined');
+    await runAfter(app, 25 * HOUR);
+    assert.equal(await lifecycleOf(app, id), 'archived');
+    await runAfter(app, 25 * HOUR);
+    assert.equal(await lifecycleOf(app, id), null);
+  });
+
+  it('keeps an exhausted key quarantined instead of archiving it, and reactivates it once it has balance', async () => {
+    const { app, id } = await createLifecycleApp();
+    usage(1000);
+
+    await runAfter(app, 10 * MINUTE);
+    assert.equal(await lifecycleOf(app, id), 'suspect');
+    await runAfter(app, 70 * MINUTE);
+    assert.equal(await lifecycleOf(app, id), 'quarantined');
+    for (let day = 0; day < 3; day++) await runAfter(app, 25 * HOUR);
+    assert.equal(await lifecycleOf(app, id), 'quarantined');
+
+    // Quarantined keys are still refreshed every few hours
+    usage(100);
+    await runAfter(app, 7 * HOUR);
+    assert.equal(await lifecycleOf(app, id), 'active');
+  });
+
+  it('returns a suspect key to active when a refresh succeeds', async () => {
+    const { app, id } = await createLifecycleApp();
+    revoked();
+    await runAfter(app, 10 * MINUTE);
+    assert.equal(await lifecycleOf(app, id), 'suspect');
+
+    usage(100);
+    await runAfter(app, 10 * MINUTE);
+    assert.equal(await lifecycleOf(app, id), 'active');
+  });
+
+  it('gives a restored key a full grace period again', async () => {
+    const { app, cookie, id } = await createLifecycleApp();
+    revoked();
+    await runAfter(app, 10 * MINUTE);
+    await runAfter(app, 70 * MINUTE);
+    assert.equal(await lifecycleOf(app, id), 'quarantined');
+
+    const response = await app.request(`/api/keys/${id}/restore`, { cookie, method: 'POST' });
+    assert.deepEqual(await response.json(), { success: true, lifecycle: 'active' });
+
+    await runAfter(app, 10 * MINUTE);
+    assert.equal(await lifecycleOf(app, id), 'suspect');
+    await runAfter(app, 40 * MINUTE);
+    assert.equal(await lifecycleOf(app, id), 'suspect');
+    await runAfter(app, 30 * MINUTE);
+    assert.equal(await lifecycleOf(app, id), 'quarantined');
+  });
+});
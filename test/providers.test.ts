@@ -0,0 +1,230 @@
+// providers.test.ts - Every usage provider against a local mock of its upstream API
+//
+//   npm test
+//
+// The shared mock upstream plays all providers; each test registers the responses it needs, and
+// the client is pointed at it through the baseUrls option.
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+
+import { detectProvider, PROVIDERS } from '../src/provider.ts';
+import type { ProviderId } from '../src/types.ts';
+import { fetchUsage, type UpstreamClientOptions, type UsageResult } from '../src/upstream-client.ts';
+import { createAppWithKeys, FACTORY_USAGE_PATH, factoryUsage, useMockUpstream } from './helpers.ts';
+
+const upstream = useMockUpstream();
+const { routes, requests } = upstream;
+
+// ==================== Fixtures ====================
+
+// Window of the month-to-date providers: the current UTC calendar month
+const today = new Date();
+const MONTH = {
+  start: Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1),
+  end: Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 1) - 1,
+};
+const WINDOW = { start: Date.UTC(2025, 2, 1), end: Date.UTC(2025, 3, 1) - 1 };
+
+/** Fetches through the real client with fast retries, every provider pointed at the mock. */
+function fetchFrom(provider: ProviderId, key: string, overrides: Partial<UpstreamClientOptions> = {}): Promise<UsageResult> {
+  const baseUrls = JSON.parse(upstream.providerBaseUrls) as Record<ProviderId, string>;
+  return fetchUsage(PROVIDERS[provider], key, undefined, { baseUrls, baseDelayMs: 1, maxDelayMs: 50, ...overrides });
+}
+
+// ==================== Detection ====================
+
+describe('detectProvider', () => {
+  it('recognizes each provider by key prefix', () => {
+    assert.equal(detectProvider('fk-abc123'), 'factory');
+    assert.equal(detectProvider('sk-ant-admin01-abc'), 'anthropic');
+    assert.equal(detectProvider('sk-or-v1-abc'), 'openrouter');
+    assert.equal(detectProvider(`sk-${'0123456789abcdef'.repeat(2)}`), 'deepseek');
+    assert.equal(detectProvider('sk-proj-abc'), 'openai');
+    assert.equal(detectProvider('sk-admin-abc'), 'openai');
+  });
+
+  it('falls back to Factory for unknown prefixes', () => {
+    assert.equal(detectProvider('something-else'), 'factory');
+  });
+});
+
+// ==================== Providers ====================
+
+describe('providers', () => {
+  it('maps Factory chat usage in tokens', async () => {
+    routes.set(FACTORY_USAGE_PATH, [{
+      body: { usage: { startDate: WINDOW.start, endDate: WINDOW.end, standard: { orgTotalTokensUsed: 250, totalAllowance: 1000, usedRatio: 0.25 } } },
+    }]);
+
+    const result = await fetchFrom('factory', 'fk-test');
+    assert.deepEqual(result, {
+      usage: {
+        unit: 'tokens', startDate: WINDOW.start, endDate: WINDOW.end, orgTotalTokensUsed: 250, totalAllowance: 1000, usedRatio: 0.25,
+        tiers: { standard: { orgTotalTokensUsed: 250, totalAllowance: 1000, usedRatio: 0.25 } },
+      },
+    });
+    assert.equal(requests[0].headers.authorization, 'Bearer fk-test');
+  });
+
+  it('keeps every Factory tier, with standard as the primary one', async () => {
+    routes.set(FACTORY_USAGE_PATH, [{
+      body: {
+        usage: {
+          startDate: WINDOW.start,
+          endDate: WINDOW.end,
+          premium: { orgTotalTokensUsed: 90, totalAllowance: 100, usedRatio: 0.9 },
+          standard: { orgTotalTokensUsed: 250, totalAllowance: 1000, usedRatio: 0.25 },
+          experimental: { orgTotalTokensUsed: 10, totalAllowance: 50 },
+        },
+      },
+    }]);
+
+    const result = await fetchFrom('factory', 'fk-test');
+    assert.ok('usage' in result);
+    assert.equal(result.usage.orgTotalTokensUsed, 250);
+    assert.deepEqual(result.usage.tiers, {
+      premium: { orgTotalTokensUsed: 90, totalAllowance: 100, usedRatio: 0.9 },
+      standard: { orgTotalTokensUsed: 250, totalAllowance: 1000, usedRatio: 0.25 },
+      experimental: { orgTotalTokensUsed: 10, totalAllowance: 50, usedRatio: 0.2 },
+    });
+  });
+
+  it('falls back to the first Factory tier when standard is missing', async () => {
+    routes.set(FACTORY_USAGE_PATH, [{
+      body: { usage: { startDate: WINDOW.start, endDate: WINDOW.end, premium: { orgTotalTokensUsed: 90, totalAllowance: 100, usedRatio: 0.9 } } },
+    }]);
+
+    const result = await fetchFrom('factory', 'fk-test');
+    assert.ok('usage' in result);
+    assert.equal(result.usage.totalAllowance, 100);
+    assert.deepEqual(Object.keys(result.usage.tiers), ['premium']);
+  });
+
+  it('maps OpenRouter credits in USD without a window', async () => {
+    routes.set('/api/v1/credits', [{ body: { data: { total_credits: 20, total_usage: 5 } } }]);
+
+    const result = await fetchFrom('openrouter', 'sk-or-v1-test');
+    assert.deepEqual(result, {
+      usage: { unit: 'USD', startDate: null, endDate: null, orgTotalTokensUsed: 5, totalAllowance: 20, usedRatio: 0.25 },
+    });
+    assert.equal(requests[0].headers.authorization, 'Bearer sk-or-v1-test');
+  });
+
+  it('maps the DeepSeek balance in its currency', async () => {
+    routes.set('/user/balance', [{
+      body: { is_available: true, balance_infos: [{ currency: 'CNY', total_balance: '110.50', granted_balance: '10.00', topped_up_balance: '100.50' }] },
+    }]);
+
+    const result = await fetchFrom('deepseek', 'sk-test');
+    assert.deepEqual(result, {
+      usage: { unit: 'CNY', startDate: null, endDate: null, orgTotalTokensUsed: 0, totalAllowance: 110.5, usedRatio: 0 },
+    });
+  });
+
+  it('sums OpenAI month-to-date costs without a limit', async () => {
+    routes.set('/v1/organization/costs', [{
+      body: {
+        object: 'page',
+        data: [
+          { object: 'bucket', results: [{ amount: { value: 1.25, currency: 'usd' } }, { amount: { value: 0.5, currency: 'usd' } }] },
+          { object: 'bucket', results: [] },
+          { object: 'bucket', results: [{ amount: { value: 2, currency: 'usd' } }] },
+        ],
+        has_more: false,
+      },
+    }]);
+
+    const result = await fetchFrom('openai', 'sk-admin-test');
+    assert.deepEqual(result, {
+      usage: { unit: 'USD', startDate: MONTH.start, endDate: MONTH.end, orgTotalTokensUsed: 3.75, totalAllowance: null, usedRatio: null },
+    });
+    assert.equal(requests[0].query.get('start_time'), String(MONTH.start / 1000));
+    assert.equal(requests[0].headers.authorization, 'Bearer sk-admin-test');
+  });
+
+  it('converts the Anthropic cost report from cents', async () => {
+    routes.set('/v1/organizations/cost_report', [{
+      body: { data: [{ results: [{ currency: 'USD', amount: '123.45' }] }, { results: [{ currency: 'USD', amount: '76.55' }] }], has_more: false },
+    }]);
+
+    const result = await fetchFrom('anthropic', 'sk-ant-admin01-test');
+    assert.deepEqual(result, {
+      usage: { unit: 'USD', startDate: MONTH.start, endDate: MONTH.end, orgTotalTokensUsed: 2, totalAllowance: null, usedRatio: null },
+    });
+    assert.equal(requests[0].query.get('starting_at'), new Date(MONTH.start).toISOString());
+    assert.equal(requests[0].headers['x-api-key'], 'sk-ant-admin01-test');
+    assert.equal(requests[0].headers['anthropic-version'], '2023-06-01');
+  });
+});
+
+// ==================== Client ====================
+
+describe('upstream client', () => {
+  it('reports a body of the wrong shape as invalid_response', async () => {
+    routes.set('/api/v1/credits', [{ body: { data: { total_credits: 'lots' } } }]);
+    assert.deepEqual(await fetchFrom('openrouter', 'sk-or-v1-test'), { code: 'invalid_response', message: 'Invalid API response' });
+
+    routes.set(FACTORY_USAGE_PATH, [{ body: { usage: { startDate: WINDOW.start, endDate: WINDOW.end } } }]);
+    assert.deepEqual(await fetchFrom('factory', 'fk-test'), { code: 'invalid_response', message: 'Invalid API response' });
+  });
+
+  it('does not retry a 403', async () => {
+    routes.set('/v1/organization/costs', [{ status: 403, body: { error: { message: 'admin key required' } } }]);
+
+    assert.deepEqual(await fetchFrom('openai', 'sk-proj-test'), { code: 'forbidden', status: 403, message: 'HTTP 403' });
+    assert.equal(requests.length, 1);
+  });
+
+  it('retries a 429 after Retry-After and then succeeds', async () => {
+    routes.set('/user/balance', [
+      { status: 429, headers: { 'Retry-After': '0' } },
+      { body: { is_available: true, balance_infos: [{ currency: 'USD', total_balance: '3.00' }] } },
+    ]);
+
+    const result = await fetchFrom('deepseek', 'sk-test');
+    assert.equal(requests.length, 2);
+    assert.ok('usage' in result);
+    assert.equal(result.usage.unit, 'USD');
+    assert.equal(result.usage.totalAllowance, 3);
+  });
+
+  it('gives up on 5xx after maxRetries', async () => {
+    routes.set(FACTORY_USAGE_PATH, [{ status: 503 }]);
+
+    assert.deepEqual(await fetchFrom('factory', 'fk-test', { maxRetries: 1 }), { code: 'upstream_error', status: 503, message: 'HTTP 503' });
+    assert.equal(requests.length, 2);
+  });
+});
+
+describe('keys without a limit', () => {
+  afterEach(() => mock.timers.reset());
+
+  it('have no used ratio and stay out of the totals and forecasts', async () => {
+    mock.timers.enable({ apis: ['Date'], now: Date.UTC(2025, 5, 10) });
+    const openaiCosts = (value: number) => ({ body: { data: [{ results: [{ amount: { value, currency: 'usd' } }] }], has_more: false } });
+    const { app, cookie } = await createAppWithKeys(['fk-limited-key-000001', 'sk-admin-unlimited-key-01'], { PROVIDER_BASE_URLS: upstream.providerBaseUrls });
+
+    // Two refreshes 40 minutes apart, both keys spending, so the limited key gets a forecast
+    routes.set(FACTORY_USAGE_PATH, [factoryUsage(100, 1000)]);
+    routes.set('/v1/organization/costs', [openaiCosts(1)]);
+    await app.runScheduled();
+    mock.timers.tick(40 * 60 * 1000);
+    routes.set(FACTORY_USAGE_PATH, [factoryUsage(200, 1000)]);
+    routes.set('/v1/organization/costs', [openaiCosts(3)]);
+    await app.runScheduled();
+
+    const data = await (await app.request('/api/data', { cookie })).json() as {
+      data: { provider: string; usedRatio: number | null; forecast?: unknown }[];
+      totals: { total_orgTotalTokensUsed: number };
+      totals_by_unit: Record<string, unknown>;
+    };
+    const byProvider = Object.fromEntries(data.data.map(item => [item.provider, item]));
+    assert.equal(byProvider.factory.usedRatio, 0.2);
+    assert.ok(byProvider.factory.forecast);
+    assert.equal(byProvider.openai.usedRatio, null);
+    assert.equal(byProvider.openai.forecast, undefined);
+    assert.equal(data.totals.total_orgTotalTokensUsed, 200);
+    assert.deepEqual(Object.keys(data.totals_by_unit), ['tokens']);
+  });
+});
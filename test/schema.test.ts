@@ -0,0 +1,61 @@
+// schema.test.ts - Requests and the scheduled run refused while migrations are pending
+//
+//   npm test
+//
+// The core remembers a passed check for the life of the process, so the tests here run in order
+// and only the last one brings the schema up to date.
+
+import assert from 'node:assert/strict';
+import { before, describe, it, mock } from 'node:test';
+
+import { migrateSqlite } from '../src/stores/sqlite.ts';
+import { BOOTSTRAP_PASSWORD, createApp, MIGRATIONS, silenceLogs } from './helpers.ts';
+
+before(silenceLogs);
+
+const LATEST = parseInt(MIGRATIONS[MIGRATIONS.length - 1].name, 10);
+
+describe('schema version check', () => {
+  it('answers 503 with the required and found versions while a migration is pending', async () => {
+    const app = createApp({}, MIGRATIONS.slice(0, -1));
+
+    for (const [path, body] of [['/api/login', { username: BOOTSTRAP_PASSWORD, password: BOOTSTRAP_PASSWORD }], ['/api/data', undefined], ['/', undefined]] as const) {
+      const response = await app.request(path, { body });
+      assert.equal(response.status, 503, path);
+      assert.deepEqual(await response.json(), { error: `schema version ${LATEST} required, found ${LATEST - 1}` });
+    }
+  });
+
+  it('treats a database without a migrations table as version 0', async () => {
+    const app = createApp({}, []);
+    const response = await app.request('/api/me');
+    assert.equal(response.status, 503);
+    assert.deepEqual(await response.json(), { error: `schema version ${LATEST} required, found 0` });
+  });
+
+  it('keeps serving the public query page, which does not use the store', async () => {
+    const app = createApp({}, []);
+    assert.equal((await app.request('/public')).status, 200);
+    assert.equal((await app.request('/api/public/usage', { body: {} })).status, 400);
+  });
+
+  it('skips the scheduled run', async () => {
+    const app = createApp({}, MIGRATIONS.slice(0, -1));
+    const error = mock.method(console, 'error', () => {});
+
+    await app.runScheduled();
+    assert.deepEqual(error.mock.calls.map(call => call.arguments[0]), [
+      `Skipping scheduled run: schema version ${LATEST} required, found ${LATEST - 1}`,
+    ]);
+    error.mock.restore();
+  });
+
+  it('serves requests once the pending migrations are applied', async () => {
+    const app = createApp({}, MIGRATIONS.slice(0, -1));
+    assert.equal((await app.request('/api/me')).status, 503);
+
+    migrateSqlite(app.db, MIGRATIONS);
+    assert.equal((await app.request('/api/me')).status, 401);
+    await app.login(BOOTSTRAP_PASSWORD, BOOTSTRAP_PASSWORD);
+  });
+});
@@ -0,0 +1,112 @@
+// session.test.ts - Signed session cookies and the routes that require them
+//
+//   npm test
+
+import assert from 'node:assert/strict';
+import { afterEach, before, describe, it, mock } from 'node:test';
+
+import { createApp, createAppWithKeys, silenceLogs } from './helpers.ts';
+
+before(silenceLogs);
+afterEach(() => mock.timers.reset());
+
+/** Rewrites the payload of a session cookie while keeping its signature. */
+function withPayload(cookie: string, change: (payload: Record<string, unknown>) => void): string {
+  const [body, signature] = cookie.slice('session_token='.length).split('.');
+  const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+  change(payload);
+  return `session_token=${Buffer.from(JSON.stringify(payload)).toString('base64url')}.${signature}`;
+}
+
+describe('sessions', () => {
+  it('rejects private routes without a session', async () => {
+    const app = createApp();
+    for (const path of ['/api/me', '/api/data', '/api/keys', '/api/refresh/runs']) {
+      assert.equal((await app.request(path)).status, 401, path);
+    }
+    assert.equal((await app.request('/api/refresh', { method: 'POST' })).status, 401);
+  });
+
+  it('keeps reading, deleting and batch-deleting keys from anonymous callers and viewers', async () => {
+    const { app, cookie: admin, ids: [id] } = await createAppWithKeys(['fk-session-key-000001']);
+    const viewer = (await app.createUser(admin, 'viewer', 'viewer')).cookie;
+
+    const routes: [string, { method?: string; body?: unknown }][] = [
+      [`/api/keys/${id}/full`, {}],
+      ['/api/keys/batch-delete', { body: { ids: [id] } }],
+      [`/api/keys/${id}`, { method: 'DELETE' }],
+    ];
+    for (const [path, options] of routes) {
+      assert.equal((await app.request(path, options)).status, 401, path);
+      assert.equal((await app.request(path, { ...options, cookie: viewer })).status, 403, path);
+    }
+
+    const full = await app.request(`/api/keys/${id}/full`, { cookie: admin });
+    assert.equal((await full.json() as { key: string }).key, 'fk-session-key-000001');
+  });
+
+  it('answers unexpected errors without internal details', async () => {
+    const app = createApp();
+    const cookie = await app.createAdmin();
+    app.db.close();
+
+    const response = await app.request('/api/me', { cookie });
+    assert.equal(response.status, 500);
+    assert.deepEqual(await response.json(), { error: 'Internal Server Error' });
+  });
+
+  it('issues an HttpOnly cookie that identifies the user', async () => {
+    const app = createApp();
+    await app.createAdmin();
+
+    const response = await app.request('/api/login', { body: { username: 'root', password: 'root-password' } });
+    assert.match(response.headers.get('Set-Cookie'), /^session_token=[\w-]+\.[\w-]+; Path=\/; HttpOnly; SameSite=Strict; Max-Age=2592000$/);
+
+    const cookie = response.headers.get('Set-Cookie').split(';')[0];
+    const me = await app.request('/api/me', { cookie });
+    assert.equal(me.status, 200);
+    assert.deepEqual((await me.json() as { user: unknown }).user, { id: (await app.env.store.getUserByUsername('root')).id, username: 'root', role: 'admin' });
+  });
+
+  it('rejects a cookie whose payload was changed', async () => {
+    const app = createApp();
+    const admin = await app.createAdmin();
+    const { cookie } = await app.createUser(admin, 'viewer', 'viewer');
+
+    assert.equal((await app.request('/api/users', { cookie })).status, 403);
+    assert.equal((await app.request('/api/users', { cookie: withPayload(cookie, payload => { payload.role = 'admin'; }) })).status, 401);
+  });
+
+  it('rejects a cookie signed with another secret, or not signed at all', async () => {
+    const app = createApp();
+    const cookie = await app.createAdmin();
+
+    app.env.SESSION_SECRET = 'another-secret';
+    assert.equal((await app.request('/api/me', { cookie })).status, 401);
+
+    app.env.SESSION_SECRET = 'test-session-secret';
+    assert.equal((await app.request('/api/me', { cookie })).status, 200);
+    assert.equal((await app.request('/api/me', { cookie: cookie.split('.')[0] })).status, 401);
+    assert.equal((await app.request('/api/me', { cookie: 'session_token=not-a-token' })).status, 401);
+  });
+
+  it('expires sessions after 30 days', async () => {
+    mock.timers.enable({ apis: ['Date'], now: Date.UTC(2025, 5, 1) });
+    const app = createApp();
+    const cookie = await app.createAdmin();
+
+    mock.timers.tick(29 * 24 * 60 * 60 * 1000);
+    assert.equal((await app.request('/api/me', { cookie })).status, 200);
+    mock.timers.tick(2 * 24 * 60 * 60 * 1000);
+    assert.equal((await app.request('/api/me', { cookie })).status, 401);
+  });
+
+  it('clears the cookie on logout', async () => {
+    const app = createApp();
+    const cookie = await app.createAdmin();
+
+    const response = await app.request('/api/logout', { method: 'POST', cookie });
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('Set-Cookie'), 'session_token=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0');
+  });
+});
@@ -0,0 +1,538 @@
+// stores.test.ts - Conformance suite: every KeyStore implementation runs the same scenarios
+//
+//   npm test
+//
+// D1 and Workers KV run in Miniflare, SQLite on a temporary file, Postgres in PGlite and
+// Deno KV through @deno/kv, so no external services are needed.
+
+import assert from 'node:assert/strict';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+
+import { openKv } from '@deno/kv';
+import { PGlite } from '@electric-sql/pglite';
+import Database from 'better-sqlite3';
+import { Miniflare } from 'miniflare';
+
+import type { KeyResultRecord, KeyStore, NewStoredKey } from '../src/store.ts';
+import { D1KeyStore } from '../src/stores/d1.ts';
+import { DenoKvBackend } from '../src/stores/deno-kv.ts';
+import { KvKeyStore } from '../src/stores/kv.ts';
+import { migratePostgres, PostgresKeyStore, type PgClient } from '../src/stores/postgres.ts';
+import { migrateSqlite, SqliteD1Database } from '../src/stores/sqlite.ts';
+import { WorkersKvBackend, type KvNamespaceLike } from '../src/stores/workers-kv.ts';
+import type { AggregatedResponse, ApiUsageData, AuditEntry } from '../src/types.ts';
+
+// ==================== Adapters ====================
+
+interface Adapter {
+  name: string;
+  /** SQL stores report the newest migration; key-value stores have none. */
+  schemaVersion: number | null;
+  /** Opens an empty store; the returned function releases it. */
+  open(): Promise<{ store: KeyStore; close(): Promise<void> }>;
+}
+
+const readMigrations = (dir: string) => readdirSync(dir)
+  .filter(name => name.endsWith('.sql'))
+  .map(name => ({ name, sql: readFileSync(join(dir, name), 'utf8') }));
+
+const D1_MIGRATIONS = readMigrations(new URL('../migrations', import.meta.url).pathname);
+const PG_MIGRATIONS = readMigrations(new URL('../migrations/postgres', import.meta.url).pathname);
+const SCHEMA_VERSION = Math.max(...D1_MIGRATIONS.map(m => parseInt(m.name, 10)));
+
+const SQL_TABLES = [
+  'api_keys', 'usage_snapshots', 'alert_rules', 'alert_webhooks', 'alert_state', 'users', 'api_tokens',
+  'audit_log', 'data_cache', 'locks', 'key_results', 'refresh_state', 'refresh_runs',
+];
+
+/** Splits a migration file into statements for D1 prepare(), keeping trigger bodies whole. */
+function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  for (const line of sql.split('\n').map(l => l.replace(/--.*$/, '').trimEnd())) {
+    if (!line.trim()) continue;
+    current += `${line}\n`;
+    const inTrigger = /^\s*CREATE TRIGGER/i.test(current) && !/^\s*END;$/im.test(line);
+    if (line.endsWith(';') && !inTrigger) {
+      statements.push(current.trim());
+      current = '';
+    }
+  }
+  if (current.trim()) statements.push(current.trim());
+  return statements;
+}
+
+// One Miniflare instance serves D1 and Workers KV; both are emptied between scenarios
+let miniflare: Miniflare | undefined;
+function getMiniflare(): Miniflare {
+  miniflare ??= new Miniflare({
+    modules: true,
+    script: 'export default { fetch: () => new Response(null, { status: 404 }) }',
+    d1Databases: ['DB'],
+    kvNamespaces: ['KV'],
+  });
+  return miniflare;
+}
+
+let d1Migrated = false;
+
+let pglite: PGlite | undefined;
+
+/** node-postgres semantics over PGlite: queries without parameters may hold several statements. */
+function pgliteClient(db: PGlite): PgClient {
+  return {
+    async query<T>(text: string, params: unknown[] = []) {
+      if (params.length === 0) {
+        const results = await db.exec(text);
+        const last = results[results.length - 1];
+        return { rows: (last?.rows ?? []) as T[], rowCount: last?.affectedRows ?? 0 };
+      }
+      const result = await db.query<T>(text, params);
+      return { rows: result.rows, rowCount: result.affectedRows ?? 0 };
+    },
+  };
+}
+
+const ADAPTERS: Adapter[] = [
+  {
+    name: 'D1 (Miniflare)',
+    schemaVersion: SCHEMA_VERSION,
+    async open() {
+      const db = await getMiniflare().getD1Database('DB');
+      if (!d1Migrated) {
+        await db.prepare('CREATE TABLE d1_migrations (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT UNIQUE)').run();
+        for (const migration of D1_MIGRATIONS.sort((a, b) => a.name.localeCompare(b.name))) {
+          await db.batch([
+            ...splitStatements(migration.sql).map(sql => db.prepare(sql)),
+            db.prepare('INSERT INTO d1_migrations (name) VALUES (?)').bind(migration.name),
+          ]);
+        }
+        d1Migrated = true;
+      }
+      return {
+        store: new D1KeyStore(db),
+        close: async () => { await db.batch(SQL_TABLES.map(table => db.prepare(`DELETE FROM ${table}`))); },
+      };
+    },
+  },
+  {
+    name: 'Workers KV (Miniflare)',
+    schemaVersion: null,
+    async open() {
+      const kv = await getMiniflare().getKVNamespace('KV');
+      return {
+        store: new KvKeyStore(new WorkersKvBackend(kv)),
+        close: async () => {
+          for (const { name } of (await kv.list()).keys) await kv.delete(name);
+        },
+      };
+    },
+  },
+  {
+    name: 'SQLite file (better-sqlite3)',
+    schemaVersion: SCHEMA_VERSION,
+    async open() {
+      const dir = mkdtempSync(join(tmpdir(), 'droid-apikey-'));
+      const driver = new Database(join(dir, 'key.db'));
+      migrateSqlite(driver, D1_MIGRATIONS);
+      return {
+        store: new D1KeyStore(new SqliteD1Database(driver)),
+        close: async () => {
+          driver.close();
+          rmSync(dir, { recursive: true, force: true });
+        },
+      };
+    },
+  },
+  {
+    name: 'Postgres (PGlite)',
+    schemaVersion: SCHEMA_VERSION,
+    async open() {
+      if (!pglite) {
+        pglite = new PGlite();
+        await migratePostgres(pgliteClient(pglite), PG_MIGRATIONS);
+      }
+      const db = pglite;
+      return {
+        store: new PostgresKeyStore(pgliteClient(db)),
+        close: async () => { await db.exec(`TRUNCATE ${SQL_TABLES.join(', ')} RESTART IDENTITY`); },
+      };
+    },
+  },
+  {
+    name: 'Deno KV (@deno/kv)',
+    schemaVersion: null,
+    async open() {
+      const kv = await openKv('');
+      return {
+        store: new KvKeyStore(new DenoKvBackend(kv)),
+        close: async () => kv.close(),
+      };
+    },
+  },
+];
+
+after(async () => {
+  await miniflare?.dispose();
+  await pglite?.close();
+});
+
+// ==================== Fixtures ====================
+
+const newKey = (id: string, extra: Partial<NewStoredKey> = {}): NewStoredKey => ({
+  id, key: `enc:v1:${id}`, keyHash: `hash-${id}`, label: null, owner: null, notes: null, tags: [], provider: 'factory', ...extra,
+});
+
+const usageData = (id: string, extra: Partial<ApiUsageData> = {}): ApiUsageData => ({
+  id, key: 'fk-****abcd', startDate: '2025-01-01', endDate: '2025-12-31', orgTotalTokensUsed: 40, totalAllowance: 100, usedRatio: 0.4, ...extra,
+});
+
+const keyResult = (id: string, refreshedAt: number, extra: Partial<KeyResultRecord> = {}): KeyResultRecord => ({
+  keyId: id,
+  result: usageData(id),
+  refreshedAt, lastSuccessAt: refreshedAt, consecutiveFailures: 0, errorClass: null, errorSince: null, exhaustedSince: null,
+  ...extra,
+});
+
+const auditEntry = (createdAt: number, action: string, actorName: string): Omit<AuditEntry, 'id'> => ({
+  createdAt, actorId: `u-${actorName}`, actorName, tokenId: null, action: action as AuditEntry['action'],
+  targets: [{ id: 'k1', key: 'fk-****abcd' }], details: { count: 1 }, ip: '127.0.0.1', userAgent: 'test',
+});
+
+const ids = (items: { id: string }[]) => items.map(item => item.id).sort();
+
+// ==================== Conformance Scenarios ====================
+
+for (const adapter of ADAPTERS) {
+  describe(adapter.name, () => {
+    /** Runs a scenario against a fresh store. */
+    const scenario = (name: string, fn: (store: KeyStore) => Promise<void>) => it(name, async () => {
+      const { store, close } = await adapter.open();
+      try {
+        await fn(store);
+      } finally {
+        await close();
+      }
+    });
+
+    scenario('reports its schema version', async store => {
+      assert.equal(await store.getSchemaVersion(), adapter.schemaVersion);
+    });
+
+    scenario('adds, lists and finds keys', async store => {
+      await store.addKeys([newKey('k1', { label: 'Prod', tags: ['team-a', 'ci'] }), newKey('k2', { provider: 'openrouter' }), newKey('k3')]);
+
+      const keys = await store.listKeys();
+      assert.deepEqual(ids(keys), ['k1', 'k2', 'k3']);
+      const k1 = keys.find(k => k.id === 'k1');
+      assert.equal(k1.key, 'enc:v1:k1');
+      assert.equal(k1.keyHash, 'hash-k1');
+      assert.equal(k1.label, 'Prod');
+      assert.deepEqual(k1.tags, ['team-a', 'ci']);
+      assert.equal(k1.provider, 'factory');
+      assert.equal(keys.find(k => k.id === 'k2').provider, 'openrouter');
+      assert.equal(k1.lifecycle, 'active');
+      assert.equal(k1.lifecycleChangedAt, null);
+      assert.equal(k1.deletedAt, null);
+      assert.equal(typeof k1.createdAt, 'number');
+
+      assert.deepEqual(ids(await store.listKeys('active', ['k2', 'missing'])), ['k2']);
+      assert.deepEqual(await store.listKeys('active', []), []);
+
+      const found = await store.findKeys(['hash-k1'], ['enc:v1:k3']);
+      assert.deepEqual(found.map(f => f.keyHash).sort(), ['hash-k1', 'hash-k3']);
+      assert.deepEqual(await store.findKeys([], []), []);
+    });
+
+    scenario('lists the newest key first', async store => {
+      await store.addKeys([newKey('old')]);
+      await new Promise(resolve => setTimeout(resolve, 1100)); // D1 stores created_at in whole seconds
+      await store.addKeys([newKey('new')]);
+      assert.deepEqual((await store.listKeys()).map(k => k.id), ['new', 'old']);
+    });
+
+    scenario('updates metadata, secrets and lifecycle', async store => {
+      await store.addKeys([newKey('k1'), newKey('k2')]);
+
+      assert.equal(await store.updateKeyMetadata('k1', { owner: 'alice', tags: ['x'], provider: 'deepseek' }), true);
+      assert.equal(await store.updateKeyMetadata('k1', {}), true);
+      assert.equal(await store.updateKeyMetadata('missing', { owner: 'bob' }), false);
+      assert.equal(await store.updateKeyMetadata('missing', {}), false);
+
+      await store.updateKeySecrets([{ id: 'k2', key: 'enc:v1:rotated', keyHash: 'hash-rotated' }]);
+      await store.setKeyLifecycle([{ id: 'k1', to: 'quarantined' }], 1_700_000_000_000);
+
+      const [k1, k2] = (await store.listKeys('active', ['k1', 'k2'])).sort((a, b) => a.id.localeCompare(b.id));
+      assert.equal(k1.owner, 'alice');
+      assert.deepEqual(k1.tags, ['x']);
+      assert.equal(k1.provider, 'deepseek');
+      assert.equal(k1.label, null);
+      assert.equal(k1.lifecycle, 'quarantined');
+      assert.equal(k1.lifecycleChangedAt, 1_700_000_000_000);
+      assert.equal(k2.key, 'enc:v1:rotated');
+      assert.equal(k2.keyHash, 'hash-rotated');
+    });
+
+    scenario('moves keys to the trash, restores and purges them', async store => {
+      await store.addKeys([newKey('k1'), newKey('k2')]);
+      await store.saveKeyResults([keyResult('k1', 1000)]);
+      await store.saveUsageSnapshots([{
+        keyId: 'k1', capturedAt: 1000, startDate: '2025-01-01', endDate: '2025-02-01',
+        orgTotalTokensUsed: 1, totalAllowance: 10, usedRatio: 0.1,
+      }]);
+
+      assert.equal(await store.deleteKey('k1', 5000), true);
+      assert.equal(await store.deleteKey('k1', 6000), false);
+      assert.deepEqual(ids(await store.listKeys()), ['k2']);
+      assert.deepEqual(ids(await store.listKeys('all')), ['k1', 'k2']);
+      const [trashed] = await store.listKeys('trash');
+      assert.equal(trashed.id, 'k1');
+      assert.equal(trashed.deletedAt, 5000);
+      assert.equal(await store.updateKeyMetadata('k1', { owner: 'x' }), false);
+      assert.equal((await store.findKeys(['hash-k1'], [])).length, 1);
+
+      assert.equal(await store.restoreDeletedKey('k1'), true);
+      assert.equal(await store.restoreDeletedKey('k1'), false);
+      assert.deepEqual(ids(await store.listKeys()), ['k1', 'k2']);
+
+      await store.purgeKey('k1');
+      assert.deepEqual(ids(await store.listKeys('all')), ['k2']);
+      assert.deepEqual(await store.getKeyResults(['k1']), []);
+      assert.deepEqual(await store.getUsageHistory('k1', 0, Number.MAX_SAFE_INTEGER), []);
+    });
+
+    scenario('saves and replaces key results', async store => {
+      await store.addKeys([newKey('k1'), newKey('k2')]);
+      await store.saveKeyResults([keyResult('k1', 1000), keyResult('k2', 1000)]);
+      await store.saveKeyResults([keyResult('k1', 2000, {
+        lastSuccessAt: 1000, consecutiveFailures: 2, errorClass: 'timeout', errorSince: 1500, exhaustedSince: null,
+      })]);
+
+      assert.equal((await store.getKeyResults()).length, 2);
+      assert.deepEqual(await store.getKeyResults([]), []);
+      const [k1] = await store.getKeyResults(['k1']);
+      assert.deepEqual(k1, keyResult('k1', 2000, {
+        lastSuccessAt: 1000, consecutiveFailures: 2, errorClass: 'timeout', errorSince: 1500, exhaustedSince: null,
+      }));
+    });
+
+    scenario('caches aggregated data and the refresh cursor', async store => {
+      assert.equal(await store.getDataCache('data'), null);
+      assert.equal(await store.getRefreshCursor('refresh'), null);
+
+      // Larger than one Deno KV value, so the KV store splits it
+      const data: AggregatedResponse = {
+        update_time: '2025-01-01 08:00:00',
+        total_count: 500,
+        totals: { total_orgTotalTokensUsed: 20000, total_totalAllowance: 50000, totalRemaining: 30000 },
+        data: Array.from({ length: 500 }, (_, i) => usageData(`key-${i}`, { notes: 'x'.repeat(100) })),
+      };
+      await store.saveDataCache('data', data, 1000);
+      await store.saveDataCache('data', data, 2000);
+      assert.deepEqual(await store.getDataCache('data'), { data, refreshedAt: 2000 });
+      assert.equal(await store.getDataCache('other'), null);
+
+      await store.saveRefreshCursor('refresh', 'k1');
+      await store.saveRefreshCursor('refresh', 'k2');
+      assert.equal(await store.getRefreshCursor('refresh'), 'k2');
+    });
+
+    scenario('records and prunes refresh runs', async store => {
+      for (const startedAt of [1000, 2000, 3000]) {
+        await store.addRefreshRun({
+          source: 'scheduled', startedAt, durationMs: 10, keysProcessed: 5, errors: 1, pending: 0, error: null,
+        });
+      }
+
+      const runs = await store.getRefreshRuns(2);
+      assert.deepEqual(runs.map(r => r.startedAt), [3000, 2000]);
+      assert.equal(typeof runs[0].id, 'number');
+      assert.deepEqual({ ...runs[0], id: undefined }, {
+        id: undefined, source: 'scheduled', startedAt: 3000, durationMs: 10, keysProcessed: 5, errors: 1, pending: 0, error: null,
+      });
+
+      await store.pruneRefreshRuns(2500);
+      assert.deepEqual((await store.getRefreshRuns(10)).map(r => r.startedAt), [3000]);
+    });
+
+    scenario('hands a lock to one holder until it is released or expires', async store => {
+      assert.equal(await store.isLockHeld('refresh'), false);
+      assert.equal(await store.acquireLock('refresh', 'a', 60_000), true);
+      assert.equal(await store.acquireLock('refresh', 'b', 60_000), false);
+      assert.equal(await store.isLockHeld('refresh'), true);
+
+      await store.releaseLock('refresh', 'b');
+      assert.equal(await store.isLockHeld('refresh'), true);
+      await store.releaseLock('refresh', 'a');
+      assert.equal(await store.isLockHeld('refresh'), false);
+
+      assert.equal(await store.acquireLock('refresh', 'a', -1), true);
+      assert.equal(await store.isLockHeld('refresh'), false);
+      assert.equal(await store.acquireLock('refresh', 'b', 60_000), true);
+    });
+
+    scenario('stores usage snapshots by key and window', async store => {
+      await store.addKeys([newKey('k1'), newKey('k2'), newKey('k3', { provider: 'openai' })]);
+      const snapshot = (keyId: string, capturedAt: number, startDate: string, used: number) => ({
+        keyId, capturedAt, startDate, endDate: '2025-12-31', orgTotalTokensUsed: used, totalAllowance: 1000, usedRatio: used / 1000,
+      });
+      await store.saveUsageSnapshots([
+        snapshot('k1', 1000, '2025-01-01', 10),
+        snapshot('k1', 2000, '2025-01-01', 20),
+        snapshot('k1', 3000, '2025-02-01', 5),
+        snapshot('k2', 2500, '2025-01-01', 7),
+        // Spend without a limit, in dollars
+        { keyId: 'k3', capturedAt: 2500, startDate: '', endDate: '', orgTotalTokensUsed: 12.5, totalAllowance: null, usedRatio: null },
+      ]);
+      assert.deepEqual(await store.getUsageHistory('k3', 0, 10_000), [
+        { capturedAt: 2500, startDate: '', endDate: '', orgTotalTokensUsed: 12.5, totalAllowance: null, usedRatio: null },
+      ]);
+
+      assert.deepEqual(await store.getUsageHistory('k1', 1000, 2000), [
+        { capturedAt: 1000, startDate: '2025-01-01', endDate: '2025-12-31', orgTotalTokensUsed: 10, totalAllowance: 1000, usedRatio: 0.01 },
+        { capturedAt: 2000, startDate: '2025-01-01', endDate: '2025-12-31', orgTotalTokensUsed: 20, totalAllowance: 1000, usedRatio: 0.02 },
+      ]);
+
+      const earliest = (await store.getEarliestSnapshotsSince(1500))
+        .map(s => `${s.keyId}|${s.startDate}|${s.capturedAt}`)
+        .sort();
+      assert.deepEqual(earliest, ['k1|2025-01-01|2000', 'k1|2025-02-01|3000', 'k2|2025-01-01|2500', 'k3||2500']);
+
+      await store.pruneUsageSnapshots(2500);
+      assert.deepEqual((await store.getUsageHistory('k1', 0, 10_000)).map(s => s.capturedAt), [3000]);
+      assert.deepEqual((await store.getUsageHistory('k2', 0, 10_000)).map(s => s.capturedAt), [2500]);
+
+      // Across days, and pruned again with a later cutoff
+      const day = 24 * 60 * 60 * 1000;
+      await store.saveUsageSnapshots([snapshot('k2', 3 * day, '2025-01-01', 9)]);
+      assert.deepEqual((await store.getEarliestSnapshotsSince(3000)).map(s => `${s.keyId}|${s.capturedAt}`).sort(), ['k1|3000', 'k2|259200000']);
+      await store.pruneUsageSnapshots(2 * day);
+      assert.deepEqual((await store.getUsageHistory('k2', 0, 4 * day)).map(s => s.capturedAt), [3 * day]);
+      assert.deepEqual(await store.getUsageHistory('k1', 0, 4 * day), []);
+    });
+
+    scenario('manages alert rules, webhooks and firing state', async store => {
+      await store.saveAlertRule({ id: 'r1', name: 'High usage', type: 'key_used_ratio', threshold: 0.9, match: null, enabled: true });
+      await store.saveAlertRule({ id: 'r2', name: 'Errors', type: 'key_error', threshold: null, match: '401', enabled: false });
+      await store.saveAlertRule({ id: 'r1', name: 'Very high usage', type: 'key_used_ratio', threshold: 0.95, match: null, enabled: true });
+
+      const rules = (await store.getAlertRules()).sort((a, b) => a.id.localeCompare(b.id));
+      assert.deepEqual(rules, [
+        { id: 'r1', name: 'Very high usage', type: 'key_used_ratio', threshold: 0.95, match: null, enabled: true },
+        { id: 'r2', name: 'Errors', type: 'key_error', threshold: null, match: '401', enabled: false },
+      ]);
+
+      await store.saveAlertWebhook({ id: 'w1', type: 'telegram', url: '', secret: 'bot-token', chatId: '42', enabled: true });
+      assert.deepEqual(await store.getAlertWebhooks(), [
+        { id: 'w1', type: 'telegram', url: '', secret: 'bot-token', chatId: '42', enabled: true },
+      ]);
+      assert.equal(await store.deleteAlertWebhook('w1'), true);
+      assert.equal(await store.deleteAlertWebhook('w1'), false);
+
+      await store.updateAlertStates([{ ruleId: 'r1', target: 'k1' }, { ruleId: 'r2', target: 'pool' }], [], 1000);
+      await store.updateAlertStates([{ ruleId: 'r1', target: 'k1' }], [{ ruleId: 'r2', target: 'pool' }], 2000);
+      assert.deepEqual([...(await store.getAlertStates())], [['r1|k1', 2000]]);
+
+      assert.equal(await store.deleteAlertRule('r1'), true);
+      assert.equal(await store.deleteAlertRule('r1'), false);
+      assert.equal((await store.getAlertStates()).size, 0);
+      assert.deepEqual((await store.getAlertRules()).map(r => r.id), ['r2']);
+    });
+
+    scenario('manages users and their API tokens', async store => {
+      const admin = { id: 'u1', username: 'admin', role: 'admin' as const, password_hash: 'h1', salt: 's1', iterations: 100000 };
+      const viewer = { id: 'u2', username: 'viewer', role: 'viewer' as const, password_hash: 'h2', salt: 's2', iterations: 100000 };
+      await store.saveUser(admin);
+      await store.saveUser(viewer);
+      await store.saveUser({ ...viewer, role: 'operator', password_hash: 'h3' });
+
+      assert.equal(await store.countUsers(), 2);
+      assert.deepEqual((await store.getUsers()).sort((a, b) => a.id.localeCompare(b.id)), [
+        { id: 'u1', username: 'admin', role: 'admin' },
+        { id: 'u2', username: 'viewer', role: 'operator' },
+      ]);
+      assert.deepEqual(await store.getUserByUsername('viewer'), { ...viewer, role: 'operator', password_hash: 'h3' });
+      assert.deepEqual(await store.getUserById('u1'), admin);
+      assert.equal(await store.getUserByUsername('nobody'), null);
+      assert.equal(await store.getUserById('missing'), null);
+
+      const token = {
+        id: 't1', name: 'ci', tokenPrefix: 'dak_abcd', scopes: ['usage:read' as const, 'keys:write' as const],
+        userId: 'u2', expiresAt: null, lastUsedAt: null,
+      };
+      await store.addApiToken(token, 'token-hash');
+      await store.touchApiToken('t1', 5000);
+
+      assert.deepEqual(await store.getApiTokens(), [{ ...token, username: 'viewer', lastUsedAt: 5000 }]);
+      assert.deepEqual(await store.getApiTokenByHash('token-hash'), { ...token, username: 'viewer', lastUsedAt: 5000, role: 'operator' });
+      assert.equal(await store.getApiTokenByHash('other'), null);
+
+      assert.equal(await store.deleteUser('u2'), true);
+      assert.equal(await store.deleteUser('u2'), false);
+      assert.equal(await store.countUsers(), 1);
+      assert.equal(await store.getApiTokenByHash('token-hash'), null);
+      assert.deepEqual(await store.getApiTokens(), []);
+
+      await store.addApiToken({ ...token, id: 't2', userId: 'u1' }, 'token-hash-2');
+      assert.equal(await store.deleteApiToken('t2'), true);
+      assert.equal(await store.deleteApiToken('t2'), false);
+    });
+
+    scenario('appends, queries and prunes the audit log', async store => {
+      await store.addAuditEntry(auditEntry(1000, 'login', 'alice'));
+      await store.addAuditEntry(auditEntry(2000, 'keys.export', 'alice'));
+      await store.addAuditEntry(auditEntry(3000, 'keys.export', 'bob'));
+      await store.addAuditEntry(auditEntry(4000, 'keys.delete', 'bob'));
+
+      const all = await store.queryAuditLog({ limit: 10, offset: 0 });
+      assert.equal(all.total, 4);
+      assert.deepEqual(all.entries.map(e => e.createdAt), [4000, 3000, 2000, 1000]);
+      assert.equal(typeof all.entries[0].id, 'number');
+      assert.deepEqual({ ...all.entries[3], id: 0 }, { ...auditEntry(1000, 'login', 'alice'), id: 0 });
+
+      const page = await store.queryAuditLog({ limit: 2, offset: 1 });
+      assert.equal(page.total, 4);
+      assert.deepEqual(page.entries.map(e => e.createdAt), [3000, 2000]);
+
+      const filtered = await store.queryAuditLog({ action: 'keys.export', actor: 'bob', from: 2000, to: 3000, limit: 10, offset: 0 });
+      assert.equal(filtered.total, 1);
+      assert.deepEqual(filtered.entries.map(e => e.createdAt), [3000]);
+
+      await store.pruneAuditLog(2500);
+      assert.deepEqual((await store.queryAuditLog({ limit: 10, offset: 0 })).entries.map(e => e.createdAt), [4000, 3000]);
+    });
+  });
+}
+
+// ==================== Workers KV ====================
+
+describe('Workers KV listing', () => {
+  it('reads values from the list metadata, and only larger values one by one', async () => {
+    const kv = await getMiniflare().getKVNamespace('KV');
+    const calls = { get: 0, list: 0 };
+    const counted: KvNamespaceLike = {
+      get: (name, type) => { calls.get++; return kv.get(name, type); },
+      put: (name, value, options) => kv.put(name, value, options),
+      delete: name => kv.delete(name),
+      list: options => { calls.list++; return kv.list(options); },
+    };
+    const store = new KvKeyStore(new WorkersKvBackend(counted));
+    try {
+      const keys = Array.from({ length: 30 }, (_, i) => newKey(`k${String(i).padStart(2, '0')}`));
+      await store.addKeys([...keys, newKey('large', { notes: 'x'.repeat(2000) })]);
+      await store.saveKeyResults(keys.map(key => keyResult(key.id, 1000)));
+      Object.assign(calls, { get: 0, list: 0 });
+
+      const listed = await store.listKeys();
+      assert.equal(listed.length, 31);
+      assert.equal(listed.find(key => key.id === 'large').notes, 'x'.repeat(2000));
+      assert.equal((await store.getKeyResults()).length, 30);
+      assert.deepEqual(calls, { get: 1, list: 2 });
+    } finally {
+      for (const { name } of (await kv.list()).keys) await kv.delete(name);
+    }
+  });
+});
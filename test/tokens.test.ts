@@ -0,0 +1,96 @@
+// tokens.test.ts - API tokens: Bearer authentication, scopes and the creator's role
+//
+//   npm test
+
+import assert from 'node:assert/strict';
+import { afterEach, before, describe, it, mock } from 'node:test';
+
+import { createApp, silenceLogs, type TestApp } from './helpers.ts';
+
+before(silenceLogs);
+afterEach(() => mock.timers.reset());
+
+/** Creates a token as `cookie` and returns its secret. */
+async function createToken(app: TestApp, cookie: string, scopes: string[], expiresInDays?: number): Promise<string> {
+  const response = await app.request('/api/tokens', { cookie, body: { name: 'ci', scopes, expiresInDays } });
+  assert.equal(response.status, 200);
+  return (await response.json() as { token: string }).token;
+}
+
+describe('API tokens', () => {
+  it('open only the routes of their scopes', async () => {
+    const app = createApp();
+    const admin = await app.createAdmin();
+    const read = await createToken(app, admin, ['usage:read']);
+    const write = await createToken(app, admin, ['keys:write']);
+    const exporter = await createToken(app, admin, ['keys:export']);
+
+    const status = async (token: string, path: string, body?: unknown) => (await app.request(path, { token, body })).status;
+
+    assert.equal(await status(read, '/api/refresh/runs'), 200);
+    assert.equal(await status(read, '/api/keys', ['fk-token-key-000001']), 403);
+    assert.equal(await status(read, '/api/keys'), 403);
+
+    assert.equal(await status(write, '/api/keys', ['fk-token-key-000001']), 200);
+    assert.equal(await status(write, '/api/refresh/runs'), 403);
+
+    assert.equal(await status(exporter, '/api/keys'), 200);
+    assert.equal(await status(exporter, '/api/keys/export', { format: 'txt' }), 200);
+  });
+
+  it('never open session-only routes, whatever their scopes', async () => {
+    const app = createApp();
+    const admin = await app.createAdmin();
+    const token = await createToken(app, admin, ['usage:read', 'keys:write', 'keys:export']);
+
+    for (const path of ['/api/users', '/api/tokens', '/api/audit', '/api/alerts']) {
+      assert.equal((await app.request(path, { token })).status, 403, path);
+    }
+    assert.equal((await app.request('/api/tokens', { token, body: { name: 'more', scopes: ['usage:read'] } })).status, 403);
+  });
+
+  it('act with the current role of their creator', async () => {
+    const app = createApp();
+    const admin = await app.createAdmin();
+    const other = await app.createUser(admin, 'other-admin', 'admin');
+    const token = await createToken(app, other.cookie, ['keys:write', 'keys:export']);
+    assert.equal((await app.request('/api/keys', { token })).status, 200);
+
+    await app.request(`/api/users/${other.id}`, { method: 'PUT', cookie: admin, body: { role: 'viewer' } });
+    assert.equal((await app.request('/api/keys', { token })).status, 403);
+    assert.equal((await app.request('/api/keys', { token, body: ['fk-token-key-000002'] })).status, 403);
+
+    await app.request(`/api/users/${other.id}`, { method: 'DELETE', cookie: admin });
+    assert.equal((await app.request('/api/keys', { token })).status, 401);
+  });
+
+  it('stop working once revoked or expired', async () => {
+    mock.timers.enable({ apis: ['Date'], now: Date.UTC(2025, 5, 1) });
+    const app = createApp();
+    const admin = await app.createAdmin();
+    const revoked = await createToken(app, admin, ['usage:read']);
+    const expiring = await createToken(app, admin, ['usage:read'], 1);
+
+    const [info] = (await app.env.store.getApiTokens()).filter(t => revoked.startsWith(t.tokenPrefix));
+    assert.equal((await app.request(`/api/tokens/${info.id}`, { method: 'DELETE', cookie: admin })).status, 200);
+    assert.equal((await app.request('/api/refresh/runs', { token: revoked })).status, 401);
+
+    assert.equal((await app.request('/api/refresh/runs', { token: expiring })).status, 200);
+    mock.timers.tick(25 * 60 * 60 * 1000);
+    assert.equal((await app.request('/api/refresh/runs', { token: expiring })).status, 401);
+  });
+
+  it('reject malformed and unknown tokens, even alongside a valid session', async () => {
+    const app = createApp();
+    const admin = await app.createAdmin();
+    const token = await createToken(app, admin, ['usage:read']);
+
+    const status = async (authorization: string) =>
+      (await app.request('/api/refresh/runs', { cookie: admin, headers: { Authorization: authorization } })).status;
+
+    assert.equal(await status(`Basic ${token}`), 401);
+    assert.equal(await status(`Bearer ${token.slice(0, -1)}${token.endsWith('x') ? 'y' : 'x'}`), 401);
+    assert.equal(await status('Bearer not-a-token'), 401);
+    assert.equal(await status(`Bearer ${token}`), 200);
+  });
+});
@@ -0,0 +1,95 @@
+// trash.test.ts - Soft delete into the trash, restore, purge and expiry
+//
+//   npm test
+
+import assert from 'node:assert/strict';
+import { afterEach, before, describe, it, mock } from 'node:test';
+
+import { createApp, createAppWithKeys, silenceLogs, type TestApp } from './helpers.ts';
+
+before(silenceLogs);
+afterEach(() => mock.timers.reset());
+
+const KEYS = ['fk-trash-test-key-0001', 'fk-trash-test-key-0002'];
+
+/** IDs of the live keys and of the keys in the trash, as the API reports them. */
+async function listIds(app: TestApp, cookie: string): Promise<{ live: string[]; trash: string[] }> {
+  const live = await (await app.request('/api/keys', { cookie })).json() as { id: string }[];
+  const trash = await (await app.request('/api/trash', { cookie })).json() as { keys: { id: string }[] };
+  return { live: live.map(k => k.id).sort(), trash: trash.keys.map(k => k.id).sort() };
+}
+
+describe('trash', () => {
+  it('moves deleted keys into the trash, masked, and keeps them from being re-added', async () => {
+    const { app, cookie, ids: [first, second] } = await createAppWithKeys(KEYS);
+
+    assert.equal((await app.request(`/api/keys/${first}`, { method: 'DELETE', cookie })).status, 200);
+    assert.deepEqual(await listIds(app, cookie), { live: [second], trash: [first] });
+
+    const trash = await (await app.request('/api/trash', { cookie })).json() as { keys: { key: string; deletedAt: number }[]; retentionDays: number };
+    assert.equal(trash.retentionDays, 30);
+    assert.equal(trash.keys[0].key, 'fk-t...0001');
+    assert.ok(trash.keys[0].deletedAt > 0);
+
+    const again = await app.request('/api/keys', { cookie, body: { key: KEYS[0] } });
+    assert.equal(again.status, 409);
+    assert.match((await again.json() as { error: string }).error, /trash/);
+  });
+
+  it('restores keys and reports ids that are not in the trash', async () => {
+    const { app, cookie, ids: [first, second] } = await createAppWithKeys(KEYS);
+    await app.request('/api/keys/batch-delete', { cookie, body: { ids: [first] } });
+
+    const response = await app.request('/api/trash/restore', { cookie, body: { ids: [first, second, 'missing'] } });
+    assert.deepEqual(await response.json(), {
+      success: true,
+      restored: 1,
+      results: [{ id: first, status: 'restored' }, { id: second, status: 'not_found' }, { id: 'missing', status: 'not_found' }],
+    });
+    assert.deepEqual(await listIds(app, cookie), { live: [first, second].sort(), trash: [] });
+  });
+
+  it('purges only keys in the trash, and only for admins', async () => {
+    const app = createApp();
+    const admin = await app.createAdmin();
+    const operator = (await app.createUser(admin, 'operator', 'operator')).cookie;
+    const [first, second] = await app.addKeys(admin, KEYS);
+    await app.request('/api/keys/batch-delete', { cookie: operator, body: { ids: [first] } });
+
+    assert.equal((await app.request('/api/trash/purge', { cookie: operator, body: { ids: [first] } })).status, 403);
+
+    const response = await app.request('/api/trash/purge', { cookie: admin, body: { ids: [first, second] } });
+    assert.deepEqual(await response.json(), {
+      success: true,
+      purged: 1,
+      results: [{ id: first, status: 'purged' }, { id: second, status: 'not_found' }],
+    });
+    assert.deepEqual((await app.env.store.listKeys('all')).map(k => k.id), [second]);
+    // A purged key can be added again
+    assert.equal((await app.request('/api/keys', { cookie: admin, body: { key: KEYS[0] } })).status, 200);
+  });
+
+  it('rejects batch requests without a list of ids', async () => {
+    const app = createApp();
+    const cookie = await app.createAdmin();
+    for (const body of [{}, { ids: [] }, { ids: [1] }, { ids: 'key' }]) {
+      assert.equal((await app.request('/api/trash/restore', { cookie, body })).status, 400, JSON.stringify(body));
+    }
+  });
+
+  it('purges keys that stayed in the trash past TRASH_RETENTION_DAYS in the scheduled run', async () => {
+    mock.timers.enable({ apis: ['Date'], now: Date.now() });
+    const { app, cookie, ids: [first, second] } = await createAppWithKeys(KEYS, { TRASH_RETENTION_DAYS: '7' });
+    await app.request('/api/keys/batch-delete', { cookie, body: { ids: [first, second] } });
+
+    mock.timers.tick(6 * 24 * 60 * 60 * 1000);
+    await app.request('/api/trash/restore', { cookie, body: { ids: [second] } });
+    await app.request(`/api/keys/${second}`, { method: 'DELETE', cookie });
+    await app.runScheduled();
+    assert.equal((await app.env.store.listKeys('all')).length, 2);
+
+    mock.timers.tick(2 * 24 * 60 * 60 * 1000);
+    await app.runScheduled();
+    assert.deepEqual((await app.env.store.listKeys('all')).map(k => k.id), [second]);
+  });
+});
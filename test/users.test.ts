@@ -0,0 +1,96 @@
+// users.test.ts - The bootstrap login, user accounts and what each role may do
+//
+//   npm test
+
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+
+import { BOOTSTRAP_PASSWORD, createApp, silenceLogs } from './helpers.ts';
+
+before(silenceLogs);
+
+describe('bootstrap login', () => {
+  it('accepts EXPORT_PASSWORD as username and password until the first user exists', async () => {
+    const app = createApp();
+    assert.equal((await app.request('/api/login', { body: { username: BOOTSTRAP_PASSWORD, password: 'wrong' } })).status, 401);
+    const bootstrap = await app.login(BOOTSTRAP_PASSWORD, BOOTSTRAP_PASSWORD);
+    assert.equal((await app.request('/api/me', { cookie: bootstrap })).status, 200);
+
+    await app.createAdmin();
+    assert.equal((await app.request('/api/me', { cookie: bootstrap })).status, 401);
+    assert.equal((await app.request('/api/login', { body: { username: BOOTSTRAP_PASSWORD, password: BOOTSTRAP_PASSWORD } })).status, 401);
+  });
+
+  it('is disabled while EXPORT_PASSWORD is unset or empty', async () => {
+    for (const EXPORT_PASSWORD of [undefined, '']) {
+      const app = createApp({ EXPORT_PASSWORD });
+      for (const body of [{}, { username: '', password: '' }, { username: null, password: null }]) {
+        assert.equal((await app.request('/api/login', { body })).status, 401, JSON.stringify({ EXPORT_PASSWORD, body }));
+      }
+    }
+  });
+
+  it('rejects credentials that are not strings', async () => {
+    const app = createApp();
+    const response = await app.request('/api/login', { body: { username: [BOOTSTRAP_PASSWORD], password: { value: BOOTSTRAP_PASSWORD } } });
+    assert.equal(response.status, 401);
+  });
+
+  it('requires the first user to be an admin', async () => {
+    const app = createApp();
+    const bootstrap = await app.login(BOOTSTRAP_PASSWORD, BOOTSTRAP_PASSWORD);
+    const response = await app.request('/api/users', { cookie: bootstrap, body: { username: 'ops', password: 'ops-password', role: 'operator' } });
+    assert.equal(response.status, 400);
+    assert.equal(await app.env.store.countUsers(), 0);
+  });
+});
+
+describe('roles', () => {
+  it('lets each role use only the routes at or below its level', async () => {
+    const app = createApp();
+    const admin = await app.createAdmin();
+    const operator = (await app.createUser(admin, 'operator', 'operator')).cookie;
+    const viewer = (await app.createUser(admin, 'viewer', 'viewer')).cookie;
+
+    const status = async (cookie: string, path: string, body?: unknown) => (await app.request(path, { cookie, body })).status;
+
+    // Reading usage
+    for (const cookie of [viewer, operator, admin]) assert.equal(await status(cookie, '/api/refresh/runs'), 200);
+
+    // Changing keys
+    assert.equal(await status(viewer, '/api/keys', ['fk-roles-key-00001']), 403);
+    assert.equal(await status(operator, '/api/keys', ['fk-roles-key-00001']), 200);
+    assert.equal(await status(viewer, '/api/trash'), 403);
+    assert.equal(await status(operator, '/api/trash'), 200);
+
+    // Plaintext keys, users and tokens
+    for (const path of ['/api/keys', '/api/users', '/api/tokens', '/api/audit']) {
+      assert.equal(await status(operator, path), 403, path);
+      assert.equal(await status(admin, path), 200, path);
+    }
+  });
+
+  it('ends the sessions of a user whose role changed or who was deleted', async () => {
+    const app = createApp();
+    const admin = await app.createAdmin();
+    const operator = await app.createUser(admin, 'operator', 'operator');
+    const viewer = await app.createUser(admin, 'viewer', 'viewer');
+
+    assert.equal((await app.request(`/api/users/${operator.id}`, { method: 'PUT', cookie: admin, body: { role: 'viewer' } })).status, 200);
+    assert.equal((await app.request('/api/me', { cookie: operator.cookie })).status, 401);
+    const relogin = await app.login('operator', 'operator-password');
+    assert.equal((await app.request('/api/keys', { cookie: relogin, body: ['fk-roles-key-00002'] })).status, 403);
+
+    assert.equal((await app.request(`/api/users/${viewer.id}`, { method: 'DELETE', cookie: admin })).status, 200);
+    assert.equal((await app.request('/api/me', { cookie: viewer.cookie })).status, 401);
+  });
+
+  it('keeps at least one admin', async () => {
+    const app = createApp();
+    const admin = await app.createAdmin();
+    const { id } = await app.env.store.getUserByUsername('root');
+
+    assert.equal((await app.request(`/api/users/${id}`, { method: 'PUT', cookie: admin, body: { role: 'operator' } })).status, 400);
+    assert.equal((await app.request(`/api/users/${id}`, { method: 'DELETE', cookie: admin })).status, 400);
+  });
+});